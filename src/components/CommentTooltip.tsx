@@ -0,0 +1,20 @@
+import type { ReactElement } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface CommentTooltipProps {
+  /** `COMMENT ON` text; without it the child renders untouched */
+  text?: string;
+  children: ReactElement;
+}
+
+export function CommentTooltip({ text, children }: CommentTooltipProps) {
+  if (!text) return children;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{children}</TooltipTrigger>
+      <TooltipContent side="right" className="text-xs max-w-[280px] whitespace-pre-wrap">
+        {text}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { Share2, PackageOpen, Loader2, Download, AlertTriangle, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { isServiceRoleKey } from "@/lib/jwt";
+import { exportBundle, readBundle, planImport, type BundleConflict, type ImportPlan, type SharedConnection } from "@/lib/connection-bundle";
+import type { ProjectConnection } from "@/lib/schema-types";
+
+interface ShareConnectionsCardProps {
+  connections: ProjectConnection[];
+  onDone: () => void;
+}
+
+export function ShareConnectionsCard({ connections, onDone }: ShareConnectionsCardProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set(connections.map(c => c.id)));
+  const [sharePassphrase, setSharePassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const text = await exportBundle(connections.filter(c => selected.has(c.id)), sharePassphrase);
+      const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `connections-${new Date().toISOString().slice(0, 10)}.schemaviz.json`;
+      link.click();
+      // Some browsers start reading the blob only after click() returns
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't create the bundle");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mismatch = confirm.length > 0 && confirm !== sharePassphrase;
+
+  return (
+    <Card className="glass border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Share2 className="h-5 w-5 text-primary" />
+          Share Connections
+        </CardTitle>
+        <CardDescription>
+          Download an encrypted bundle for a teammate. Send the share passphrase separately from the file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1.5 max-h-48 overflow-y-auto">
+          {connections.map(conn => (
+            <div key={conn.id} className="flex items-center gap-2">
+              <Checkbox id={`share-${conn.id}`} checked={selected.has(conn.id)} onCheckedChange={() => toggle(conn.id)} />
+              <Label htmlFor={`share-${conn.id}`} className="flex-1 min-w-0 text-sm font-normal">
+                <span className="text-foreground">{conn.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground truncate">{conn.url}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="share-passphrase">Share passphrase</Label>
+          <Input
+            id="share-passphrase"
+            type="password"
+            placeholder="Not your vault passphrase"
+            value={sharePassphrase}
+            onChange={e => setSharePassphrase(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="share-confirm">Confirm share passphrase</Label>
+          <Input id="share-confirm" type="password" value={confirm} onChange={e => setConfirm(e.target.value)} />
+          {mismatch && <p className="text-xs text-destructive">Passphrases don't match</p>}
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="flex gap-2">
+          <Button
+            onClick={handleExport}
+            disabled={selected.size === 0 || sharePassphrase.length < 4 || confirm !== sharePassphrase || busy}
+            className="flex-1"
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download Bundle ({selected.size})
+          </Button>
+          <Button variant="ghost" onClick={onDone}>
+            Back
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ImportBundleCardProps {
+  connections: ProjectConnection[];
+  onImport: (added: SharedConnection[], replace: BundleConflict[]) => Promise<void>;
+  onDone: () => void;
+}
+
+export function ImportBundleCard({ connections, onImport, onDone }: ImportBundleCardProps) {
+  const [bundleText, setBundleText] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [sharePassphrase, setSharePassphrase] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  // Conflicts default to keeping what's saved; checked ones take the bundle's version
+  const [replaceIds, setReplaceIds] = useState<Set<string>>(new Set());
+  const [serviceRoleConfirmed, setServiceRoleConfirmed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBundleText(await file.text());
+    setFileName(file.name);
+    setPlan(null);
+    setError(null);
+  };
+
+  const handleDecrypt = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPlan(planImport(connections, await readBundle(bundleText, sharePassphrase)));
+      setReplaceIds(new Set());
+      setServiceRoleConfirmed(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't read that bundle");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onImport(plan.added, plan.conflicts.filter(c => replaceIds.has(c.existing.id)));
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleReplace = (id: string) => {
+    setReplaceIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const importCount = plan ? plan.added.length + replaceIds.size : 0;
+  // Same rule as the add form: a service_role key is only saved once acknowledged
+  const serviceRoleCount = plan
+    ? [...plan.added, ...plan.conflicts.filter(c => replaceIds.has(c.existing.id)).map(c => c.incoming)]
+      .filter(c => isServiceRoleKey(c.anonKey)).length
+    : 0;
+
+  return (
+    <Card className="glass border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <PackageOpen className="h-5 w-5 text-primary" />
+          Import Shared Connections
+        </CardTitle>
+        <CardDescription>Open a bundle from a teammate and add its projects to your vault</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="bundle-file">Bundle file</Label>
+          <Input
+            id="bundle-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="text-xs"
+          />
+          {fileName && <p className="text-[10px] text-muted-foreground truncate">{fileName}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="bundle-passphrase">Share passphrase</Label>
+          <Input
+            id="bundle-passphrase"
+            type="password"
+            value={sharePassphrase}
+            onChange={e => setSharePassphrase(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && bundleText && handleDecrypt()}
+          />
+        </div>
+
+        {plan && (
+          <div className="space-y-2 rounded-md border border-border/50 p-3 text-xs">
+            {plan.added.length > 0 && (
+              <div>
+                <p className="mb-1 font-medium text-foreground">New ({plan.added.length})</p>
+                {plan.added.map(c => (
+                  <p key={c.url} className="flex items-center gap-1 truncate text-muted-foreground">
+                    {c.name} · {c.url}
+                    <ServiceRoleMark apiKey={c.anonKey} />
+                  </p>
+                ))}
+              </div>
+            )}
+            {plan.conflicts.length > 0 && (
+              <div>
+                <p className="mb-1 flex items-center gap-1 font-medium text-warning">
+                  <AlertTriangle className="h-3 w-3" />
+                  Already saved with different settings ({plan.conflicts.length})
+                </p>
+                {plan.conflicts.map(({ existing, incoming }) => (
+                  <div key={existing.id} className="flex items-center gap-2 py-0.5">
+                    <Checkbox
+                      id={`replace-${existing.id}`}
+                      checked={replaceIds.has(existing.id)}
+                      onCheckedChange={() => toggleReplace(existing.id)}
+                    />
+                    <Label htmlFor={`replace-${existing.id}`} className="flex-1 min-w-0 text-xs font-normal truncate">
+                      Replace <span className="text-foreground">{existing.name}</span>
+                      {incoming.name !== existing.name && <> with <span className="text-foreground">{incoming.name}</span></>}
+                      <span className="ml-1 text-muted-foreground">{existing.url}</span>
+                      <ServiceRoleMark apiKey={incoming.anonKey} />
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            {plan.unchanged > 0 && (
+              <p className="text-muted-foreground">{plan.unchanged} already saved and identical</p>
+            )}
+          </div>
+        )}
+
+        {serviceRoleCount > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3">
+            <Checkbox
+              id="confirm-bundle-service-role"
+              checked={serviceRoleConfirmed}
+              onCheckedChange={v => setServiceRoleConfirmed(v === true)}
+              className="mt-0.5"
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor="confirm-bundle-service-role" className="flex items-center gap-1.5 text-sm text-destructive">
+                <ShieldAlert className="h-3.5 w-3.5" />
+                Save {serviceRoleCount === 1 ? "a service_role key" : `${serviceRoleCount} service_role keys`} anyway
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                These keys bypass Row Level Security and can read or change every row. Ask for the anon key unless you need the full catalog.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="flex gap-2">
+          {plan ? (
+            <Button
+              onClick={handleImport}
+              disabled={importCount === 0 || (serviceRoleCount > 0 && !serviceRoleConfirmed) || busy}
+              className="flex-1"
+            >
+              {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+              Import {importCount} {importCount === 1 ? "connection" : "connections"}
+            </Button>
+          ) : (
+            <Button onClick={handleDecrypt} disabled={!bundleText || !sharePassphrase || busy} className="flex-1">
+              {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+              Open Bundle
+            </Button>
+          )}
+          <Button variant="ghost" onClick={onDone}>
+            Back
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ServiceRoleMark({ apiKey }: { apiKey: string }) {
+  if (!isServiceRoleKey(apiKey)) return null;
+  return (
+    <span className="ml-1 inline-flex shrink-0 items-center gap-0.5 rounded px-1 font-mono text-[10px] text-destructive bg-destructive/10">
+      <ShieldAlert className="h-2.5 w-2.5" />
+      service_role
+    </span>
+  );
+}
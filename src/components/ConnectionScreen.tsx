@@ -1,17 +1,40 @@
-import { useState } from "react";
-import { Database, Plus, Key, Loader2, Trash2, Shield } from "lucide-react";
+import { useState, useMemo } from "react";
+import { Database, Plus, Key, KeyRound, Loader2, Trash2, Shield, ShieldAlert, FileJson, FolderOpen, Upload, Share2, PackageOpen, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { ProjectConnection } from "@/lib/schema-types";
+import { ShareConnectionsCard, ImportBundleCard } from "@/components/ConnectionBundleCards";
+import type { IntrospectionStrategy, ProjectConnection } from "@/lib/schema-types";
+import type { SqlFile } from "@/lib/ddl-parser";
+import type { BundleConflict, SharedConnection } from "@/lib/connection-bundle";
+import { inspectApiKey, apiKeyWarnings, isServiceRoleKey } from "@/lib/jwt";
+import { useConnectionHealth } from "@/hooks/use-connection-health";
+import type { ConnectionHealth, HealthStatus } from "@/lib/connection-health";
 
 interface ConnectionScreenProps {
   hasStoredData: boolean;
+  /** When the vault was last locked, by the idle timer or by hand */
+  lockedAt: number | null;
   connections: ProjectConnection[];
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
   onUnlock: (passphrase: string) => Promise<void>;
-  onSetupNew: (passphrase: string) => void;
-  onAddConnection: (name: string, url: string, key: string) => Promise<void>;
+  onSetupNew: (passphrase: string, remember: boolean) => void;
+  /** Rejects (after reporting through `error`) when `current` is wrong */
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onAddConnection: (
+    name: string,
+    url: string,
+    key: string,
+    options?: Pick<ProjectConnection, "schemas" | "strategy" | "metaUrl">,
+  ) => Promise<void>;
+  onImportSpec: (name: string, specText: string) => void;
+  onImportSql: (name: string, files: SqlFile[]) => void;
+  onImportConnections: (added: SharedConnection[], replace: BundleConflict[]) => Promise<void>;
   onConnect: (id: string) => Promise<void>;
   onRemove: (id: string) => Promise<void>;
   onClearAll: () => void;
@@ -19,25 +42,68 @@ interface ConnectionScreenProps {
   error: string | null;
 }
 
+const HEALTH_DOT: Record<HealthStatus, string> = {
+  ok: "bg-success",
+  "auth-error": "bg-warning",
+  "http-error": "bg-destructive",
+  unreachable: "bg-destructive",
+};
+
+function healthSummary(h: ConnectionHealth): string {
+  if (h.status === "ok") {
+    return [`${h.latencyMs} ms`, h.postgrestVersion && `PostgREST ${h.postgrestVersion}`].filter(Boolean).join(" · ");
+  }
+  return h.reason ?? h.status;
+}
+
+type Phase = "unlock" | "setup" | "list" | "add" | "import" | "passphrase" | "share" | "receive";
+
 export function ConnectionScreen({
   hasStoredData,
+  lockedAt,
   connections,
+  remember,
+  onRememberChange,
   onUnlock,
   onSetupNew,
+  onChangePassphrase,
   onAddConnection,
+  onImportSpec,
+  onImportSql,
+  onImportConnections,
   onConnect,
   onRemove,
   onClearAll,
   isLoading,
   error,
 }: ConnectionScreenProps) {
-  const [phase, setPhase] = useState<"unlock" | "setup" | "list" | "add">(
+  const [phase, setPhase] = useState<Phase>(
     hasStoredData ? "unlock" : connections.length > 0 ? "list" : "setup"
   );
+  const [importReturnPhase, setImportReturnPhase] = useState<Phase>("setup");
+  const [importName, setImportName] = useState("");
+  const [specText, setSpecText] = useState("");
+  const [sqlFiles, setSqlFiles] = useState<SqlFile[]>([]);
   const [passphrase, setPassphrase] = useState("");
+  const [rememberNew, setRememberNew] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [nextPassphrase, setNextPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
   const [name, setName] = useState("");
   const [url, setUrl] = useState("");
   const [anonKey, setAnonKey] = useState("");
+  const [schemas, setSchemas] = useState("");
+  const [strategy, setStrategy] = useState<IntrospectionStrategy>("openapi");
+  const [metaUrl, setMetaUrl] = useState("");
+  const [serviceRoleConfirmed, setServiceRoleConfirmed] = useState(false);
+
+  const { health, checking, checkAll } = useConnectionHealth(connections, phase === "list");
+  const healthResults = Object.values(health);
+  const downCount = healthResults.filter(h => h.status !== "ok").length;
+
+  const keyInfo = useMemo(() => inspectApiKey(anonKey), [anonKey]);
+  const keyWarnings = keyInfo ? apiKeyWarnings(url, keyInfo) : [];
+  const isServiceRole = keyInfo?.role === "service_role";
 
   const handleUnlock = async () => {
     try {
@@ -49,15 +115,70 @@ export function ConnectionScreen({
   };
 
   const handleSetup = () => {
-    onSetupNew(passphrase);
+    onSetupNew(passphrase, rememberNew);
     setPhase("add");
   };
 
+  const handleChangePassphrase = async () => {
+    try {
+      await onChangePassphrase(currentPassphrase, nextPassphrase);
+    } catch {
+      return; // error handled by parent
+    }
+    setCurrentPassphrase("");
+    setNextPassphrase("");
+    setConfirmPassphrase("");
+    setPhase("list");
+  };
+
+  const passphraseMismatch = confirmPassphrase.length > 0 && confirmPassphrase !== nextPassphrase;
+
+  const openImport = () => {
+    setImportReturnPhase(phase);
+    setPhase("import");
+  };
+
+  const handleSpecFiles = async (list: FileList | null, folderName?: string) => {
+    const files = Array.from(list ?? []);
+    const sql = files.filter(f => /\.sql$/i.test(f.name));
+    if (sql.length > 0) {
+      setSqlFiles(await Promise.all(sql.map(async f => ({ name: f.name, content: await f.text() }))));
+      setSpecText("");
+      const folder = folderName ?? sql[0].webkitRelativePath.split("/")[0];
+      if (!importName) setImportName(folder || sql[0].name.replace(/\.sql$/i, ""));
+      return;
+    }
+    if (!files[0]) return;
+    setSqlFiles([]);
+    setSpecText(await files[0].text());
+    if (!importName) setImportName(files[0].name.replace(/\.json$/i, ""));
+  };
+
+  const handleOpenImport = () => {
+    const importAs = importName || "Imported schema";
+    if (sqlFiles.length > 0) {
+      onImportSql(importAs, sqlFiles);
+    } else if (specText.trim().startsWith("{")) {
+      onImportSpec(importAs, specText);
+    } else {
+      onImportSql(importAs, [{ name: "pasted.sql", content: specText }]);
+    }
+  };
+
   const handleAdd = async () => {
-    await onAddConnection(name, url, anonKey);
+    const schemaList = schemas.split(",").map(s => s.trim()).filter(Boolean);
+    await onAddConnection(name, url, anonKey, {
+      schemas: schemaList.length > 0 ? schemaList : undefined,
+      strategy: strategy === "pg-meta" ? strategy : undefined,
+      metaUrl: strategy === "pg-meta" && metaUrl.trim() ? metaUrl.trim() : undefined,
+    });
     setName("");
     setUrl("");
     setAnonKey("");
+    setSchemas("");
+    setStrategy("openapi");
+    setMetaUrl("");
+    setServiceRoleConfirmed(false);
     setPhase("list");
   };
 
@@ -83,7 +204,11 @@ export function ConnectionScreen({
                 <Shield className="h-5 w-5 text-primary" />
                 Welcome Back
               </CardTitle>
-              <CardDescription>Enter your passphrase to decrypt saved connections</CardDescription>
+              <CardDescription>
+                {lockedAt
+                  ? `Locked at ${new Date(lockedAt).toLocaleTimeString()}. Enter your passphrase to pick up where you left off.`
+                  : "Enter your passphrase to decrypt saved connections"}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -135,6 +260,20 @@ export function ConnectionScreen({
                   onKeyDown={e => e.key === "Enter" && handleSetup()}
                 />
               </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="remember-new"
+                  checked={rememberNew}
+                  onCheckedChange={v => setRememberNew(v === true)}
+                  className="mt-0.5"
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor="remember-new" className="text-sm">Remember connections on this device</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Keeps the encrypted vault after the browser closes. Leave off on shared machines.
+                  </p>
+                </div>
+              </div>
               <Button onClick={handleSetup} disabled={passphrase.length < 4} className="w-full">
                 Continue
               </Button>
@@ -145,6 +284,25 @@ export function ConnectionScreen({
         {/* Connection List */}
         {phase === "list" && (
           <div className="space-y-4">
+            {connections.length > 0 && (
+              <div className="flex items-center justify-between px-1 text-xs text-muted-foreground">
+                <span>
+                  {healthResults.length === 0
+                    ? "Checking connections..."
+                    : downCount === 0
+                      ? `All ${healthResults.length} reachable`
+                      : `${downCount} of ${healthResults.length} need attention`}
+                </span>
+                <button
+                  onClick={checkAll}
+                  disabled={checking}
+                  className="flex items-center gap-1 hover:text-foreground transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`h-3 w-3 ${checking ? "animate-spin" : ""}`} />
+                  Recheck
+                </button>
+              </div>
+            )}
             {connections.length > 0 && (
               <div className="space-y-2">
                 {connections.map(conn => (
@@ -155,12 +313,36 @@ export function ConnectionScreen({
                         onClick={() => onConnect(conn.id)}
                         disabled={isLoading}
                       >
-                        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                        <div className="relative flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
                           <Database className="h-5 w-5 text-primary" />
+                          {health[conn.id] && (
+                            <span className={`absolute -right-0.5 -top-0.5 h-2.5 w-2.5 rounded-full ring-2 ring-background ${HEALTH_DOT[health[conn.id].status]}`} />
+                          )}
                         </div>
                         <div>
                           <p className="font-medium text-foreground">{conn.name}</p>
+                          {health[conn.id] && (
+                            <p className={`text-[10px] truncate max-w-[280px] ${health[conn.id].status === "ok" ? "text-muted-foreground" : "text-destructive"}`}>
+                              {healthSummary(health[conn.id])}
+                            </p>
+                          )}
                           <p className="text-xs text-muted-foreground truncate max-w-[280px]">{conn.url}</p>
+                          {conn.schemas && (
+                            <p className="text-[10px] text-muted-foreground/70 font-mono truncate max-w-[280px]">
+                              {conn.schemas.join(", ")}
+                            </p>
+                          )}
+                          {isServiceRoleKey(conn.anonKey) && (
+                            <p className="flex items-center gap-1 text-[10px] text-destructive">
+                              <ShieldAlert className="h-3 w-3" />
+                              service_role key
+                            </p>
+                          )}
+                          {conn.strategy === "pg-meta" && (
+                            <p className="text-[10px] text-muted-foreground/70 truncate max-w-[280px]">
+                              via postgres-meta
+                            </p>
+                          )}
                         </div>
                       </button>
                       <Button
@@ -183,18 +365,115 @@ export function ConnectionScreen({
               </div>
             )}
             {error && <p className="text-sm text-destructive text-center">{error}</p>}
+            <div className="flex items-center gap-2 px-1">
+              <Checkbox
+                id="remember"
+                checked={remember}
+                onCheckedChange={v => onRememberChange(v === true)}
+              />
+              <Label htmlFor="remember" className="text-xs text-muted-foreground font-normal">
+                Remember connections on this device
+              </Label>
+            </div>
             <div className="flex gap-2">
               <Button onClick={() => setPhase("add")} variant="outline" className="flex-1">
                 <Plus className="h-4 w-4" />
                 Add Project
               </Button>
+              <Button variant="ghost" onClick={() => setPhase("passphrase")} className="text-muted-foreground">
+                <KeyRound className="h-4 w-4" />
+                Passphrase
+              </Button>
               <Button variant="ghost" onClick={onClearAll} className="text-muted-foreground">
                 Clear All
               </Button>
             </div>
+            <div className="flex justify-center gap-4 text-xs">
+              {connections.length > 0 && (
+                <button
+                  onClick={() => setPhase("share")}
+                  className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Share2 className="h-3.5 w-3.5" />
+                  Share with a teammate
+                </button>
+              )}
+              <button
+                onClick={() => setPhase("receive")}
+                className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <PackageOpen className="h-3.5 w-3.5" />
+                Import shared connections
+              </button>
+            </div>
           </div>
         )}
 
+        {phase === "share" && (
+          <ShareConnectionsCard connections={connections} onDone={() => setPhase("list")} />
+        )}
+
+        {phase === "receive" && (
+          <ImportBundleCard connections={connections} onImport={onImportConnections} onDone={() => setPhase("list")} />
+        )}
+
+        {/* Change Passphrase */}
+        {phase === "passphrase" && (
+          <Card className="glass border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <KeyRound className="h-5 w-5 text-primary" />
+                Change Passphrase
+              </CardTitle>
+              <CardDescription>Saved connections are re-encrypted with the new passphrase</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="current-passphrase">Current passphrase</Label>
+                <Input
+                  id="current-passphrase"
+                  type="password"
+                  value={currentPassphrase}
+                  onChange={e => setCurrentPassphrase(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="next-passphrase">New passphrase</Label>
+                <Input
+                  id="next-passphrase"
+                  type="password"
+                  value={nextPassphrase}
+                  onChange={e => setNextPassphrase(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-passphrase">Confirm new passphrase</Label>
+                <Input
+                  id="confirm-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={e => setConfirmPassphrase(e.target.value)}
+                />
+                {passphraseMismatch && <p className="text-xs text-destructive">Passphrases don't match</p>}
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleChangePassphrase}
+                  disabled={!currentPassphrase || nextPassphrase.length < 4 || nextPassphrase !== confirmPassphrase || isLoading}
+                  className="flex-1"
+                >
+                  {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Key className="h-4 w-4" />}
+                  Change Passphrase
+                </Button>
+                <Button variant="ghost" onClick={() => setPhase("list")}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Add Connection */}
         {phase === "add" && (
           <Card className="glass border-border/50">
@@ -234,17 +513,88 @@ export function ConnectionScreen({
                   type="password"
                   placeholder="eyJhbGciOiJI..."
                   value={anonKey}
-                  onChange={e => setAnonKey(e.target.value)}
+                  onChange={e => { setAnonKey(e.target.value); setServiceRoleConfirmed(false); }}
                 />
+                {keyInfo ? (
+                  <p className="text-xs text-muted-foreground">
+                    Role <span className={`font-mono ${isServiceRole ? "text-destructive" : "text-foreground"}`}>{keyInfo.role ?? "unknown"}</span>
+                    {keyInfo.ref && <> · project <span className="font-mono text-foreground">{keyInfo.ref}</span></>}
+                    {keyInfo.expiresAt && ` · expires ${new Date(keyInfo.expiresAt).toLocaleDateString()}`}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Found in Supabase → Settings → API → Project API keys → anon public
+                  </p>
+                )}
+                {keyWarnings.map(w => <p key={w} className="text-xs text-warning">{w}</p>)}
+              </div>
+              {isServiceRole && (
+                <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3">
+                  <Checkbox
+                    id="confirm-service-role"
+                    checked={serviceRoleConfirmed}
+                    onCheckedChange={v => setServiceRoleConfirmed(v === true)}
+                    className="mt-0.5"
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor="confirm-service-role" className="flex items-center gap-1.5 text-sm text-destructive">
+                      <ShieldAlert className="h-3.5 w-3.5" />
+                      Save a service_role key anyway
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      This key bypasses Row Level Security and can read or change every row. Use the anon key unless you need the full catalog.
+                    </p>
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="schemas">Schemas</Label>
+                <Input
+                  id="schemas"
+                  placeholder="public, api, billing"
+                  value={schemas}
+                  onChange={e => setSchemas(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional, comma-separated. Each must be listed under Settings → API → Exposed schemas
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="strategy">Introspection</Label>
+                <Select value={strategy} onValueChange={v => setStrategy(v as IntrospectionStrategy)}>
+                  <SelectTrigger id="strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="openapi">PostgREST OpenAPI</SelectItem>
+                    <SelectItem value="pg-meta">postgres-meta (full catalog)</SelectItem>
+                  </SelectContent>
+                </Select>
                 <p className="text-xs text-muted-foreground">
-                  Found in Supabase → Settings → API → Project API keys → anon public
+                  {strategy === "pg-meta"
+                    ? "Adds indexes, CHECK/UNIQUE constraints, comments, identity columns and ON DELETE actions. Usually needs the service_role key."
+                    : "Reads the schema your API key can see through /rest/v1/"}
                 </p>
               </div>
+              {strategy === "pg-meta" && (
+                <div className="space-y-2">
+                  <Label htmlFor="meta-url">postgres-meta URL</Label>
+                  <Input
+                    id="meta-url"
+                    placeholder={`${url.replace(/\/+$/, "") || "https://your-project-id.supabase.co"}/pg`}
+                    value={metaUrl}
+                    onChange={e => setMetaUrl(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Optional. Defaults to the project URL's /pg route
+                  </p>
+                </div>
+              )}
               {error && <p className="text-sm text-destructive">{error}</p>}
               <div className="flex gap-2">
                 <Button
                   onClick={handleAdd}
-                  disabled={!name || !url || !anonKey || isLoading}
+                  disabled={!name || !url || !anonKey || (isServiceRole && !serviceRoleConfirmed) || isLoading}
                   className="flex-1"
                 >
                   {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Database className="h-4 w-4" />}
@@ -260,8 +610,116 @@ export function ConnectionScreen({
           </Card>
         )}
 
+        {/* Import an OpenAPI document — needs no credentials or passphrase */}
+        {phase === "import" && (
+          <Card className="glass border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <FileJson className="h-5 w-5 text-primary" />
+                Import Schema
+              </CardTitle>
+              <CardDescription>
+                Load a PostgREST OpenAPI document saved from a project's /rest/v1/ endpoint,
+                a SQL schema dump, or a supabase/migrations folder
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-name">Name</Label>
+                <Input
+                  id="import-name"
+                  placeholder="Customer schema"
+                  value={importName}
+                  onChange={e => setImportName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="spec-file">Files</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <label
+                    htmlFor="spec-file"
+                    className="flex items-center justify-center gap-2 rounded-md border border-dashed border-border/60 px-3 py-4 text-sm text-muted-foreground cursor-pointer hover:border-primary/40 hover:text-foreground transition-colors"
+                  >
+                    <Upload className="h-4 w-4" />
+                    .json or .sql files
+                  </label>
+                  <label
+                    htmlFor="spec-folder"
+                    className="flex items-center justify-center gap-2 rounded-md border border-dashed border-border/60 px-3 py-4 text-sm text-muted-foreground cursor-pointer hover:border-primary/40 hover:text-foreground transition-colors"
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                    Migrations folder
+                  </label>
+                </div>
+                <input
+                  id="spec-file"
+                  type="file"
+                  accept=".json,.sql,application/json,application/sql"
+                  multiple
+                  className="hidden"
+                  onChange={e => handleSpecFiles(e.target.files)}
+                />
+                <input
+                  id="spec-folder"
+                  type="file"
+                  className="hidden"
+                  // Non-standard but supported by every current browser
+                  {...{ webkitdirectory: "" }}
+                  onChange={e => handleSpecFiles(e.target.files)}
+                />
+                {sqlFiles.length > 0 && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {sqlFiles.length} SQL file{sqlFiles.length !== 1 ? "s" : ""}, applied in filename order
+                    </span>
+                    <button className="hover:text-foreground" onClick={() => setSqlFiles([])}>
+                      Clear
+                    </button>
+                  </div>
+                )}
+              </div>
+              {sqlFiles.length === 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="spec-text">Or paste JSON or SQL</Label>
+                  <Textarea
+                    id="spec-text"
+                    placeholder={'{ "swagger": "2.0", "definitions": { ... } }\n\ncreate table public.profiles ( ... );'}
+                    value={specText}
+                    onChange={e => setSpecText(e.target.value)}
+                    className="font-mono text-xs h-40"
+                  />
+                </div>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleOpenImport}
+                  disabled={sqlFiles.length === 0 && !specText.trim()}
+                  className="flex-1"
+                >
+                  <FileJson className="h-4 w-4" />
+                  Open Schema
+                </Button>
+                <Button variant="ghost" onClick={() => setPhase(importReturnPhase)}>
+                  Back
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {(phase === "unlock" || phase === "setup" || phase === "list") && (
+          <button
+            onClick={openImport}
+            className="mt-4 flex w-full items-center justify-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <FileJson className="h-3.5 w-3.5" />
+            Or open a saved OpenAPI spec or SQL schema without connecting
+          </button>
+        )}
+
         <p className="mt-6 text-center text-xs text-muted-foreground">
-          Credentials are AES-encrypted and stored in session storage only.
+          Credentials are AES-encrypted and kept for this tab only, or in IndexedDB if you ask to be remembered.
           <br />
           Nothing is sent to any server — everything runs in your browser.
         </p>
@@ -0,0 +1,96 @@
+import { Braces, CornerDownRight, Table2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { FunctionInfo, TableInfo } from "@/lib/schema-types";
+
+interface FunctionDetailDialogProps {
+  fn: FunctionInfo | null;
+  tables: TableInfo[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTableClick?: (table: TableInfo) => void;
+}
+
+export function FunctionDetailDialog({ fn, tables, open, onOpenChange, onTableClick }: FunctionDetailDialogProps) {
+  if (!fn) return null;
+
+  const returnTable = tables.find(t => t.schema === fn.schema && t.name === fn.returnType);
+  const signature = `${fn.name}(${fn.parameters.map(p => `${p.name} ${p.dataType}`).join(", ")})`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col bg-card border-border/60">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-foreground font-mono">
+            <Braces className="h-5 w-5 text-rpc" />
+            {fn.name}
+          </DialogTitle>
+          <DialogDescription>
+            {fn.parameters.length} parameter{fn.parameters.length !== 1 ? "s" : ""} · {fn.schema} schema ·{" "}
+            {fn.isReadOnly ? "GET or POST" : "POST only"} /rpc/{fn.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-4">
+            <pre className="rounded-lg border border-rpc/20 bg-rpc/5 px-3 py-2 text-xs font-mono text-foreground/80 whitespace-pre-wrap">
+              {signature}
+            </pre>
+
+            <div className="rounded-lg border border-border/40 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/40 bg-secondary/20">
+                    <th className="text-left px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">Parameter</th>
+                    <th className="text-left px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">Type</th>
+                    <th className="text-center px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">Required</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fn.parameters.map((p, i) => (
+                    <tr key={p.name} className={`border-b border-border/20 ${i % 2 === 0 ? "bg-secondary/5" : ""}`}>
+                      <td className="px-3 py-1.5 font-mono text-xs text-foreground">{p.name}</td>
+                      <td className="px-3 py-1.5 font-mono text-xs text-muted-foreground">{p.dataType}</td>
+                      <td className="px-3 py-1.5 text-center text-xs">{p.isRequired ? "✓" : "—"}</td>
+                    </tr>
+                  ))}
+                  {fn.parameters.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-3 py-4 text-center text-xs text-muted-foreground">
+                        This function takes no arguments
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-secondary/10 text-xs">
+              <CornerDownRight className="h-3.5 w-3.5 text-rpc" />
+              <span className="text-muted-foreground">Returns</span>
+              {returnTable ? (
+                <button
+                  className="flex items-center gap-1.5 text-primary hover:underline font-mono"
+                  onClick={() => { onOpenChange(false); onTableClick?.(returnTable); }}
+                >
+                  <Table2 className="h-3 w-3" />
+                  {fn.returnsSet ? "setof " : ""}{returnTable.name}
+                </button>
+              ) : (
+                <span className="font-mono text-foreground">
+                  {fn.returnType ? `${fn.returnsSet ? "setof " : ""}${fn.returnType}` : "not described by the API spec"}
+                </span>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Braces, ChevronDown, ChevronRight } from "lucide-react";
+import type { FunctionInfo } from "@/lib/schema-types";
+
+interface FunctionListProps {
+  functions: FunctionInfo[];
+  searchQuery: string;
+  onFunctionClick: (fn: FunctionInfo) => void;
+  /** "section" sits inline below table content; "overlay" floats over canvas views */
+  variant?: "section" | "overlay";
+}
+
+export function FunctionList({ functions, searchQuery, onFunctionClick, variant = "section" }: FunctionListProps) {
+  const [collapsed, setCollapsed] = useState(variant === "overlay");
+
+  const query = searchQuery.toLowerCase();
+  const filtered = functions.filter(fn =>
+    !query || fn.name.toLowerCase().includes(query) ||
+    fn.parameters.some(p => p.name.toLowerCase().includes(query))
+  );
+  if (filtered.length === 0) return null;
+
+  const header = (
+    <button
+      className="flex items-center gap-2 w-full text-left"
+      onClick={() => setCollapsed(!collapsed)}
+    >
+      {collapsed ? <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" /> : <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />}
+      <Braces className="h-3.5 w-3.5 text-rpc" />
+      <span className="text-xs font-semibold text-rpc">RPC Functions</span>
+      <span className="text-[10px] text-muted-foreground">({filtered.length})</span>
+    </button>
+  );
+
+  const cards = (
+    <div className={variant === "overlay" ? "space-y-1.5 mt-2 max-h-[50vh] overflow-auto" : "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mt-3"}>
+      {filtered.map(fn => (
+        <button
+          key={`${fn.schema}.${fn.name}`}
+          className="w-full text-left rounded-xl border border-dashed border-rpc/30 bg-card/60 px-3 py-2 hover:border-rpc/60 hover:bg-rpc/5 transition-all"
+          onClick={() => onFunctionClick(fn)}
+        >
+          <p className="font-mono text-xs text-foreground truncate">
+            {fn.name}
+            <span className="text-muted-foreground/60">
+              ({fn.parameters.map(p => p.name).join(", ")})
+            </span>
+          </p>
+          <p className="text-[10px] text-muted-foreground font-mono mt-0.5 truncate">
+            → {fn.returnType ? `${fn.returnsSet ? "setof " : ""}${fn.returnType}` : "unknown"}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+
+  if (variant === "overlay") {
+    return (
+      <div
+        className="absolute top-4 right-4 w-64 glass rounded-lg px-3 py-2.5 z-10 cursor-default"
+        onMouseDown={e => e.stopPropagation()}
+        onWheel={e => e.stopPropagation()}
+      >
+        {header}
+        {!collapsed && cards}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-rpc/20 bg-rpc/5 p-4">
+      {header}
+      {!collapsed && cards}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import { ChevronRight, CircleAlert, Info, Settings2, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLintRules } from "@/hooks/use-lint-rules";
+import { LINT_RULES, lintSchema, type LintSeverity } from "@/lib/schema-lint";
+import type { SchemaData, TableInfo } from "@/lib/schema-types";
+
+interface LintPanelProps {
+  schema: SchemaData;
+  onTableClick: (table: TableInfo) => void;
+}
+
+const SEVERITY_STYLE: Record<LintSeverity, { text: string; icon: typeof Info }> = {
+  error: { text: "text-destructive", icon: CircleAlert },
+  warning: { text: "text-warning", icon: TriangleAlert },
+  info: { text: "text-info", icon: Info },
+};
+
+export function LintPanel({ schema, onTableClick }: LintPanelProps) {
+  const { disabled, toggleRule } = useLintRules();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const findings = useMemo(() => lintSchema(schema, disabled), [schema, disabled]);
+
+  // One group per rule, in the order findings are ranked
+  const groups = useMemo(() => {
+    const byRule = new Map<string, typeof findings>();
+    findings.forEach(f => byRule.set(f.ruleId, [...(byRule.get(f.ruleId) ?? []), f]));
+    return [...byRule.entries()].map(([ruleId, items]) => ({ rule: LINT_RULES.find(r => r.id === ruleId)!, items }));
+  }, [findings]);
+
+  const toggleGroup = (ruleId: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(ruleId)) next.delete(ruleId); else next.add(ruleId);
+    return next;
+  });
+
+  const openTable = (tableId: string) => {
+    const table = schema.tables.find(t => t.id === tableId);
+    if (table) onTableClick(table);
+  };
+
+  return (
+    <div className="p-2 pt-0">
+      <div className="flex items-center px-2 py-1">
+        <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">Schema lint</p>
+        <span className="ml-1.5 text-[10px] text-muted-foreground">{findings.length}</span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="ml-auto h-5 w-5" title="Lint rules">
+              <Settings2 className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuLabel className="text-xs">Rules</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {LINT_RULES.map(rule => {
+              const Icon = SEVERITY_STYLE[rule.severity].icon;
+              return (
+                <DropdownMenuCheckboxItem
+                  key={rule.id}
+                  checked={!disabled.has(rule.id)}
+                  onCheckedChange={() => toggleRule(rule.id)}
+                  onSelect={e => e.preventDefault()}
+                  className="text-xs"
+                  title={rule.description}
+                >
+                  <Icon className={`h-3 w-3 mr-2 shrink-0 ${SEVERITY_STYLE[rule.severity].text}`} />
+                  {rule.title}
+                </DropdownMenuCheckboxItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {groups.length === 0 && (
+        <p className="px-3 py-1.5 text-xs text-muted-foreground">
+          {disabled.size === LINT_RULES.length ? "Every rule is switched off" : "No findings"}
+        </p>
+      )}
+      {groups.map(({ rule, items }) => {
+        const style = SEVERITY_STYLE[rule.severity];
+        const Icon = style.icon;
+        const open = expanded.has(rule.id);
+        return (
+          <div key={rule.id}>
+            <button
+              onClick={() => toggleGroup(rule.id)}
+              title={rule.description}
+              className="flex items-center gap-2 w-full px-3 py-1.5 rounded-md text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent/50 hover:text-sidebar-foreground transition-all"
+            >
+              <ChevronRight className={`h-3 w-3 shrink-0 transition-transform ${open ? "rotate-90" : ""}`} />
+              <Icon className={`h-3 w-3 shrink-0 ${style.text}`} />
+              <span className="truncate">{rule.title}</span>
+              <span className="ml-auto font-mono text-[10px] text-muted-foreground">{items.length}</span>
+            </button>
+            {open && items.map((f, i) => (
+              <button
+                key={i}
+                onClick={() => openTable(f.tableId)}
+                className="block w-full pl-10 pr-3 py-1 rounded-md text-left text-[11px] text-sidebar-foreground/60 hover:bg-sidebar-accent/50 hover:text-sidebar-foreground truncate transition-all"
+                title={f.message}
+              >
+                {f.message}
+              </button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { RLS_STATUS } from "@/components/rls-status";
+import type { RlsStatus } from "@/lib/schema-types";
+
+export function RlsStatusBadge({ status, className = "" }: { status: RlsStatus; className?: string }) {
+  const { label, description, text, bg, icon: Icon } = RLS_STATUS[status];
+  return (
+    <span className={`inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded shrink-0 ${text} ${bg} ${className}`} title={description}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </span>
+  );
+}
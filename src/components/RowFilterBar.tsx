@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Check, Copy, Filter, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FILTER_OPERATORS,
+  isComplete,
+  operatorsFor,
+  rowsUrl,
+  type FilterOperator,
+  type RowFilter,
+} from "@/lib/postgrest-filter";
+import type { TableInfo } from "@/lib/schema-types";
+
+interface RowFilterBarProps {
+  table: TableInfo;
+  baseUrl: string;
+  pageSize: number;
+  /** Filters the Data tab is currently showing */
+  applied: RowFilter[];
+  onApply: (filters: RowFilter[]) => void;
+}
+
+/** Draft filters are edited here and only reach the table on Apply; the URL always reflects the draft */
+export function RowFilterBar({ table, baseUrl, pageSize, applied, onApply }: RowFilterBarProps) {
+  const [draft, setDraft] = useState<RowFilter[]>(applied);
+  const [copied, setCopied] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const filterable = table.columns.filter(c => operatorsFor(c).length > 0);
+  const url = rowsUrl(baseUrl, table, { filters: draft, limit: pageSize, offset: 0 });
+  const dirty = JSON.stringify(draft.filter(isComplete)) !== JSON.stringify(applied);
+
+  const update = (index: number, patch: Partial<RowFilter>) =>
+    setDraft(prev => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  const setColumn = (index: number, name: string) => {
+    const column = table.columns.find(c => c.name === name);
+    if (!column) return;
+    const ops = operatorsFor(column);
+    // Keep the operator when the new column supports it
+    update(index, { column: name, operator: ops.includes(draft[index].operator) ? draft[index].operator : ops[0] });
+  };
+
+  const addFilter = () => {
+    const column = filterable[0];
+    if (column) setDraft(prev => [...prev, { column: column.name, operator: operatorsFor(column)[0], value: "" }]);
+  };
+
+  const handleCopy = async () => {
+    setCopyError(null);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      setCopyError(err instanceof Error ? `Couldn't copy: ${err.message}` : "Couldn't copy the URL");
+    }
+  };
+
+  return (
+    <div className="mb-2 space-y-1.5">
+      <form className="space-y-1.5" onSubmit={e => { e.preventDefault(); onApply(draft.filter(isComplete)); }}>
+        {draft.map((filter, i) => {
+          const column = table.columns.find(c => c.name === filter.column);
+          const ops = column ? operatorsFor(column) : [];
+          const { placeholder } = FILTER_OPERATORS[filter.operator];
+          return (
+            <div key={i} className="flex items-center gap-1.5">
+              <Select value={filter.column} onValueChange={v => setColumn(i, v)}>
+                <SelectTrigger className="h-7 w-[180px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {filterable.map(c => (
+                    <SelectItem key={c.name} value={c.name} className="text-xs">
+                      {c.name} <span className="ml-1 font-mono text-[10px] text-muted-foreground">{c.rawType}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filter.operator} onValueChange={v => update(i, { operator: v as FilterOperator })}>
+                <SelectTrigger className="h-7 w-[110px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ops.map(op => (
+                    <SelectItem key={op} value={op} className="text-xs">{FILTER_OPERATORS[op].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {placeholder && (
+                <Input
+                  value={filter.value}
+                  onChange={e => update(i, { value: e.target.value })}
+                  placeholder={column?.typeFamily === "boolean" ? "true / false" : placeholder}
+                  className="h-7 flex-1 font-mono text-xs"
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                className={`h-7 w-7 ${placeholder ? "" : "ml-auto"}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="sm" onClick={addFilter} disabled={filterable.length === 0} className="h-7 text-xs">
+            <Plus className="h-3 w-3" />
+            Filter
+          </Button>
+          {(draft.length > 0 || applied.length > 0) && (
+            <Button type="submit" variant={dirty ? "default" : "ghost"} size="sm" className="h-7 text-xs">
+              <Filter className="h-3 w-3" />
+              Apply
+            </Button>
+          )}
+        </div>
+      </form>
+
+      <div className="flex items-center gap-1 rounded-md border border-border/40 bg-secondary/10 pl-2">
+        <span className="flex-1 truncate font-mono text-[10px] text-muted-foreground" title={url}>
+          GET {url}
+          {table.schema !== "public" && `  (Accept-Profile: ${table.schema})`}
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 text-xs">
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      {copyError && <p className="text-[10px] text-destructive">{copyError}</p>}
+    </div>
+  );
+}
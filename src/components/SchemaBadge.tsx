@@ -0,0 +1,20 @@
+import { schemaColor } from "@/lib/schema-colors";
+
+interface SchemaBadgeProps {
+  schema: string;
+  schemas: string[];
+  className?: string;
+}
+
+/** Colored schema tag; renders nothing when only one schema is loaded */
+export function SchemaBadge({ schema, schemas, className = "" }: SchemaBadgeProps) {
+  if (schemas.length < 2) return null;
+  return (
+    <span
+      className={`text-[9px] font-mono px-1.5 py-0.5 rounded shrink-0 ${className}`}
+      style={{ color: schemaColor(schema, schemas), backgroundColor: schemaColor(schema, schemas, 0.12) }}
+    >
+      {schema}
+    </span>
+  );
+}
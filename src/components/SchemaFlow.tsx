@@ -16,8 +16,11 @@ import "@xyflow/react/dist/style.css";
 import ERTableNode from "@/components/nodes/ERTableNode";
 import UMLClassNode from "@/components/nodes/UMLClassNode";
 import DrillNode from "@/components/nodes/DrillNode";
+import FunctionNode from "@/components/nodes/FunctionNode";
 import { getLayoutedElements } from "@/lib/layout-utils";
-import type { SchemaData, ViewMode, TableInfo } from "@/lib/schema-types";
+import { schemaColor } from "@/lib/schema-colors";
+import { tableId, formatFkColumns, type SchemaData, type ViewMode, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
+import type { ChangeKind, DiffStatus } from "@/lib/schema-diff";
 
 // Views that use React Flow
 export const FLOW_VIEWS: ViewMode[] = [
@@ -29,18 +32,40 @@ interface SchemaFlowProps {
   viewMode: ViewMode;
   searchQuery: string;
   onTableClick?: (table: TableInfo) => void;
+  onFunctionClick?: (fn: FunctionInfo) => void;
+  /** Color tables, columns and keys by how they differ from another schema */
+  diff?: DiffStatus;
 }
 
-export function SchemaFlow({ schema, viewMode, searchQuery, onTableClick }: SchemaFlowProps) {
+// Matches the success / destructive / warning theme tokens
+const DIFF_STROKE: Record<ChangeKind, string> = {
+  added: "hsl(160, 60%, 45%)",
+  removed: "hsl(0, 72%, 56%)",
+  changed: "hsl(38, 92%, 60%)",
+};
+
+const FUNCTION_NODE_PREFIX = "rpc:";
+
+const functionNodeId = (fn: FunctionInfo) => `${FUNCTION_NODE_PREFIX}${fn.schema}.${fn.name}`;
+
+// RPC results described by a `$ref` point at a definition in the function's own schema
+const returnTableId = (fn: FunctionInfo) => fn.returnType ? tableId(fn.schema, fn.returnType) : "";
+
+export function SchemaFlow({ schema, viewMode, searchQuery, onTableClick, onFunctionClick, diff }: SchemaFlowProps) {
   const [highlightedTable, setHighlightedTable] = useState<string | null>(null);
   const [selectedDrillTable, setSelectedDrillTable] = useState<string | null>(null);
 
   const nodeTypes = useMemo<NodeTypes>(() => {
-    if (viewMode === "uml") return { tableNode: UMLClassNode };
-    if (viewMode === "relationship-drill") return { tableNode: DrillNode };
-    return { tableNode: ERTableNode };
+    if (viewMode === "uml") return { tableNode: UMLClassNode, functionNode: FunctionNode };
+    if (viewMode === "relationship-drill") return { tableNode: DrillNode, functionNode: FunctionNode };
+    return { tableNode: ERTableNode, functionNode: FunctionNode };
   }, [viewMode]);
 
+  const enumValues = useMemo(
+    () => Object.fromEntries(schema.enums.map(e => [e.name, e.values])),
+    [schema.enums]
+  );
+
   const { nodes: initialNodes, edges: initialEdges } = useMemo(() => {
     const tables = schema.tables.filter(t =>
       !searchQuery || t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -49,61 +74,119 @@ export function SchemaFlow({ schema, viewMode, searchQuery, onTableClick }: Sche
 
     let filteredTables = tables;
     let filteredFKs = schema.foreignKeys;
+    let filteredFunctions = schema.functions.filter(fn =>
+      !searchQuery || fn.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      tables.some(t => t.id === returnTableId(fn))
+    );
 
     // Drill view filtering
     if (viewMode === "relationship-drill" && selectedDrillTable) {
       const related = new Set<string>();
       related.add(selectedDrillTable);
       schema.foreignKeys.forEach(fk => {
-        if (fk.sourceTable === selectedDrillTable) related.add(fk.targetTable);
-        if (fk.targetTable === selectedDrillTable) related.add(fk.sourceTable);
+        if (fk.sourceId === selectedDrillTable) related.add(fk.targetId);
+        if (fk.targetId === selectedDrillTable) related.add(fk.sourceId);
       });
       const direct = [...related];
       direct.forEach(t => {
         schema.foreignKeys.forEach(fk => {
-          if (fk.sourceTable === t) related.add(fk.targetTable);
-          if (fk.targetTable === t) related.add(fk.sourceTable);
+          if (fk.sourceId === t) related.add(fk.targetId);
+          if (fk.targetId === t) related.add(fk.sourceId);
         });
       });
-      filteredTables = schema.tables.filter(t => related.has(t.name));
-      filteredFKs = schema.foreignKeys.filter(fk => related.has(fk.sourceTable) && related.has(fk.targetTable));
+      filteredTables = schema.tables.filter(t => related.has(t.id));
+      filteredFKs = schema.foreignKeys.filter(fk => related.has(fk.sourceId) && related.has(fk.targetId));
+      filteredFunctions = schema.functions.filter(fn => related.has(returnTableId(fn)));
     }
 
     const nodes: Node[] = filteredTables.map((table) => ({
-      id: table.name,
+      id: table.id,
       type: "tableNode",
       position: { x: 0, y: 0 },
       data: {
         label: table.name,
+        description: table.description,
+        kind: table.kind,
+        schema: table.schema,
+        schemas: schema.schemas,
         columns: table.columns,
+        primaryKey: table.primaryKey,
+        rowCount: table.rowCount,
         columnCount: table.columns.length,
-        highlighted: highlightedTable === table.name,
-        isCenter: viewMode === "relationship-drill" && selectedDrillTable === table.name,
+        enumValues,
+        highlighted: highlightedTable === table.id,
+        isCenter: viewMode === "relationship-drill" && selectedDrillTable === table.id,
+        diffStatus: diff?.tables.get(table.id),
+        columnDiff: diff && Object.fromEntries(
+          table.columns.flatMap(c => {
+            const kind = diff.columns.get(`${table.id}.${c.name}`);
+            return kind ? [[c.name, kind]] : [];
+          })
+        ),
       },
     }));
 
-    const edges: Edge[] = filteredFKs.map((fk) => ({
-      id: fk.constraintName,
-      source: fk.sourceTable,
-      target: fk.targetTable,
-      sourceHandle: null,
-      targetHandle: null,
-      type: "smoothstep",
-      animated: highlightedTable === fk.sourceTable || highlightedTable === fk.targetTable,
-      style: {
-        stroke:
-          highlightedTable === fk.sourceTable || highlightedTable === fk.targetTable
-            ? "hsl(250, 80%, 68%)"
-            : "hsl(228, 10%, 30%)",
-        strokeWidth: highlightedTable === fk.sourceTable || highlightedTable === fk.targetTable ? 2 : 1,
-      },
-      label: `${fk.sourceColumn} → ${fk.targetColumn}`,
-      labelStyle: { fill: "hsl(220, 10%, 52%)", fontSize: 10 },
-      labelBgStyle: { fill: "hsl(228, 12%, 11%)", fillOpacity: 0.9 },
-    }));
+    const edges: Edge[] = filteredFKs.map((fk) => {
+      const active = highlightedTable === fk.sourceId || highlightedTable === fk.targetId;
+      const change = diff?.foreignKeys.get(`${fk.sourceId}:${fk.constraintName}`);
+      return {
+        // A removed key can share its name with the key that replaced it
+        id: `${fk.sourceId}:${fk.constraintName}${change === "removed" ? ":removed" : ""}`,
+        source: fk.sourceId,
+        target: fk.targetId,
+        sourceHandle: null,
+        targetHandle: null,
+        type: "smoothstep",
+        animated: active,
+        style: {
+          stroke: change ? DIFF_STROKE[change] : active ? "hsl(250, 80%, 68%)" : "hsl(228, 10%, 30%)",
+          strokeWidth: active || change ? 2 : 1,
+          strokeDasharray: change === "removed" ? "6 4" : undefined,
+        },
+        label: formatFkColumns(fk),
+        labelStyle: { fill: "hsl(220, 10%, 52%)", fontSize: 10 },
+        labelBgStyle: { fill: "hsl(228, 12%, 11%)", fillOpacity: 0.9 },
+      };
+    });
+
+    // Functions become their own nodes, tied to the table they return (if any)
+    const tableIds = new Set(filteredTables.map(t => t.id));
+    filteredFunctions.forEach(fn => {
+      const id = functionNodeId(fn);
+      const returnId = returnTableId(fn);
+      nodes.push({
+        id,
+        type: "functionNode",
+        position: { x: 0, y: 0 },
+        data: {
+          label: fn.name,
+          fn,
+          columnCount: fn.parameters.length + 1,
+          highlighted: highlightedTable === id,
+        },
+      });
+      if (tableIds.has(returnId)) {
+        const active = highlightedTable === id || highlightedTable === returnId;
+        edges.push({
+          id: `${id}->${returnId}`,
+          source: id,
+          target: returnId,
+          type: "smoothstep",
+          animated: active,
+          style: {
+            stroke: active ? "hsl(320, 65%, 62%)" : "hsl(320, 30%, 35%)",
+            strokeWidth: active ? 2 : 1,
+            strokeDasharray: "4 4",
+          },
+          label: fn.returnsSet ? "returns setof" : "returns",
+          labelStyle: { fill: "hsl(220, 10%, 52%)", fontSize: 10 },
+          labelBgStyle: { fill: "hsl(228, 12%, 11%)", fillOpacity: 0.9 },
+        });
+      }
+    });
 
     return getLayoutedElements(nodes, edges, "LR");
-  }, [schema, viewMode, searchQuery, highlightedTable, selectedDrillTable]);
+  }, [schema, viewMode, searchQuery, highlightedTable, selectedDrillTable, enumValues, diff]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -122,21 +205,26 @@ export function SchemaFlow({ schema, viewMode, searchQuery, onTableClick }: Sche
   }, []);
 
   const onNodeClick = useCallback((_: any, node: Node) => {
+    if (node.id.startsWith(FUNCTION_NODE_PREFIX)) {
+      const fn = schema.functions.find(f => functionNodeId(f) === node.id);
+      if (fn && onFunctionClick) onFunctionClick(fn);
+      return;
+    }
     if (viewMode === "relationship-drill") {
       setSelectedDrillTable(node.id);
     }
     if (onTableClick) {
-      const table = schema.tables.find(t => t.name === node.id);
+      const table = schema.tables.find(t => t.id === node.id);
       if (table) onTableClick(table);
     }
-  }, [viewMode, onTableClick, schema.tables]);
+  }, [viewMode, onTableClick, onFunctionClick, schema.tables, schema.functions]);
 
   return (
     <div className="w-full h-full relative">
       {viewMode === "relationship-drill" && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 glass rounded-lg px-4 py-2 text-xs text-muted-foreground">
           {selectedDrillTable
-            ? `Showing relationships for "${selectedDrillTable}" — click another table to drill`
+            ? `Showing relationships for "${schema.schemas.length > 1 ? selectedDrillTable : schema.tables.find(t => t.id === selectedDrillTable)?.name}" — click another table to drill`
             : "Click any table to explore its relationships"}
         </div>
       )}
@@ -159,7 +247,12 @@ export function SchemaFlow({ schema, viewMode, searchQuery, onTableClick }: Sche
         <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="hsl(228, 10%, 15%)" />
         <Controls />
         <MiniMap
-          nodeColor={() => "hsl(250, 80%, 68%)"}
+          nodeColor={(node) => node.data?.diffStatus
+            ? DIFF_STROKE[node.data.diffStatus as ChangeKind]
+            : node.type === "functionNode"
+            ? "hsl(320, 65%, 62%)"
+            : schema.schemas.length > 1 ? schemaColor(node.data?.schema as string, schema.schemas)
+            : node.data?.kind === "view" ? "hsl(160, 60%, 45%)" : "hsl(250, 80%, 68%)"}
           maskColor="hsl(228, 12%, 8%, 0.8)"
           style={{ borderRadius: 8 }}
         />
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo, useEffect } from "react";
 import {
   Search,
   Download,
@@ -8,26 +8,60 @@ import {
   LogOut,
   Plus,
   Trash2,
+  Filter,
+  FileJson,
+  Rows3,
+  Loader2,
+  Lock,
+  ShieldAlert,
+  RefreshCw,
+  GitCompare,
+  History,
+  UserRound,
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import * as LucideIcons from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { SchemaFlow, FLOW_VIEWS } from "@/components/SchemaFlow";
+import { LintPanel } from "@/components/LintPanel";
 import { SpreadsheetView } from "@/components/views/SpreadsheetView";
 import { CorrelationView } from "@/components/views/CorrelationView";
 import { ExplorerView } from "@/components/views/ExplorerView";
+import { SchemaHistoryView } from "@/components/views/SchemaHistoryView";
 import { GroupedView } from "@/components/views/GroupedView";
 import { StoryView } from "@/components/views/StoryView";
 import { LayerView } from "@/components/views/LayerView";
 import { TimelineView } from "@/components/views/TimelineView";
+import { RlsCoverageView } from "@/components/views/RlsCoverageView";
 import { HierarchyView } from "@/components/views/HierarchyView";
 import { SwimlaneView } from "@/components/views/SwimlaneView";
 import { NodeLinkView } from "@/components/views/NodeLinkView";
 import { ProcessFlowView } from "@/components/views/ProcessFlowView";
+import { SchemaDiffView } from "@/components/views/SchemaDiffView";
 import { TableDetailDialog } from "@/components/TableDetailDialog";
-import { VIEW_CONFIGS, type ViewMode, type SchemaData, type ProjectConnection, type TableInfo } from "@/lib/schema-types";
+import { FunctionDetailDialog } from "@/components/FunctionDetailDialog";
+import { ViewAsDialog } from "@/components/ViewAsDialog";
+import { schemaColor } from "@/lib/schema-colors";
+import { formatCount, type CountMode } from "@/lib/table-stats";
+import { useRowCounts } from "@/hooks/use-row-counts";
+import { useSchemaSnapshot } from "@/hooks/use-schema-snapshot";
+import { inspectApiKey, isServiceRoleKey } from "@/lib/jwt";
+import type { ViewAsIdentity } from "@/lib/view-as";
+import { VIEW_CONFIGS, type ViewMode, type SchemaData, type ProjectConnection, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
 import { toPng, toSvg } from "html-to-image";
 import { jsPDF } from "jspdf";
 
@@ -39,37 +73,158 @@ interface SchemaLayoutProps {
   onAddConnection: () => void;
   onRemoveConnection: (id: string) => void;
   onDisconnect: () => void;
+  /** Swap in a newer snapshot of the active connection's schema */
+  onSchemaUpdate: (schema: SchemaData) => void;
+  /** Schema of another saved connection, for comparing against this one */
+  onLoadSchema: (connection: ProjectConnection) => Promise<SchemaData>;
+  /** View to open on mount, e.g. the one in use when the vault locked */
+  initialViewMode?: ViewMode;
+  onViewModeChange?: (mode: ViewMode) => void;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  /** Absent when there's no vault to lock (an imported file opened without one) */
+  onLock?: () => void;
+}
+
+const AUTO_LOCK_CHOICES = [5, 15, 30, 60, 0];
+
+/** Another connection's schema being diffed against the active one */
+interface Comparison {
+  connection: ProjectConnection;
+  schema: SchemaData | null;
+  error: string | null;
+  /** Show the active connection as the base instead of the target */
+  reversed: boolean;
 }
 
 // Non-flow views that render their own UI
 const NON_FLOW_VIEWS: ViewMode[] = [
   "spreadsheet", "data-correlation", "schema-explorer",
   "grouped", "story-driven", "layer", "timeline",
-  "hierarchy", "swimlane", "node-link", "process-flow",
+  "hierarchy", "swimlane", "node-link", "process-flow", "rls-coverage",
 ];
 
 export function SchemaLayout({
-  schema,
+  schema: loadedSchema,
   activeConnection,
   connections,
   onSwitchConnection,
   onAddConnection,
   onRemoveConnection,
   onDisconnect,
+  onSchemaUpdate,
+  onLoadSchema,
+  initialViewMode = "er-diagram",
+  onViewModeChange,
+  autoLockMinutes,
+  onAutoLockChange,
+  onLock,
 }: SchemaLayoutProps) {
-  const [viewMode, setViewMode] = useState<ViewMode>("er-diagram");
+  const [viewMode, setViewMode] = useState<ViewMode>(initialViewMode);
   const [searchQuery, setSearchQuery] = useState("");
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [selectedTable, setSelectedTable] = useState<TableInfo | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
+  const [selectedFunction, setSelectedFunction] = useState<FunctionInfo | null>(null);
+  const [functionOpen, setFunctionOpen] = useState(false);
+  const [hiddenSchemas, setHiddenSchemas] = useState<Set<string>>(new Set());
+  const [countMode, setCountMode] = useState<CountMode | "off">("estimated");
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [viewAs, setViewAs] = useState<ViewAsIdentity | null>(null);
+  const [viewAsOpen, setViewAsOpen] = useState(false);
   const flowRef = useRef<HTMLDivElement>(null);
 
+  const snapshot = useSchemaSnapshot(activeConnection, loadedSchema);
+
+  const handleRefreshSchema = async () => {
+    const { data } = await snapshot.refetch();
+    if (data) onSchemaUpdate(data);
+  };
+
+  const { counts: rowCounts, loading: countsLoading } = useRowCounts(
+    loadedSchema.tables,
+    activeConnection,
+    countMode === "off" ? null : countMode,
+  );
+
+  // Counts as the chosen user next to the key's own, so RLS differences show
+  // up per table. Counted the way the toolbar counts, and only while the
+  // comparison is open
+  const compareMode = viewAs && viewAsOpen && countMode !== "off" ? countMode : null;
+  const userCounts = useRowCounts(loadedSchema.tables, activeConnection, compareMode, viewAs?.accessToken);
+
+  // Counts arrive after the schema; fold them in so every view sees `rowCount`
+  const fullSchema = useMemo<SchemaData>(() => {
+    if (Object.keys(rowCounts).length === 0) return loadedSchema;
+    return {
+      ...loadedSchema,
+      tables: loadedSchema.tables.map(t => (t.id in rowCounts ? { ...t, rowCount: rowCounts[t.id] } : t)),
+    };
+  }, [loadedSchema, rowCounts]);
+
+  // Views see only the schemas left visible by the toolbar filter; `schemas`
+  // stays complete so per-schema colors don't shift as the filter changes.
+  const schema = useMemo<SchemaData>(() => {
+    if (hiddenSchemas.size === 0) return fullSchema;
+    const visible = (s: string) => !hiddenSchemas.has(s);
+    const tables = fullSchema.tables.filter(t => visible(t.schema));
+    const ids = new Set(tables.map(t => t.id));
+    return {
+      ...fullSchema,
+      tables,
+      foreignKeys: fullSchema.foreignKeys.filter(fk => ids.has(fk.sourceId) && ids.has(fk.targetId)),
+      functions: fullSchema.functions.filter(fn => visible(fn.schema)),
+      enums: fullSchema.enums.filter(e => visible(e.schema)),
+    };
+  }, [fullSchema, hiddenSchemas]);
+
+  // A different project (or a reload) brings its own schema list
+  useEffect(() => { setHiddenSchemas(new Set()); }, [fullSchema.schemas]);
+
+  const toggleSchema = (name: string) => {
+    setHiddenSchemas(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
+  // Switching projects ends a comparison; the new active one may be the other side
+  useEffect(() => {
+    setComparison(null);
+    setHistoryOpen(false);
+    setViewAs(null);
+  }, [activeConnection.id]);
+
+  const startComparison = (connection: ProjectConnection) => {
+    setHistoryOpen(false);
+    setComparison({ connection, schema: null, error: null, reversed: false });
+    onLoadSchema(connection)
+      .then(other => setComparison(c => (c?.connection.id === connection.id ? { ...c, schema: other } : c)))
+      .catch(err => setComparison(c => (c?.connection.id === connection.id
+        ? { ...c, error: err instanceof Error ? err.message : "Couldn't load that schema" }
+        : c)));
+  };
+
   const handleTableClick = useCallback((table: TableInfo) => {
     setSelectedTable(table);
     setDetailOpen(true);
   }, []);
 
+  const handleFunctionClick = useCallback((fn: FunctionInfo) => {
+    setSelectedFunction(fn);
+    setFunctionOpen(true);
+  }, []);
+
+  const tableCount = schema.tables.filter(t => t.kind === "table").length;
+  const viewCount = schema.tables.length - tableCount;
+  const countedTables = schema.tables
+    .filter(t => t.rowCount !== undefined)
+    .sort((a, b) => (b.rowCount ?? 0) - (a.rowCount ?? 0));
+  const totalRows = countedTables.reduce((sum, t) => sum + (t.rowCount ?? 0), 0);
+
   const isFlowView = FLOW_VIEWS.includes(viewMode);
 
   const handleExport = async (format: "png" | "svg" | "pdf" | "json") => {
@@ -149,31 +304,73 @@ export function SchemaLayout({
   };
 
   const renderView = () => {
+    if (historyOpen) {
+      return (
+        <SchemaHistoryView
+          connection={activeConnection}
+          searchQuery={searchQuery}
+          onClose={() => setHistoryOpen(false)}
+          onTableClick={handleTableClick}
+        />
+      );
+    }
+    if (comparison) {
+      if (!comparison.schema) {
+        return (
+          <div className="flex h-full items-center justify-center gap-2 text-sm text-muted-foreground">
+            {comparison.error
+              ? <span className="text-destructive">{comparison.error}</span>
+              : <><Loader2 className="h-4 w-4 animate-spin" /> Loading {comparison.connection.name}...</>}
+            <Button variant="ghost" size="sm" onClick={() => setComparison(null)} className="text-xs">Cancel</Button>
+          </div>
+        );
+      }
+      const sides = [
+        { name: comparison.connection.name, schema: comparison.schema },
+        { name: activeConnection.name, schema: loadedSchema },
+      ];
+      const [base, target] = comparison.reversed ? [sides[1], sides[0]] : sides;
+      return (
+        <SchemaDiffView
+          base={base.schema}
+          target={target.schema}
+          baseName={base.name}
+          targetName={target.name}
+          searchQuery={searchQuery}
+          onSwap={() => setComparison(c => c && { ...c, reversed: !c.reversed })}
+          onClose={() => setComparison(null)}
+          onTableClick={handleTableClick}
+        />
+      );
+    }
+    const viewProps = { schema, searchQuery, onTableClick: handleTableClick, onFunctionClick: handleFunctionClick };
     switch (viewMode) {
       case "spreadsheet":
-        return <SpreadsheetView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <SpreadsheetView {...viewProps} />;
       case "data-correlation":
-        return <CorrelationView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <CorrelationView {...viewProps} />;
       case "schema-explorer":
-        return <ExplorerView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <ExplorerView {...viewProps} />;
       case "grouped":
-        return <GroupedView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <GroupedView {...viewProps} />;
       case "story-driven":
-        return <StoryView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <StoryView {...viewProps} />;
       case "layer":
-        return <LayerView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <LayerView {...viewProps} />;
       case "timeline":
-        return <TimelineView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <TimelineView {...viewProps} />;
+      case "rls-coverage":
+        return <RlsCoverageView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
       case "hierarchy":
-        return <HierarchyView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <HierarchyView {...viewProps} />;
       case "swimlane":
-        return <SwimlaneView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <SwimlaneView {...viewProps} />;
       case "node-link":
-        return <NodeLinkView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <NodeLinkView {...viewProps} />;
       case "process-flow":
-        return <ProcessFlowView schema={schema} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <ProcessFlowView {...viewProps} />;
       default:
-        return <SchemaFlow schema={schema} viewMode={viewMode} searchQuery={searchQuery} onTableClick={handleTableClick} />;
+        return <SchemaFlow {...viewProps} viewMode={viewMode} />;
     }
   };
 
@@ -186,11 +383,22 @@ export function SchemaLayout({
           <div className="p-4 border-b border-sidebar-border">
             <div className="flex items-center gap-2 mb-3">
               <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary/10">
-                <Database className="h-4 w-4 text-primary" />
+                {activeConnection.source === "file"
+                  ? <FileJson className="h-4 w-4 text-primary" />
+                  : <Database className="h-4 w-4 text-primary" />}
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-sidebar-foreground truncate">{activeConnection.name}</p>
-                <p className="text-[10px] text-muted-foreground truncate">{schema.tables.length} tables</p>
+                {activeConnection.source === "file" && (
+                  <p className="text-[10px] text-muted-foreground/70">Imported file · no live data</p>
+                )}
+                <p className="text-[10px] text-muted-foreground truncate">
+                  {tableCount} tables
+                  {viewCount > 0 && ` · ${viewCount} views`}
+                  {schema.functions.length > 0 && ` · ${schema.functions.length} functions`}
+                  {fullSchema.schemas.length > 1 && ` · ${fullSchema.schemas.length} schemas`}
+                  {countedTables.length > 0 && ` · ${formatCount(totalRows)} rows`}
+                </p>
               </div>
             </div>
 
@@ -202,6 +410,11 @@ export function SchemaLayout({
               >
                 <Database className="h-3 w-3" />
                 <span className="truncate flex-1 text-left">{conn.name}</span>
+                <GitCompare
+                  className="h-3 w-3 opacity-0 group-hover:opacity-100 hover:text-primary"
+                  aria-label={`Compare with ${conn.name}`}
+                  onClick={(e) => { e.stopPropagation(); startComparison(conn); }}
+                />
                 <Trash2
                   className="h-3 w-3 opacity-0 group-hover:opacity-100 hover:text-destructive"
                   onClick={(e) => { e.stopPropagation(); onRemoveConnection(conn.id); }}
@@ -213,6 +426,30 @@ export function SchemaLayout({
               <Button variant="ghost" size="sm" onClick={onAddConnection} className="flex-1 text-xs h-7">
                 <Plus className="h-3 w-3" /> Add
               </Button>
+              {onLock && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-xs h-7 text-muted-foreground">
+                      <Lock className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuItem onClick={onLock} className="text-xs">
+                      <Lock className="h-3 w-3 mr-2" />
+                      Lock now
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel className="text-xs">Auto-lock after inactivity</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup value={String(autoLockMinutes)} onValueChange={v => onAutoLockChange(Number(v))}>
+                      {AUTO_LOCK_CHOICES.map(minutes => (
+                        <DropdownMenuRadioItem key={minutes} value={String(minutes)} className="text-xs">
+                          {minutes === 0 ? "Never" : `${minutes} minutes`}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               <Button variant="ghost" size="sm" onClick={onDisconnect} className="text-xs h-7 text-muted-foreground">
                 <LogOut className="h-3 w-3" />
               </Button>
@@ -229,9 +466,9 @@ export function SchemaLayout({
                   <Tooltip key={view.id}>
                     <TooltipTrigger asChild>
                       <button
-                        onClick={() => setViewMode(view.id)}
+                        onClick={() => { setViewMode(view.id); onViewModeChange?.(view.id); setComparison(null); setHistoryOpen(false); }}
                         className={`flex items-center gap-2.5 w-full px-3 py-2 rounded-md text-sm transition-all ${
-                          viewMode === view.id
+                          viewMode === view.id && !comparison && !historyOpen
                             ? "bg-sidebar-accent text-sidebar-accent-foreground font-medium"
                             : "text-sidebar-foreground/70 hover:bg-sidebar-accent/50 hover:text-sidebar-foreground"
                         }`}
@@ -247,12 +484,39 @@ export function SchemaLayout({
                 );
               })}
             </div>
+
+            {countedTables.length > 0 && (
+              <div className="p-2 pt-0">
+                <p className="px-2 py-1 text-[10px] font-semibold uppercase tracking-widest text-muted-foreground">Largest tables</p>
+                {countedTables.slice(0, 8).map(table => (
+                  <button
+                    key={table.id}
+                    onClick={() => handleTableClick(table)}
+                    className="flex items-center gap-2 w-full px-3 py-1.5 rounded-md text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent/50 hover:text-sidebar-foreground transition-all"
+                  >
+                    <span className="truncate">{table.name}</span>
+                    <span className="ml-auto font-mono text-[10px] text-muted-foreground">{formatCount(table.rowCount ?? 0)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <LintPanel schema={schema} onTableClick={handleTableClick} />
           </ScrollArea>
         </div>
       )}
 
       {/* Main Area */}
       <div className="flex-1 flex flex-col min-w-0">
+        {isServiceRoleKey(activeConnection.anonKey) && (
+          <div className="flex items-center gap-2 px-4 py-1.5 border-b border-destructive/40 bg-destructive/10 text-xs text-destructive">
+            <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+            <span>
+              <span className="font-semibold">service_role key in use.</span> It bypasses Row Level Security: every
+              row preview and count here sees all data. Switch to the anon key on shared machines.
+            </span>
+          </div>
+        )}
         {/* Toolbar */}
         <div className="flex items-center gap-2 px-4 py-2 border-b border-border/50 bg-card/50">
           <Button variant="ghost" size="icon" onClick={() => setSidebarOpen(!sidebarOpen)} className="h-8 w-8">
@@ -269,6 +533,109 @@ export function SchemaLayout({
             />
           </div>
 
+          {fullSchema.schemas.length > 1 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 text-xs">
+                  <Filter className="h-3 w-3" />
+                  {hiddenSchemas.size === 0
+                    ? "All schemas"
+                    : `${fullSchema.schemas.length - hiddenSchemas.size} of ${fullSchema.schemas.length} schemas`}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel className="text-xs">Schemas</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {fullSchema.schemas.map(name => (
+                  <DropdownMenuCheckboxItem
+                    key={name}
+                    checked={!hiddenSchemas.has(name)}
+                    // Keep at least one schema visible
+                    disabled={!hiddenSchemas.has(name) && hiddenSchemas.size === fullSchema.schemas.length - 1}
+                    onCheckedChange={() => toggleSchema(name)}
+                    onSelect={e => e.preventDefault()}
+                    className="text-xs font-mono"
+                  >
+                    <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: schemaColor(name, fullSchema.schemas) }} />
+                    {name}
+                    <span className="ml-auto pl-3 text-muted-foreground">
+                      {fullSchema.tables.filter(t => t.schema === name).length}
+                    </span>
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {activeConnection.url && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 text-xs">
+                  {countsLoading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Rows3 className="h-3 w-3" />}
+                  {countMode === "off" ? "Row counts off" : `Rows: ${countMode}`}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel className="text-xs">Row counts</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup value={countMode} onValueChange={v => setCountMode(v as CountMode | "off")}>
+                  <DropdownMenuRadioItem value="estimated" className="text-xs">Estimated</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="planned" className="text-xs">Planned (fastest)</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="exact" className="text-xs">Exact (slow on big tables)</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="off" className="text-xs">Off</DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {activeConnection.source !== "file" && (snapshot.changed && snapshot.latest ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSchemaUpdate(snapshot.latest)}
+              className="h-8 text-xs text-warning hover:text-warning"
+            >
+              <RefreshCw className="h-3 w-3" />
+              Schema changed since last load · Reload
+            </Button>
+          ) : (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" onClick={handleRefreshSchema} disabled={snapshot.refreshing} className="h-8 text-xs text-muted-foreground">
+                  <RefreshCw className={`h-3 w-3 ${snapshot.refreshing ? "animate-spin" : ""}`} />
+                  {snapshot.fetchedAt > 0 && formatDistanceToNow(snapshot.fetchedAt, { addSuffix: true })}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {snapshot.error ? `Last refresh failed: ${snapshot.error.message}` : "Refresh schema"}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+
+          {activeConnection.source !== "file" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setHistoryOpen(o => !o); setComparison(null); }}
+              className={`h-8 text-xs ${historyOpen ? "text-primary" : "text-muted-foreground"}`}
+            >
+              <History className="h-3 w-3" />
+              History
+            </Button>
+          )}
+
+          {activeConnection.source !== "file" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setViewAsOpen(true)}
+              className={`h-8 text-xs ${viewAs ? "text-primary" : "text-muted-foreground"}`}
+            >
+              <UserRound className="h-3 w-3" />
+              {viewAs ? `As ${viewAs.label}` : "View as"}
+            </Button>
+          )}
+
           <div className="ml-auto flex items-center gap-1">
             {(["png", "svg", "pdf", "json"] as const).map(fmt => (
               <Tooltip key={fmt}>
@@ -296,12 +663,42 @@ export function SchemaLayout({
       {/* Table Detail Dialog */}
       <TableDetailDialog
         table={selectedTable}
-        foreignKeys={schema.foreignKeys}
+        foreignKeys={fullSchema.foreignKeys}
         open={detailOpen}
         onOpenChange={setDetailOpen}
         supabaseUrl={activeConnection.url}
         supabaseKey={activeConnection.anonKey}
+        accessToken={viewAs?.accessToken}
+        viewAsLabel={viewAs?.label}
+        functions={fullSchema.functions}
+        enums={fullSchema.enums}
+        onFunctionClick={handleFunctionClick}
+      />
+
+      <FunctionDetailDialog
+        fn={selectedFunction}
+        tables={fullSchema.tables}
+        open={functionOpen}
+        onOpenChange={setFunctionOpen}
+        onTableClick={handleTableClick}
       />
+
+      {activeConnection.source !== "file" && (
+        <ViewAsDialog
+          open={viewAsOpen}
+          onOpenChange={setViewAsOpen}
+          connection={activeConnection}
+          keyRole={inspectApiKey(activeConnection.anonKey)?.role ?? "key"}
+          identity={viewAs}
+          onIdentityChange={setViewAs}
+          tables={fullSchema.tables}
+          countMode={countMode}
+          keyCounts={rowCounts}
+          userCounts={userCounts.counts}
+          countsLoading={countsLoading || userCounts.loading}
+          onTableClick={handleTableClick}
+        />
+      )}
     </div>
   );
 }
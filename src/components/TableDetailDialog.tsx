@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { Key, Link2, Table2, ExternalLink, Loader2, AlertCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import { Key, Link2, Table2, ExternalLink, Loader2, AlertCircle, ChevronLeft, ChevronRight, Eye, Braces } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -10,7 +10,12 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { TableInfo, ForeignKey } from "@/lib/schema-types";
+import { RlsStatusBadge } from "@/components/RlsStatusBadge";
+import { RowFilterBar } from "@/components/RowFilterBar";
+import { RLS_STATUS } from "@/components/rls-status";
+import { rlsStatus } from "@/lib/rls-status";
+import { rowsUrl, type RowFilter } from "@/lib/postgrest-filter";
+import { tableId, fkColumnList, columnEnum, type TableInfo, type ForeignKey, type FunctionInfo, type EnumInfo } from "@/lib/schema-types";
 
 interface TableDetailDialogProps {
   table: TableInfo | null;
@@ -19,17 +24,39 @@ interface TableDetailDialogProps {
   onOpenChange: (open: boolean) => void;
   supabaseUrl?: string;
   supabaseKey?: string;
+  /** A signed-in user's token to read rows as, in place of the key */
+  accessToken?: string;
+  viewAsLabel?: string;
+  functions?: FunctionInfo[];
+  enums?: EnumInfo[];
+  onFunctionClick?: (fn: FunctionInfo) => void;
 }
 
 const PAGE_SIZE = 25;
+const NO_FILTERS: RowFilter[] = [];
 
-export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supabaseUrl, supabaseKey }: TableDetailDialogProps) {
+export function TableDetailDialog({
+  table,
+  foreignKeys,
+  open,
+  onOpenChange,
+  supabaseUrl,
+  supabaseKey,
+  accessToken,
+  viewAsLabel,
+  functions = [],
+  enums = [],
+  onFunctionClick,
+}: TableDetailDialogProps) {
   const [rows, setRows] = useState<Record<string, any>[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [totalCount, setTotalCount] = useState<number | null>(null);
   const [tab, setTab] = useState<string>("data");
+  // Applied filters belong to the table they were built for
+  const [applied, setApplied] = useState<{ tableId: string; filters: RowFilter[] } | null>(null);
+  const filters = table && applied?.tableId === table.id ? applied.filters : NO_FILTERS;
 
   const fetchData = useCallback(async (offset: number) => {
     if (!table || !supabaseUrl || !supabaseKey) return;
@@ -39,14 +66,15 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
 
     try {
       const res = await fetch(
-        `${supabaseUrl}/rest/v1/${table.name}?select=*&limit=${PAGE_SIZE}&offset=${offset}&order=${table.columns[0]?.name || "id"}`,
+        rowsUrl(supabaseUrl, table, { filters, limit: PAGE_SIZE, offset }),
         {
           headers: {
             apikey: supabaseKey,
-            Authorization: `Bearer ${supabaseKey}`,
+            Authorization: `Bearer ${accessToken ?? supabaseKey}`,
             "Range-Unit": "items",
             Range: `${offset}-${offset + PAGE_SIZE - 1}`,
             Prefer: "count=exact",
+            "Accept-Profile": table.schema,
           },
         }
       );
@@ -73,7 +101,7 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
     } finally {
       setIsLoading(false);
     }
-  }, [table, supabaseUrl, supabaseKey]);
+  }, [table, supabaseUrl, supabaseKey, accessToken, filters]);
 
   useEffect(() => {
     if (open && table && supabaseUrl && supabaseKey) {
@@ -84,6 +112,8 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
     } else {
       setRows([]);
       setError(null);
+      // Imported schemas have no API to read rows from
+      if (open) setTab("schema");
     }
   }, [open, table, supabaseUrl, supabaseKey, fetchData]);
 
@@ -95,23 +125,39 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
 
   if (!table) return null;
 
-  const incomingFKs = foreignKeys.filter(fk => fk.targetTable === table.name);
-  const outgoingFKs = foreignKeys.filter(fk => fk.sourceTable === table.name);
+  const incomingFKs = foreignKeys.filter(fk => fk.targetId === table.id);
+  const outgoingFKs = foreignKeys.filter(fk => fk.sourceId === table.id);
+  // Only spell out the schema for references that leave this table's schema
+  const refName = (id: string, name: string) => id === tableId(table.schema, name) ? name : id;
   const columns = table.columns;
   const totalPages = totalCount !== null ? Math.ceil(totalCount / PAGE_SIZE) : null;
   const hasData = supabaseUrl && supabaseKey;
+  const isView = table.kind === "view";
+  const security = rlsStatus(table);
+  const returnsTable = (fn: FunctionInfo) => fn.schema === table.schema && fn.returnType === table.name;
+  const relatedFunctions = functions.filter(fn =>
+    returnsTable(fn) || (fn.schema === table.schema && fn.parameters.some(p => p.dataType === table.name))
+  );
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-[90vw] max-h-[85vh] flex flex-col bg-card border-border/60">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-foreground">
-            <Table2 className="h-5 w-5 text-primary" />
+            {isView ? <Eye className="h-5 w-5 text-success" /> : <Table2 className="h-5 w-5 text-primary" />}
             {table.name}
+            {isView && (
+              <span className="text-[10px] font-medium px-1.5 py-0.5 rounded border border-dashed border-success/40 text-success">
+                view
+              </span>
+            )}
           </DialogTitle>
           <DialogDescription>
             {table.columns.length} columns · {table.schema} schema
+            {table.primaryKey.length > 1 && ` · composite key (${table.primaryKey.join(", ")})`}
+            {isView && " · read-only"}
             {totalCount !== null && ` · ${totalCount} rows`}
+            {hasData && viewAsLabel && ` · as ${viewAsLabel}`}
           </DialogDescription>
         </DialogHeader>
 
@@ -120,11 +166,22 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
             {hasData && <TabsTrigger value="data">Data</TabsTrigger>}
             <TabsTrigger value="schema">Schema</TabsTrigger>
             <TabsTrigger value="relationships">Relationships</TabsTrigger>
+            {relatedFunctions.length > 0 && <TabsTrigger value="functions">Functions</TabsTrigger>}
+            <TabsTrigger value="security">Security</TabsTrigger>
           </TabsList>
 
           {/* Data tab - actual row data */}
           {hasData && (
             <TabsContent value="data" className="flex-1 flex flex-col min-h-0 mt-2">
+              <RowFilterBar
+                key={table.id}
+                table={table}
+                baseUrl={supabaseUrl}
+                pageSize={PAGE_SIZE}
+                applied={filters}
+                onApply={f => setApplied({ tableId: table.id, filters: f })}
+              />
+
               {isLoading && (
                 <div className="flex items-center justify-center py-12 text-muted-foreground">
                   <Loader2 className="h-5 w-5 animate-spin mr-2" />
@@ -141,7 +198,7 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
 
               {!isLoading && !error && rows.length === 0 && (
                 <div className="flex items-center justify-center py-12 text-muted-foreground text-sm">
-                  No data found in this table
+                  {filters.length > 0 ? "No rows match these filters" : "No data found in this table"}
                 </div>
               )}
 
@@ -164,7 +221,7 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
                                 </span>
                               </div>
                               <span className="text-[9px] text-muted-foreground/50 font-mono font-normal">
-                                {col.dataType}
+                                {col.rawType}
                               </span>
                             </th>
                           ))}
@@ -238,6 +295,11 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
           {/* Schema tab */}
           <TabsContent value="schema" className="flex-1 min-h-0 mt-2">
             <ScrollArea className="h-full">
+              {table.description && (
+                <p className="mb-3 px-3 py-2 rounded-md bg-secondary/10 text-xs text-muted-foreground whitespace-pre-wrap">
+                  {table.description}
+                </p>
+              )}
               <div className="rounded-lg border border-border/40 overflow-hidden">
                 <table className="w-full text-sm">
                   <thead>
@@ -254,25 +316,68 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
                     {table.columns.map((col, i) => (
                       <tr key={col.name} className={`border-b border-border/20 ${i % 2 === 0 ? "bg-secondary/5" : ""}`}>
                         <td className="px-3 py-1.5 text-[10px] text-muted-foreground/50 font-mono">{i + 1}</td>
-                        <td className="px-3 py-1.5 font-medium text-foreground flex items-center gap-1.5">
-                          {col.isPrimaryKey && <Key className="h-3 w-3 text-warning shrink-0" />}
-                          {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info shrink-0" />}
-                          {col.name}
+                        <td className="px-3 py-1.5 font-medium text-foreground">
+                          <div className="flex items-center gap-1.5">
+                            {col.isPrimaryKey && <Key className="h-3 w-3 text-warning shrink-0" />}
+                            {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info shrink-0" />}
+                            {col.name}
+                          </div>
+                          {col.description && (
+                            <p className="text-[10px] font-normal text-muted-foreground whitespace-pre-wrap max-w-[260px] mt-0.5">
+                              {col.description}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5 font-mono text-xs text-muted-foreground">
+                          {col.rawType}
+                          {col.enumName && (
+                            <div className="flex flex-wrap gap-1 mt-1 max-w-[320px]">
+                              {columnEnum(enums, table, col)?.values.map(v => (
+                                <span key={v} className="text-[10px] px-1.5 py-0.5 rounded bg-accent/15 text-foreground/70">{v}</span>
+                              ))}
+                            </div>
+                          )}
+                          {col.check && (
+                            <div className="text-[10px] text-muted-foreground/70 mt-0.5 truncate max-w-[320px]" title={col.check}>
+                              CHECK {col.check}
+                            </div>
+                          )}
                         </td>
-                        <td className="px-3 py-1.5 font-mono text-xs text-muted-foreground">{col.dataType}</td>
                         <td className="px-3 py-1.5 text-center text-xs">{col.isNullable ? "✓" : "—"}</td>
                         <td className="px-3 py-1.5 text-center">
                           {col.isPrimaryKey && <span className="inline-block px-1.5 py-0.5 rounded text-[10px] font-bold bg-warning/20 text-warning">PK</span>}
                           {col.isForeignKey && !col.isPrimaryKey && <span className="inline-block px-1.5 py-0.5 rounded text-[10px] font-bold bg-info/20 text-info">FK</span>}
+                          {col.isUnique && !col.isPrimaryKey && <span className="inline-block px-1.5 py-0.5 ml-1 rounded text-[10px] font-bold bg-accent/20 text-accent">UQ</span>}
                         </td>
                         <td className="px-3 py-1.5 font-mono text-[10px] text-muted-foreground truncate max-w-[120px]">
-                          {col.defaultValue || "—"}
+                          {col.identity
+                            ? `identity (${col.identity.toLowerCase()})`
+                            : col.isGenerated ? `generated ${col.defaultValue ?? ""}` : col.defaultValue || "—"}
                         </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+
+              {table.indexes && table.indexes.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">
+                    Indexes
+                  </h4>
+                  <div className="space-y-1.5">
+                    {table.indexes.map(idx => (
+                      <div key={idx.name} className="flex items-center gap-2 px-3 py-2 rounded-md bg-secondary/10 text-xs" title={idx.definition}>
+                        <span className="font-mono text-foreground">{idx.name}</span>
+                        <span className="font-mono text-muted-foreground">({idx.columns.join(", ")})</span>
+                        <span className="ml-auto text-[10px] text-muted-foreground">
+                          {[idx.isPrimary ? "primary" : idx.isUnique ? "unique" : null, idx.method].filter(Boolean).join(" · ")}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </ScrollArea>
           </TabsContent>
 
@@ -287,9 +392,12 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
                   <div className="space-y-1.5">
                     {outgoingFKs.map(fk => (
                       <div key={fk.constraintName} className="flex items-center gap-2 px-3 py-2 rounded-md bg-secondary/10 text-xs">
-                        <span className="text-info font-medium">{fk.sourceColumn}</span>
+                        <span className="text-info font-medium">{fkColumnList(fk, "source")}</span>
                         <ExternalLink className="h-3 w-3 text-muted-foreground" />
-                        <span className="text-foreground">{fk.targetTable}.{fk.targetColumn}</span>
+                        <span className="text-foreground">{refName(fk.targetId, fk.targetTable)}.{fkColumnList(fk, "target")}</span>
+                        {fk.onDelete && fk.onDelete !== "NO ACTION" && (
+                          <span className="ml-auto text-[10px] text-muted-foreground">on delete {fk.onDelete.toLowerCase()}</span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -304,9 +412,12 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
                   <div className="space-y-1.5">
                     {incomingFKs.map(fk => (
                       <div key={fk.constraintName} className="flex items-center gap-2 px-3 py-2 rounded-md bg-secondary/10 text-xs">
-                        <span className="text-foreground">{fk.sourceTable}.{fk.sourceColumn}</span>
+                        <span className="text-foreground">{refName(fk.sourceId, fk.sourceTable)}.{fkColumnList(fk, "source")}</span>
                         <ExternalLink className="h-3 w-3 text-muted-foreground" />
-                        <span className="text-warning font-medium">{fk.targetColumn}</span>
+                        <span className="text-warning font-medium">{fkColumnList(fk, "target")}</span>
+                        {fk.onDelete && fk.onDelete !== "NO ACTION" && (
+                          <span className="ml-auto text-[10px] text-muted-foreground">on delete {fk.onDelete.toLowerCase()}</span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -315,8 +426,79 @@ export function TableDetailDialog({ table, foreignKeys, open, onOpenChange, supa
 
               {outgoingFKs.length === 0 && incomingFKs.length === 0 && (
                 <div className="text-sm text-muted-foreground text-center py-8">
-                  No relationships found for this table
+                  No relationships found for this {isView ? "view" : "table"}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          {/* Functions tab - RPCs returning or accepting this relation */}
+          {relatedFunctions.length > 0 && (
+            <TabsContent value="functions" className="flex-1 min-h-0 mt-2">
+              <ScrollArea className="h-full">
+                <div className="space-y-1.5">
+                  {relatedFunctions.map(fn => (
+                    <button
+                      key={`${fn.schema}.${fn.name}`}
+                      className="flex items-center gap-2 w-full px-3 py-2 rounded-md border border-dashed border-rpc/30 bg-rpc/5 text-xs text-left hover:border-rpc/60 transition-colors"
+                      onClick={() => onFunctionClick?.(fn)}
+                    >
+                      <Braces className="h-3 w-3 text-rpc shrink-0" />
+                      <span className="font-mono text-foreground">
+                        {fn.name}({fn.parameters.map(p => p.name).join(", ")})
+                      </span>
+                      <span className="ml-auto text-muted-foreground font-mono">
+                        {returnsTable(fn)
+                          ? `returns ${fn.returnsSet ? "setof " : ""}${table.name}`
+                          : "takes row argument"}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+          )}
+
+          {/* Security tab - Row Level Security and policies */}
+          <TabsContent value="security" className="flex-1 min-h-0 mt-2">
+            <ScrollArea className="h-full">
+              {isView ? (
+                <div className="text-sm text-muted-foreground text-center py-8">
+                  Views run with their owner's rights unless created with security_invoker, so the RLS on the
+                  tables underneath may not apply.
                 </div>
+              ) : (
+                <>
+                  <div className={`flex items-center gap-2 px-3 py-2 mb-4 rounded-md border text-xs ${RLS_STATUS[security].border} ${RLS_STATUS[security].bg}`}>
+                    <RlsStatusBadge status={security} />
+                    <span className="text-muted-foreground">{RLS_STATUS[security].description}</span>
+                    {table.rlsForced && <span className="ml-auto text-[10px] text-muted-foreground">forced for the owner too</span>}
+                  </div>
+                  <div className="space-y-2">
+                    {(table.policies ?? []).map(policy => (
+                      <div key={policy.name} className="px-3 py-2 rounded-md bg-secondary/10 text-xs space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">{policy.name}</span>
+                          <span className="font-mono text-[10px] px-1.5 py-0.5 rounded bg-primary/10 text-primary">{policy.command}</span>
+                          {!policy.permissive && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-warning/10 text-warning">restrictive</span>
+                          )}
+                          <span className="ml-auto text-[10px] text-muted-foreground">to {policy.roles.join(", ")}</span>
+                        </div>
+                        {policy.using && (
+                          <div className="font-mono text-[11px] text-muted-foreground">
+                            <span className="text-info">using</span> ({policy.using})
+                          </div>
+                        )}
+                        {policy.withCheck && (
+                          <div className="font-mono text-[11px] text-muted-foreground">
+                            <span className="text-info">with check</span> ({policy.withCheck})
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
               )}
             </ScrollArea>
           </TabsContent>
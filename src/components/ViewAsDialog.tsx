@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Loader2, UserRound, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { identityFromJwt, signInAs, type ViewAsIdentity } from "@/lib/view-as";
+import type { CountMode } from "@/lib/table-stats";
+import type { ProjectConnection, TableInfo } from "@/lib/schema-types";
+
+interface ViewAsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connection: ProjectConnection;
+  /** Role of the connection's own key, for labelling its column */
+  keyRole: string;
+  identity: ViewAsIdentity | null;
+  onIdentityChange: (identity: ViewAsIdentity | null) => void;
+  tables: TableInfo[];
+  /** How the toolbar counts rows; both columns are counted this way */
+  countMode: CountMode | "off";
+  /** Counts as the connection's key and as `identity`, keyed by table id */
+  keyCounts: Record<string, number>;
+  userCounts: Record<string, number>;
+  countsLoading: boolean;
+  onTableClick: (table: TableInfo) => void;
+}
+
+export function ViewAsDialog({
+  open,
+  onOpenChange,
+  connection,
+  keyRole,
+  identity,
+  onIdentityChange,
+  tables,
+  countMode,
+  keyCounts,
+  userCounts,
+  countsLoading,
+  onTableClick,
+}: ViewAsDialogProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [token, setToken] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choose = async (load: () => ViewAsIdentity | Promise<ViewAsIdentity>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onIdentityChange(await load());
+      setPassword("");
+      setToken("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't use that identity");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counted = tables.filter(t => t.kind === "table");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col bg-card border-border/60">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-foreground">
+            <UserRound className="h-5 w-5 text-primary" />
+            View as user
+          </DialogTitle>
+          <DialogDescription>
+            Browse {connection.name} with a user's access token so Row Level Security applies as it would for them.
+            The token stays in memory and is dropped on lock.
+          </DialogDescription>
+        </DialogHeader>
+
+        {identity ? (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-md border border-primary/30 bg-primary/5 text-xs">
+            <span className="text-muted-foreground">Viewing as</span>
+            <span className="font-medium text-foreground">{identity.label}</span>
+            {identity.role && <span className="font-mono text-[10px] text-muted-foreground">{identity.role}</span>}
+            {identity.expiresAt && (
+              <span className="text-[10px] text-muted-foreground">until {new Date(identity.expiresAt).toLocaleTimeString()}</span>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => onIdentityChange(null)} className="ml-auto h-6 text-xs">
+              <X className="h-3 w-3" />
+              Back to {keyRole}
+            </Button>
+          </div>
+        ) : (
+          <Tabs defaultValue="sign-in">
+            <TabsList>
+              <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+              <TabsTrigger value="jwt">Paste JWT</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sign-in">
+              <form
+                className="space-y-3"
+                onSubmit={e => { e.preventDefault(); choose(() => signInAs(connection.url, connection.anonKey, email, password)); }}
+              >
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="view-as-email">Email</Label>
+                    <Input id="view-as-email" type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="off" />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="view-as-password">Password</Label>
+                    <Input id="view-as-password" type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="off" />
+                  </div>
+                </div>
+                <Button type="submit" size="sm" disabled={busy || !email || !password}>
+                  {busy && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Sign in through Supabase Auth
+                </Button>
+              </form>
+            </TabsContent>
+            <TabsContent value="jwt">
+              <form className="space-y-3" onSubmit={e => { e.preventDefault(); choose(() => identityFromJwt(token)); }}>
+                <div className="space-y-1.5">
+                  <Label htmlFor="view-as-token">Access token</Label>
+                  <Input id="view-as-token" value={token} onChange={e => setToken(e.target.value)} placeholder="eyJhbGciOi..." className="font-mono text-xs" />
+                </div>
+                <Button type="submit" size="sm" disabled={!token.trim()}>Use token</Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {identity && (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="rounded-lg border border-border/40 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/40 bg-secondary/20">
+                    <th className="text-left px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">Table</th>
+                    <th className="text-right px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">{keyRole}</th>
+                    <th className="text-right px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase">{identity.label}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {counted.map((t, i) => {
+                    const asKey = keyCounts[t.id];
+                    const asUser = userCounts[t.id];
+                    const differs = asKey !== undefined && asUser !== undefined && asKey !== asUser;
+                    return (
+                      <tr
+                        key={t.id}
+                        onClick={() => onTableClick(t)}
+                        className={`border-b border-border/20 cursor-pointer hover:bg-secondary/20 ${i % 2 === 0 ? "bg-secondary/5" : ""}`}
+                      >
+                        <td className="px-3 py-1.5 text-xs text-foreground">{t.name}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-xs text-muted-foreground">{asKey === undefined ? "—" : asKey.toLocaleString()}</td>
+                        <td className={`px-3 py-1.5 text-right font-mono text-xs ${differs ? "text-primary font-semibold" : "text-muted-foreground"}`}>
+                          {asUser === undefined ? "—" : asUser.toLocaleString()}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {countMode === "off" ? (
+              <p className="mt-2 text-xs text-muted-foreground">Row counts are off; turn them on in the toolbar to compare.</p>
+            ) : countMode !== "exact" && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Counts are {countMode}. Large tables may show planner estimates, which ignore RLS; count exactly for a precise comparison.
+              </p>
+            )}
+            {countsLoading && (
+              <p className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" /> Counting rows...
+              </p>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
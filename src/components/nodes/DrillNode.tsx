@@ -1,10 +1,14 @@
 import { memo, type FC } from "react";
 import { Handle, Position, type NodeProps } from "@xyflow/react";
 import { Key, Link2, ArrowUpRight, Eye, Columns3 } from "lucide-react";
-import type { ColumnInfo } from "@/lib/schema-types";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import type { ColumnInfo, TableKind } from "@/lib/schema-types";
 
 interface DrillNodeData {
   label: string;
+  kind?: TableKind;
+  schema?: string;
+  schemas?: string[];
   columns: ColumnInfo[];
   columnCount: number;
   highlighted?: boolean;
@@ -12,7 +16,8 @@ interface DrillNodeData {
 }
 
 const DrillNode: FC<NodeProps> = memo(({ data }) => {
-  const { label, columns, highlighted, isCenter } = data as unknown as DrillNodeData;
+  const { label, kind, schema, schemas = [], columns, highlighted, isCenter } = data as unknown as DrillNodeData;
+  const isView = kind === "view";
   const cols = columns as ColumnInfo[];
   const pks = cols.filter(c => c.isPrimaryKey);
   const fks = cols.filter(c => c.isForeignKey);
@@ -21,18 +26,25 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
   // Radial layout: center node is large, others are compact
   if (isCenter) {
     return (
-      <div className="rounded-xl border-2 border-primary bg-card shadow-xl shadow-primary/20 min-w-[280px] max-w-[320px]">
+      <div className={`rounded-xl border-2 bg-card shadow-xl min-w-[280px] max-w-[320px] ${
+        isView ? "border-dashed border-success shadow-success/20" : "border-primary shadow-primary/20"
+      }`}>
         <Handle type="target" position={Position.Top} className="!bg-primary !w-3 !h-3 !border-2 !border-background" />
         <Handle type="target" position={Position.Left} className="!bg-primary !w-3 !h-3 !border-2 !border-background" />
 
         <div className="px-4 py-3 bg-primary/10 rounded-t-xl border-b border-primary/20">
           <div className="flex items-center gap-3">
-            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground text-sm font-bold">
-              {(label as string).charAt(0).toUpperCase()}
+            <div className={`flex h-10 w-10 items-center justify-center rounded-xl text-sm font-bold ${
+              isView ? "bg-success text-success-foreground" : "bg-primary text-primary-foreground"
+            }`}>
+              {isView ? <Eye className="h-4 w-4" /> : (label as string).charAt(0).toUpperCase()}
             </div>
             <div>
-              <h3 className="font-bold text-sm text-foreground">{label as string}</h3>
-              <p className="text-[10px] text-muted-foreground">{cols.length} columns · Focus table</p>
+              <h3 className="font-bold text-sm text-foreground flex items-center gap-2">
+                {label as string}
+                {schema && <SchemaBadge schema={schema} schemas={schemas} />}
+              </h3>
+              <p className="text-[10px] text-muted-foreground">{cols.length} columns · Focus {isView ? "view" : "table"}</p>
             </div>
           </div>
         </div>
@@ -44,7 +56,7 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
                 <div key={col.name} className="flex items-center gap-2 text-[11px] py-0.5">
                   <Key className="h-3 w-3 text-warning shrink-0" />
                   <span className="font-semibold text-warning">{col.name}</span>
-                  <span className="ml-auto font-mono text-[9px] text-muted-foreground">{col.dataType}</span>
+                  <span className="ml-auto font-mono text-[9px] text-muted-foreground">{col.rawType}</span>
                 </div>
               ))}
             </div>
@@ -56,9 +68,11 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
                   <Link2 className="h-3 w-3 text-info shrink-0" />
                   <span className="text-info">{col.name}</span>
                   {col.references && (
-                    <span className="text-[9px] text-info/50">→ {col.references.table}</span>
+                    <span className="text-[9px] text-info/50">
+                      → {col.references.schema !== schema ? `${col.references.schema}.` : ""}{col.references.table}
+                    </span>
                   )}
-                  <span className="ml-auto font-mono text-[9px] text-muted-foreground">{col.dataType}</span>
+                  <span className="ml-auto font-mono text-[9px] text-muted-foreground">{col.rawType}</span>
                 </div>
               ))}
             </div>
@@ -69,7 +83,7 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
                 <div key={col.name} className="flex items-center gap-2 text-[10px] py-0.5">
                   <span className="w-3 text-center text-muted-foreground/30">·</span>
                   <span className="text-foreground/60">{col.name}</span>
-                  <span className="ml-auto font-mono text-[9px] text-muted-foreground/40">{col.dataType}</span>
+                  <span className="ml-auto font-mono text-[9px] text-muted-foreground/40">{col.rawType}</span>
                 </div>
               ))}
               {regular.length > 6 && (
@@ -88,9 +102,11 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
   // Satellite nodes — compact card design
   return (
     <div
-      className={`rounded-xl border min-w-[180px] max-w-[220px] transition-all duration-200 ${
+      className={`rounded-xl border min-w-[180px] max-w-[220px] transition-all duration-200 ${isView ? "border-dashed" : ""} ${
         highlighted
           ? "border-info/60 bg-info/5 shadow-lg shadow-info/10"
+          : isView
+          ? "border-success/40 bg-card shadow-sm hover:border-success/60"
           : "border-border/40 bg-card shadow-sm hover:border-border/60"
       }`}
     >
@@ -103,12 +119,13 @@ const DrillNode: FC<NodeProps> = memo(({ data }) => {
         <div className={`flex h-6 w-6 items-center justify-center rounded-md text-[10px] font-bold ${
           highlighted ? "bg-info/20 text-info" : "bg-secondary/50 text-muted-foreground"
         }`}>
-          {(label as string).charAt(0).toUpperCase()}
+          {isView ? <Eye className="h-3 w-3 text-success" /> : (label as string).charAt(0).toUpperCase()}
         </div>
         <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-[11px] text-foreground truncate">{label as string}</h3>
-          <p className="text-[9px] text-muted-foreground">{cols.length} cols</p>
+          <p className="text-[9px] text-muted-foreground">{cols.length} cols{isView && " · view"}</p>
         </div>
+        {schema && <SchemaBadge schema={schema} schemas={schemas} />}
       </div>
 
       <div className="px-3 py-2 space-y-1">
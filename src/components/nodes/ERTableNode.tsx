@@ -1,50 +1,115 @@
 import { memo, type FC } from "react";
 import { Handle, Position, type NodeProps } from "@xyflow/react";
-import { Key, Link2, Hash } from "lucide-react";
-import type { ColumnInfo } from "@/lib/schema-types";
+import { Key, Link2, Hash, Eye, MessageSquareText } from "lucide-react";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import { CommentTooltip } from "@/components/CommentTooltip";
+import { formatCount } from "@/lib/table-stats";
+import type { ColumnInfo, TableKind } from "@/lib/schema-types";
+import type { ChangeKind } from "@/lib/schema-diff";
 
 interface ERNodeData {
   label: string;
+  description?: string;
+  kind?: TableKind;
+  schema?: string;
+  schemas?: string[];
   columns: ColumnInfo[];
+  primaryKey?: string[];
+  rowCount?: number;
   columnCount: number;
+  enumValues?: Record<string, string[]>;
   highlighted?: boolean;
+  /** Set when drawn as part of a schema diff */
+  diffStatus?: ChangeKind;
+  columnDiff?: Record<string, ChangeKind>;
 }
 
+const DIFF_BORDER: Record<ChangeKind, string> = {
+  added: "border-success",
+  removed: "border-destructive border-dashed opacity-80",
+  changed: "border-warning",
+};
+
+const DIFF_ROW: Record<ChangeKind, string> = {
+  added: "bg-success/10",
+  removed: "bg-destructive/10 line-through decoration-destructive/60",
+  changed: "bg-warning/10",
+};
+
 const ERTableNode: FC<NodeProps> = memo(({ data }) => {
-  const { label, columns, highlighted } = data as unknown as ERNodeData;
+  const { label, description, kind, schema, schemas = [], columns, primaryKey = [], rowCount, enumValues, highlighted, diffStatus, columnDiff } = data as unknown as ERNodeData;
   const cols = columns as ColumnInfo[];
+  const isView = kind === "view";
 
   return (
     <div
       className={`rounded-lg border bg-card shadow-xl min-w-[260px] max-w-[300px] transition-all duration-200 ${
-        highlighted ? "border-primary glow" : "border-border/50"
-      }`}
+        isView ? "border-dashed" : ""
+      } ${diffStatus ? DIFF_BORDER[diffStatus] : highlighted ? (isView ? "border-success" : "border-primary glow") : isView ? "border-success/40" : "border-border/50"}`}
     >
       <Handle type="target" position={Position.Top} className="!bg-primary !w-3 !h-3 !border-2 !border-background" />
 
       {/* Header */}
-      <div className="px-4 py-2.5 border-b border-border/30 bg-primary/8 rounded-t-lg flex items-center gap-2">
-        <Hash className="h-3.5 w-3.5 text-primary/60" />
-        <h3 className="font-bold text-sm text-foreground tracking-wide">{label as string}</h3>
-        <span className="ml-auto text-[9px] text-muted-foreground/60 bg-secondary/50 px-1.5 py-0.5 rounded">{cols.length}</span>
+      <div className={`px-4 py-2.5 border-b border-border/30 rounded-t-lg flex items-center gap-2 ${isView ? "bg-success/8" : "bg-primary/8"}`}>
+        {isView ? <Eye className="h-3.5 w-3.5 text-success/70" /> : <Hash className="h-3.5 w-3.5 text-primary/60" />}
+        <CommentTooltip text={description}>
+          <h3 className={`font-bold text-sm text-foreground tracking-wide ${description ? "cursor-help" : ""}`}>{label as string}</h3>
+        </CommentTooltip>
+        {isView && <span className="text-[9px] text-success/80 italic">view</span>}
+        {diffStatus && (
+          <span className={`text-[9px] font-semibold uppercase ${diffStatus === "added" ? "text-success" : diffStatus === "removed" ? "text-destructive" : "text-warning"}`}>
+            {diffStatus}
+          </span>
+        )}
+        {schema && <SchemaBadge schema={schema} schemas={schemas} />}
+        {primaryKey.length > 1 && (
+          <span className="flex items-center gap-0.5 text-[9px] text-warning/80" title={`Composite key (${primaryKey.join(", ")})`}>
+            <Key className="h-2.5 w-2.5" />×{primaryKey.length}
+          </span>
+        )}
+        {rowCount !== undefined && (
+          <span className="ml-auto text-[9px] font-mono text-muted-foreground/60" title={`${rowCount.toLocaleString()} rows`}>
+            {formatCount(rowCount)} rows
+          </span>
+        )}
+        <span className={`${rowCount === undefined ? "ml-auto " : ""}text-[9px] text-muted-foreground/60 bg-secondary/50 px-1.5 py-0.5 rounded`}>{cols.length}</span>
       </div>
 
       {/* Columns */}
       <div className="divide-y divide-border/10 max-h-[300px] overflow-y-auto">
-        {cols.map((col) => (
-          <div key={col.name} className="flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-secondary/20 transition-colors group">
-            <span className="w-4 flex justify-center shrink-0">
-              {col.isPrimaryKey ? <Key className="h-3 w-3 text-warning" /> :
-               col.isForeignKey ? <Link2 className="h-3 w-3 text-info" /> :
-               <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/20" />}
-            </span>
-            <span className={`font-medium truncate ${col.isPrimaryKey ? "text-warning" : col.isForeignKey ? "text-info" : "text-foreground/90"}`}>
-              {col.name}
-            </span>
-            <span className="ml-auto text-muted-foreground/50 font-mono text-[10px] shrink-0">{col.dataType}</span>
-            {!col.isNullable && <span className="text-destructive/40 text-[8px] shrink-0">NOT NULL</span>}
-          </div>
-        ))}
+        {cols.map((col) => {
+          const values = col.enumName ? enumValues?.[col.enumName] : undefined;
+          return (
+            <div
+              key={col.name}
+              className={`px-3 py-1.5 text-xs hover:bg-secondary/20 transition-colors group ${columnDiff?.[col.name] ? DIFF_ROW[columnDiff[col.name]] : ""}`}
+            >
+              <CommentTooltip text={col.description}>
+                <div className="flex items-center gap-2">
+                  <span className="w-4 flex justify-center shrink-0">
+                    {col.isPrimaryKey ? <Key className="h-3 w-3 text-warning" /> :
+                     col.isForeignKey ? <Link2 className="h-3 w-3 text-info" /> :
+                     <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/20" />}
+                  </span>
+                  <span className={`font-medium truncate ${col.isPrimaryKey ? "text-warning" : col.isForeignKey ? "text-info" : "text-foreground/90"}`}>
+                    {col.name}
+                  </span>
+                  {col.description && <MessageSquareText className="h-2.5 w-2.5 text-muted-foreground/40 shrink-0" />}
+                  <span className="ml-auto text-muted-foreground/50 font-mono text-[10px] shrink-0">{col.rawType}</span>
+                  {!col.isNullable && <span className="text-destructive/40 text-[8px] shrink-0">NOT NULL</span>}
+                </div>
+              </CommentTooltip>
+              {values && (
+                <div className="flex flex-wrap gap-1 pl-6 pt-1">
+                  {values.slice(0, 6).map(v => (
+                    <span key={v} className="text-[9px] font-mono px-1 rounded bg-accent/15 text-accent-foreground/70">{v}</span>
+                  ))}
+                  {values.length > 6 && <span className="text-[9px] text-muted-foreground/50">+{values.length - 6}</span>}
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
 
       <Handle type="source" position={Position.Bottom} className="!bg-primary !w-3 !h-3 !border-2 !border-background" />
@@ -0,0 +1,58 @@
+import { memo, type FC } from "react";
+import { Handle, Position, type NodeProps } from "@xyflow/react";
+import { Braces, CornerDownRight } from "lucide-react";
+import type { FunctionInfo } from "@/lib/schema-types";
+
+interface FunctionNodeData {
+  label: string;
+  fn: FunctionInfo;
+  columnCount: number;
+  highlighted?: boolean;
+}
+
+const FunctionNode: FC<NodeProps> = memo(({ data }) => {
+  const { label, fn, highlighted } = data as unknown as FunctionNodeData;
+
+  return (
+    <div
+      className={`rounded-2xl border border-dashed bg-card shadow-lg min-w-[220px] max-w-[280px] transition-all duration-200 ${
+        highlighted ? "border-rpc shadow-rpc/20" : "border-rpc/40"
+      }`}
+    >
+      <Handle type="target" position={Position.Top} className="!bg-rpc !w-2.5 !h-2.5 !border-2 !border-background" />
+
+      <div className="px-4 py-2 border-b border-rpc/20 bg-rpc/10 rounded-t-2xl flex items-center gap-2">
+        <Braces className="h-3.5 w-3.5 text-rpc" />
+        <h3 className="font-semibold text-sm text-foreground font-mono truncate">{label}()</h3>
+        <span className="ml-auto text-[9px] text-rpc/80 bg-rpc/10 px-1.5 py-0.5 rounded">rpc</span>
+      </div>
+
+      <div className="px-3 py-2 space-y-0.5 font-mono text-[10px]">
+        {fn.parameters.length === 0 && (
+          <p className="text-muted-foreground/50 italic">no arguments</p>
+        )}
+        {fn.parameters.map(p => (
+          <div key={p.name} className="flex items-center gap-2">
+            <span className={p.isRequired ? "text-foreground/90" : "text-foreground/50"}>
+              {p.name}{!p.isRequired && "?"}
+            </span>
+            <span className="ml-auto text-muted-foreground/50">{p.dataType}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-3 py-1.5 border-t border-rpc/10 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+        <CornerDownRight className="h-3 w-3 text-rpc/60" />
+        <span className="font-mono">
+          {fn.returnType ? `${fn.returnsSet ? "setof " : ""}${fn.returnType}` : "unknown"}
+        </span>
+      </div>
+
+      <Handle type="source" position={Position.Bottom} className="!bg-rpc !w-2.5 !h-2.5 !border-2 !border-background" />
+    </div>
+  );
+});
+
+FunctionNode.displayName = "FunctionNode";
+
+export default FunctionNode;
@@ -48,7 +48,7 @@ const SpreadsheetNode: FC<NodeProps> = memo(({ data }) => {
               {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info" />}
               {col.name}
             </span>
-            <span className="font-mono text-[10px] text-muted-foreground">{col.dataType}</span>
+            <span className="font-mono text-[10px] text-muted-foreground">{col.rawType}</span>
             <span className="text-center text-muted-foreground">{col.isNullable ? "✓" : "—"}</span>
             <span className="text-center">
               {col.isPrimaryKey && <span className="text-warning text-[10px] font-bold">PK</span>}
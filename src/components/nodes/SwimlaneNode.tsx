@@ -35,7 +35,7 @@ const SwimlaneNode: FC<NodeProps> = memo(({ data }) => {
             {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-2.5 w-2.5 text-info" />}
             {!col.isPrimaryKey && !col.isForeignKey && <span className="w-2.5" />}
             <span className="text-foreground/80">{col.name}</span>
-            <span className="ml-auto font-mono text-muted-foreground/60">{col.dataType}</span>
+            <span className="ml-auto font-mono text-muted-foreground/60">{col.rawType}</span>
           </div>
         ))}
         {(columns as ColumnInfo[]).length > 6 && (
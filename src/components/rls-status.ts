@@ -0,0 +1,38 @@
+import { ShieldAlert, ShieldCheck, ShieldOff, ShieldQuestion } from "lucide-react";
+import type { RlsStatus } from "@/lib/schema-types";
+
+/** Label, explanation and theme classes for each RLS status */
+export const RLS_STATUS: Record<RlsStatus, { label: string; description: string; text: string; bg: string; border: string; icon: typeof ShieldCheck }> = {
+  disabled: {
+    label: "RLS off",
+    description: "Every row is readable and writable by any role with table grants, including anon",
+    text: "text-destructive",
+    bg: "bg-destructive/10",
+    border: "border-destructive/50",
+    icon: ShieldOff,
+  },
+  "no-policies": {
+    label: "No policies",
+    description: "RLS is on but no permissive policy allows anything: API requests see no rows unless they bypass RLS",
+    text: "text-warning",
+    bg: "bg-warning/10",
+    border: "border-warning/50",
+    icon: ShieldAlert,
+  },
+  policies: {
+    label: "Policies",
+    description: "RLS is on and policies decide which rows each role sees",
+    text: "text-success",
+    bg: "bg-success/10",
+    border: "border-success/50",
+    icon: ShieldCheck,
+  },
+  unknown: {
+    label: "Unknown",
+    description: "This introspection source doesn't expose RLS; use postgres-meta or a SQL dump",
+    text: "text-muted-foreground",
+    bg: "bg-secondary/20",
+    border: "border-border/50",
+    icon: ShieldQuestion,
+  },
+};
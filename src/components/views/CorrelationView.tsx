@@ -1,15 +1,19 @@
 import { useState, useMemo } from "react";
-import { ArrowRight, Table2, Zap, BarChart3 } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { ArrowRight, Table2, Zap, BarChart3, Eye } from "lucide-react";
+import { formatFkColumns, type SchemaData, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import { schemaColor } from "@/lib/schema-colors";
 
 interface CorrelationViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
-export function CorrelationView({ schema, searchQuery, onTableClick }: CorrelationViewProps) {
+export function CorrelationView({ schema, searchQuery, onTableClick, onFunctionClick }: CorrelationViewProps) {
   const [hoveredCell, setHoveredCell] = useState<{ row: string; col: string } | null>(null);
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
 
@@ -21,15 +25,15 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
   const { matrix, maxVal, connectionDetails } = useMemo(() => {
     const matrix: Record<string, Record<string, number>> = {};
     const connectionDetails: Record<string, { from: string; to: string; via: string }[]> = {};
-    tables.forEach(t => { matrix[t.name] = {}; tables.forEach(t2 => { matrix[t.name][t2.name] = 0; }); });
+    tables.forEach(t => { matrix[t.id] = {}; tables.forEach(t2 => { matrix[t.id][t2.id] = 0; }); });
 
     schema.foreignKeys.forEach(fk => {
-      if (matrix[fk.sourceTable] && matrix[fk.sourceTable][fk.targetTable] !== undefined) {
-        matrix[fk.sourceTable][fk.targetTable]++;
-        matrix[fk.targetTable][fk.sourceTable]++;
-        const key = `${fk.sourceTable}:${fk.targetTable}`;
-        const keyR = `${fk.targetTable}:${fk.sourceTable}`;
-        const detail = { from: fk.sourceTable, to: fk.targetTable, via: `${fk.sourceColumn} → ${fk.targetColumn}` };
+      if (matrix[fk.sourceId] && matrix[fk.sourceId][fk.targetId] !== undefined) {
+        matrix[fk.sourceId][fk.targetId]++;
+        matrix[fk.targetId][fk.sourceId]++;
+        const key = `${fk.sourceId}:${fk.targetId}`;
+        const keyR = `${fk.targetId}:${fk.sourceId}`;
+        const detail = { from: fk.sourceTable, to: fk.targetTable, via: formatFkColumns(fk) };
         connectionDetails[key] = [...(connectionDetails[key] || []), detail];
         connectionDetails[keyR] = [...(connectionDetails[keyR] || []), detail];
       }
@@ -42,8 +46,8 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
   // Stats for sidebar
   const tableStats = useMemo(() => {
     return tables.map(t => {
-      const connections = Object.values(matrix[t.name] || {}).reduce((a, b) => a + b, 0);
-      const connectedTo = Object.values(matrix[t.name] || {}).filter(v => v > 0).length;
+      const connections = Object.values(matrix[t.id] || {}).reduce((a, b) => a + b, 0);
+      const connectedTo = Object.values(matrix[t.id] || {}).filter(v => v > 0).length;
       return { table: t, connections, connectedTo };
     }).sort((a, b) => b.connections - a.connections);
   }, [tables, matrix]);
@@ -73,10 +77,11 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
   };
 
   // Details panel for selected pair
-  const selectedDetails = selectedTable ? tableStats.find(s => s.table.name === selectedTable) : null;
+  const selectedDetails = selectedTable ? tableStats.find(s => s.table.id === selectedTable) : null;
   const selectedConnections = selectedTable
-    ? tables.filter(t => t.name !== selectedTable && (matrix[selectedTable]?.[t.name] || 0) > 0)
+    ? tables.filter(t => t.id !== selectedTable && (matrix[selectedTable]?.[t.id] || 0) > 0)
     : [];
+  const multiSchema = schema.schemas.length > 1;
 
   return (
     <div className="h-full flex">
@@ -96,12 +101,13 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
             <div className="flex">
               <div className="w-[130px] shrink-0" />
               {tables.map(t => (
-                <div key={t.name} className="w-9 shrink-0 flex items-end justify-center pb-1">
+                <div key={t.id} className="w-9 shrink-0 flex items-end justify-center pb-1">
                   <button
                     className={`text-[8px] transform -rotate-45 origin-bottom-left whitespace-nowrap transition-colors ${
-                      selectedTable === t.name ? "text-primary font-bold" : "text-muted-foreground hover:text-foreground"
+                      selectedTable === t.id ? "text-primary font-bold" : t.kind === "view" ? "text-success/80 italic hover:text-success" : "text-muted-foreground hover:text-foreground"
                     }`}
-                    onClick={() => setSelectedTable(selectedTable === t.name ? null : t.name)}
+                    style={multiSchema && selectedTable !== t.id ? { color: schemaColor(t.schema, schema.schemas) } : undefined}
+                    onClick={() => setSelectedTable(selectedTable === t.id ? null : t.id)}
                   >
                     {t.name}
                   </button>
@@ -111,22 +117,24 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
 
             {/* Matrix rows */}
             {tables.map(row => (
-              <div key={row.name} className="flex items-center">
+              <div key={row.id} className="flex items-center">
                 <button
                   className={`w-[130px] shrink-0 text-right pr-3 text-[10px] truncate transition-colors ${
-                    selectedTable === row.name ? "text-primary font-bold" : "text-muted-foreground hover:text-foreground"
+                    selectedTable === row.id ? "text-primary font-bold" : row.kind === "view" ? "text-success/80 italic hover:text-success" : "text-muted-foreground hover:text-foreground"
                   }`}
-                  onClick={() => setSelectedTable(selectedTable === row.name ? null : row.name)}
+                  style={multiSchema && selectedTable !== row.id ? { color: schemaColor(row.schema, schema.schemas) } : undefined}
+                  title={row.id}
+                  onClick={() => setSelectedTable(selectedTable === row.id ? null : row.id)}
                 >
                   {row.name}
                 </button>
                 {tables.map(col => {
-                  const val = matrix[row.name]?.[col.name] ?? 0;
-                  const isSelf = row.name === col.name;
-                  const highlighted = isHighlighted(row.name, col.name);
-                  const isSelected = selectedTable === row.name || selectedTable === col.name;
+                  const val = matrix[row.id]?.[col.id] ?? 0;
+                  const isSelf = row.id === col.id;
+                  const highlighted = isHighlighted(row.id, col.id);
+                  const isSelected = selectedTable === row.id || selectedTable === col.id;
                   return (
-                    <Tooltip key={col.name}>
+                    <Tooltip key={col.id}>
                       <TooltipTrigger asChild>
                         <button
                           className={`w-9 h-9 shrink-0 border border-background/30 flex items-center justify-center transition-all duration-150 rounded-[2px] ${
@@ -134,12 +142,11 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
                               ? "bg-foreground/5"
                               : getColor(val, highlighted, isSelected)
                           } ${val > 0 && !isSelf ? "cursor-pointer hover:scale-110 hover:z-10 hover:shadow-lg" : ""}`}
-                          onMouseEnter={() => setHoveredCell({ row: row.name, col: col.name })}
+                          onMouseEnter={() => setHoveredCell({ row: row.id, col: col.id })}
                           onMouseLeave={() => setHoveredCell(null)}
                           onClick={() => {
                             if (!isSelf && val > 0) {
-                              const t = schema.tables.find(t => t.name === col.name);
-                              if (t) onTableClick(t);
+                              onTableClick(col);
                             }
                           }}
                         >
@@ -154,9 +161,9 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
                         </button>
                       </TooltipTrigger>
                       <TooltipContent className="text-xs max-w-[250px]">
-                        <p className="font-semibold">{row.name} ↔ {col.name}</p>
+                        <p className="font-semibold">{multiSchema ? `${row.id} ↔ ${col.id}` : `${row.name} ↔ ${col.name}`}</p>
                         <p className="text-muted-foreground">{val} relationship{val !== 1 ? "s" : ""}</p>
-                        {connectionDetails[`${row.name}:${col.name}`]?.map((d, i) => (
+                        {connectionDetails[`${row.id}:${col.id}`]?.map((d, i) => (
                           <p key={i} className="text-primary/80 font-mono text-[10px] mt-0.5">{d.via}</p>
                         ))}
                       </TooltipContent>
@@ -173,8 +180,19 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
               <div className="flex items-center gap-1"><div className="w-5 h-5 bg-primary/15 border border-border/30 rounded-sm" /> Low</div>
               <div className="flex items-center gap-1"><div className="w-5 h-5 bg-primary/30 border border-border/30 rounded-sm" /> Med</div>
               <div className="flex items-center gap-1"><div className="w-5 h-5 bg-primary/60 border border-border/30 rounded-sm" /> High</div>
+              <span className="ml-2 text-success/80 italic">italic = view</span>
+              {multiSchema && schema.schemas.map(s => (
+                <span key={s} className="flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: schemaColor(s, schema.schemas) }} />
+                  {s}
+                </span>
+              ))}
             </div>
           </div>
+
+          <div className="mt-8 max-w-[900px]">
+            <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
+          </div>
         </div>
       </div>
 
@@ -182,7 +200,7 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
       <div className="w-64 border-l border-border/30 bg-card/30 flex flex-col min-h-0 shrink-0">
         <div className="p-4 border-b border-border/30 shrink-0">
           <h3 className="text-xs font-semibold text-foreground">
-            {selectedTable ? `"${selectedTable}" Connections` : "Connection Ranking"}
+            {selectedDetails ? `"${selectedDetails.table.name}" Connections` : "Connection Ranking"}
           </h3>
         </div>
         <div className="flex-1 overflow-auto min-h-0">
@@ -190,7 +208,10 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
             <div className="p-3 space-y-2">
               {selectedDetails && (
                 <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 mb-3">
-                  <p className="text-xs font-semibold text-foreground">{selectedTable}</p>
+                  <p className="text-xs font-semibold text-foreground flex items-center gap-2">
+                    {selectedDetails.table.name}
+                    <SchemaBadge schema={selectedDetails.table.schema} schemas={schema.schemas} />
+                  </p>
                   <p className="text-[10px] text-muted-foreground mt-1">
                     {selectedDetails.connections} total connections · {selectedDetails.connectedTo} related tables
                   </p>
@@ -200,19 +221,20 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
                 <p className="text-[10px] text-muted-foreground p-2">No connections found</p>
               )}
               {selectedConnections.map(t => {
-                const val = matrix[selectedTable!]?.[t.name] || 0;
+                const val = matrix[selectedTable!]?.[t.id] || 0;
                 return (
                   <button
-                    key={t.name}
+                    key={t.id}
                     className="w-full text-left p-2.5 rounded-lg border border-border/30 hover:border-primary/40 hover:bg-primary/5 transition-all"
                     onClick={() => onTableClick(t)}
                   >
                     <div className="flex items-center gap-2">
-                      <Table2 className="h-3.5 w-3.5 text-primary shrink-0" />
+                      {t.kind === "view" ? <Eye className="h-3.5 w-3.5 text-success shrink-0" /> : <Table2 className="h-3.5 w-3.5 text-primary shrink-0" />}
                       <span className="text-xs font-medium text-foreground truncate">{t.name}</span>
+                      <SchemaBadge schema={t.schema} schemas={schema.schemas} />
                       <span className="ml-auto text-[10px] text-primary font-bold">{val}</span>
                     </div>
-                    {connectionDetails[`${selectedTable}:${t.name}`]?.map((d, i) => (
+                    {connectionDetails[`${selectedTable}:${t.id}`]?.map((d, i) => (
                       <p key={i} className="text-[9px] text-muted-foreground font-mono mt-1 pl-5">{d.via}</p>
                     ))}
                   </button>
@@ -229,13 +251,16 @@ export function CorrelationView({ schema, searchQuery, onTableClick }: Correlati
             <div className="p-3 space-y-1">
               {tableStats.map(({ table, connections, connectedTo }, i) => (
                 <button
-                  key={table.name}
+                  key={table.id}
                   className="w-full text-left flex items-center gap-2 px-2.5 py-2 rounded-md hover:bg-secondary/30 transition-colors"
-                  onClick={() => setSelectedTable(table.name)}
+                  onClick={() => setSelectedTable(table.id)}
                 >
                   <span className="text-[10px] text-muted-foreground/50 w-5 text-right font-mono">{i + 1}</span>
                   <div className="flex-1 min-w-0">
-                    <p className="text-xs text-foreground truncate">{table.name}</p>
+                    <p className="text-xs text-foreground truncate flex items-center gap-1.5">
+                      {table.name}
+                      <SchemaBadge schema={table.schema} schemas={schema.schemas} />
+                    </p>
                     <div className="flex gap-2 mt-0.5">
                       <span className="text-[9px] text-muted-foreground">{connections} links</span>
                       <span className="text-[9px] text-muted-foreground">· {connectedTo} tables</span>
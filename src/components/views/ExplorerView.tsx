@@ -1,16 +1,20 @@
 import { useState } from "react";
-import { ChevronRight, ChevronDown, Key, Link2, Search, Table2, Database, Hash } from "lucide-react";
-import type { SchemaData, TableInfo, ColumnInfo } from "@/lib/schema-types";
+import { ChevronRight, ChevronDown, Key, Link2, Search, Table2, Database, Hash, Eye } from "lucide-react";
+import { tableId, fkColumnList, type SchemaData, type TableInfo, type ColumnInfo, type FunctionInfo } from "@/lib/schema-types";
+import { schemaColor } from "@/lib/schema-colors";
 import { Input } from "@/components/ui/input";
+import { FunctionList } from "@/components/FunctionList";
 
 interface ExplorerViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
-export function ExplorerView({ schema, searchQuery, onTableClick }: ExplorerViewProps) {
+export function ExplorerView({ schema, searchQuery, onTableClick, onFunctionClick }: ExplorerViewProps) {
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [collapsedSchemas, setCollapsedSchemas] = useState<Set<string>>(new Set());
   const [localSearch, setLocalSearch] = useState(searchQuery);
 
   const query = localSearch.toLowerCase();
@@ -19,16 +23,33 @@ export function ExplorerView({ schema, searchQuery, onTableClick }: ExplorerView
     t.columns.some(c => c.name.toLowerCase().includes(query))
   );
 
-  const toggle = (name: string) => {
+  const toggle = (id: string) => {
     setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSchema = (name: string) => {
+    setCollapsedSchemas(prev => {
       const next = new Set(prev);
       if (next.has(name)) next.delete(name); else next.add(name);
       return next;
     });
   };
 
-  const getRelationships = (tableName: string) =>
-    schema.foreignKeys.filter(fk => fk.sourceTable === tableName || fk.targetTable === tableName);
+  const getRelationships = (id: string) =>
+    schema.foreignKeys.filter(fk => fk.sourceId === id || fk.targetId === id);
+
+  // Cross-schema references spell out the other schema
+  const refLabel = (id: string, name: string, table: TableInfo) =>
+    id === tableId(table.schema, name) ? name : id;
+
+  const multiSchema = schema.schemas.length > 1;
+  const groups = multiSchema
+    ? schema.schemas.map(s => ({ name: s, tables: tables.filter(t => t.schema === s) })).filter(g => g.tables.length > 0)
+    : [{ name: "", tables }];
 
   return (
     <div className="h-full flex flex-col">
@@ -46,59 +67,86 @@ export function ExplorerView({ schema, searchQuery, onTableClick }: ExplorerView
       </div>
       <div className="flex-1 overflow-auto min-h-0">
         <div className="p-4 space-y-1">
-          {tables.map(table => {
-            const isExpanded = expanded.has(table.name);
-            const rels = getRelationships(table.name);
-            return (
-              <div key={table.name}>
+          {groups.map(group => (
+            <div key={group.name} className={multiSchema ? "space-y-1" : "contents"}>
+              {multiSchema && (
                 <button
-                  className="flex items-center gap-2 w-full px-3 py-2 rounded-md text-sm hover:bg-secondary/30 transition-colors group"
-                  onClick={() => toggle(table.name)}
+                  className="flex items-center gap-2 w-full px-2 py-1.5 text-xs font-semibold uppercase tracking-wider"
+                  style={{ color: schemaColor(group.name, schema.schemas) }}
+                  onClick={() => toggleSchema(group.name)}
                 >
-                  {isExpanded ? <ChevronDown className="h-3 w-3 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 text-muted-foreground" />}
-                  <Table2 className="h-4 w-4 text-primary" />
-                  <span className="font-medium text-foreground">{table.name}</span>
-                  <span className="text-[10px] text-muted-foreground ml-1">({table.columns.length})</span>
-                  {rels.length > 0 && <span className="text-[10px] text-info ml-auto">{rels.length} rel</span>}
-                  <span
-                    className="text-[10px] text-primary opacity-0 group-hover:opacity-100 ml-2 hover:underline"
-                    onClick={(e) => { e.stopPropagation(); onTableClick(table); }}
-                  >
-                    details
-                  </span>
+                  {collapsedSchemas.has(group.name) ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                  <Database className="h-3.5 w-3.5" />
+                  {group.name}
+                  <span className="text-[10px] font-normal normal-case text-muted-foreground">({group.tables.length})</span>
                 </button>
+              )}
+              {!collapsedSchemas.has(group.name) && group.tables.map(table => {
+                const isExpanded = expanded.has(table.id);
+                const rels = getRelationships(table.id);
+                return (
+                  <div key={table.id} className={multiSchema ? "ml-3" : undefined}>
+                    <button
+                      className="flex items-center gap-2 w-full px-3 py-2 rounded-md text-sm hover:bg-secondary/30 transition-colors group"
+                      onClick={() => toggle(table.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="h-3 w-3 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                      {table.kind === "view" ? <Eye className="h-4 w-4 text-success" /> : <Table2 className="h-4 w-4 text-primary" />}
+                      <span className={`font-medium ${table.kind === "view" ? "text-success italic" : "text-foreground"}`}>{table.name}</span>
+                      <span className="text-[10px] text-muted-foreground ml-1">({table.columns.length})</span>
+                      {rels.length > 0 && <span className="text-[10px] text-info ml-auto">{rels.length} rel</span>}
+                      <span
+                        className="text-[10px] text-primary opacity-0 group-hover:opacity-100 ml-2 hover:underline"
+                        onClick={(e) => { e.stopPropagation(); onTableClick(table); }}
+                      >
+                        details
+                      </span>
+                    </button>
 
-                {isExpanded && (
-                  <div className="ml-8 border-l border-border/30 pl-3 py-1 space-y-0.5">
-                    {table.columns.map(col => (
-                      <div key={col.name} className="flex items-center gap-2 px-2 py-1 text-xs rounded hover:bg-secondary/20">
-                        {col.isPrimaryKey && <Key className="h-3 w-3 text-warning shrink-0" />}
-                        {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info shrink-0" />}
-                        {!col.isPrimaryKey && !col.isForeignKey && <span className="w-3 shrink-0 text-muted-foreground/30">─</span>}
-                        <span className={col.isPrimaryKey ? "text-warning" : col.isForeignKey ? "text-info" : "text-foreground/80"}>
-                          {col.name}
-                        </span>
-                        <span className="ml-auto font-mono text-[10px] text-muted-foreground">{col.dataType}</span>
-                        {col.isNullable && <span className="text-muted-foreground/40 text-[10px]">null</span>}
-                      </div>
-                    ))}
-                    {rels.length > 0 && (
-                      <div className="mt-2 pt-2 border-t border-border/20">
-                        <p className="text-[10px] text-muted-foreground font-semibold uppercase mb-1">Relationships</p>
-                        {rels.map(fk => (
-                          <div key={fk.constraintName} className="text-[10px] text-info/80 px-2 py-0.5">
-                            {fk.sourceTable === table.name
-                              ? `${fk.sourceColumn} → ${fk.targetTable}.${fk.targetColumn}`
-                              : `${fk.sourceTable}.${fk.sourceColumn} → ${fk.targetColumn}`}
+                    {isExpanded && (
+                      <div className="ml-8 border-l border-border/30 pl-3 py-1 space-y-0.5">
+                        {table.description && (
+                          <p className="px-2 pb-1 text-xs italic text-muted-foreground whitespace-pre-wrap">{table.description}</p>
+                        )}
+                        {table.columns.map(col => (
+                          <div key={col.name} className="flex items-center gap-2 px-2 py-1 text-xs rounded hover:bg-secondary/20">
+                            {col.isPrimaryKey && <Key className="h-3 w-3 text-warning shrink-0" />}
+                            {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info shrink-0" />}
+                            {!col.isPrimaryKey && !col.isForeignKey && <span className="w-3 shrink-0 text-muted-foreground/30">─</span>}
+                            <span className={col.isPrimaryKey ? "text-warning" : col.isForeignKey ? "text-info" : "text-foreground/80"}>
+                              {col.name}
+                            </span>
+                            {col.description && (
+                              <span className="truncate text-[10px] italic text-muted-foreground/60" title={col.description}>
+                                {col.description}
+                              </span>
+                            )}
+                            <span className="ml-auto font-mono text-[10px] text-muted-foreground shrink-0">{col.rawType}</span>
+                            {col.isNullable && <span className="text-muted-foreground/40 text-[10px]">null</span>}
                           </div>
                         ))}
+                        {rels.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-border/20">
+                            <p className="text-[10px] text-muted-foreground font-semibold uppercase mb-1">Relationships</p>
+                            {rels.map(fk => (
+                              <div key={fk.constraintName} className="text-[10px] text-info/80 px-2 py-0.5">
+                                {fk.sourceId === table.id
+                                  ? `${fkColumnList(fk, "source")} → ${refLabel(fk.targetId, fk.targetTable, table)}.${fkColumnList(fk, "target")}`
+                                  : `${refLabel(fk.sourceId, fk.sourceTable, table)}.${fkColumnList(fk, "source")} → ${fkColumnList(fk, "target")}`}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
-                )}
-              </div>
-            );
-          })}
+                );
+              })}
+            </div>
+          ))}
+          <div className="pt-3">
+            <FunctionList functions={schema.functions} searchQuery={localSearch} onFunctionClick={onFunctionClick} />
+          </div>
         </div>
       </div>
     </div>
@@ -1,15 +1,18 @@
 import { useState, useMemo } from "react";
-import { ChevronDown, ChevronRight, Key, Link2, Table2 } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { ChevronDown, ChevronRight, Key, Link2, Table2, Eye } from "lucide-react";
+import type { SchemaData, TableInfo, FunctionInfo } from "@/lib/schema-types";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
 
 interface GroupedViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
-export function GroupedView({ schema, searchQuery, onTableClick }: GroupedViewProps) {
+export function GroupedView({ schema, searchQuery, onTableClick, onFunctionClick }: GroupedViewProps) {
   const groups = useMemo(() => {
     // Auto-cluster tables by FK relationships using union-find
     const parent: Record<string, string> = {};
@@ -19,24 +22,28 @@ export function GroupedView({ schema, searchQuery, onTableClick }: GroupedViewPr
     };
     const union = (a: string, b: string) => { parent[find(a)] = find(b); };
 
-    schema.tables.forEach(t => { parent[t.name] = t.name; });
-    schema.foreignKeys.forEach(fk => union(fk.sourceTable, fk.targetTable));
+    schema.tables.forEach(t => { parent[t.id] = t.id; });
+    schema.foreignKeys.forEach(fk => union(fk.sourceId, fk.targetId));
 
     const clusters: Record<string, TableInfo[]> = {};
     schema.tables.forEach(t => {
-      const root = find(t.name);
+      const root = find(t.id);
       if (!clusters[root]) clusters[root] = [];
       clusters[root].push(t);
     });
 
     // Name each cluster by its largest table or root
+    const multiSchema = schema.schemas.length > 1;
     return Object.entries(clusters)
-      .map(([root, tables]) => ({
-        name: tables.length > 1
-          ? `${root} group (${tables.length} tables)`
-          : root,
-        tables,
-      }))
+      .map(([root, tables]) => {
+        const label = multiSchema ? root : tables.find(t => t.id === root)?.name ?? root;
+        return {
+          name: tables.length > 1
+            ? `${label} group (${tables.length} tables)`
+            : label,
+          tables,
+        };
+      })
       .sort((a, b) => b.tables.length - a.tables.length);
   }, [schema]);
 
@@ -78,13 +85,18 @@ export function GroupedView({ schema, searchQuery, onTableClick }: GroupedViewPr
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 p-4">
                 {group.tables.map(table => (
                   <button
-                    key={table.name}
-                    className="text-left rounded-lg border border-border/40 bg-card p-3 hover:border-primary/40 hover:bg-primary/5 transition-all group"
+                    key={table.id}
+                    className={`text-left rounded-lg border bg-card p-3 transition-all group ${
+                      table.kind === "view"
+                        ? "border-dashed border-success/40 hover:border-success/60 hover:bg-success/5"
+                        : "border-border/40 hover:border-primary/40 hover:bg-primary/5"
+                    }`}
                     onClick={() => onTableClick(table)}
                   >
                     <div className="flex items-center gap-2 mb-2">
-                      <Table2 className="h-4 w-4 text-primary" />
+                      {table.kind === "view" ? <Eye className="h-4 w-4 text-success" /> : <Table2 className="h-4 w-4 text-primary" />}
                       <span className="font-medium text-sm text-foreground">{table.name}</span>
+                      <SchemaBadge schema={table.schema} schemas={schema.schemas} className="ml-auto" />
                     </div>
                     <div className="space-y-0.5">
                       {table.columns.slice(0, 5).map(col => (
@@ -93,7 +105,7 @@ export function GroupedView({ schema, searchQuery, onTableClick }: GroupedViewPr
                           {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-2.5 w-2.5 text-info" />}
                           {!col.isPrimaryKey && !col.isForeignKey && <span className="w-2.5" />}
                           <span className="text-muted-foreground">{col.name}</span>
-                          <span className="ml-auto font-mono text-muted-foreground/60">{col.dataType}</span>
+                          <span className="ml-auto font-mono text-muted-foreground/60">{col.rawType}</span>
                         </div>
                       ))}
                       {table.columns.length > 5 && (
@@ -106,6 +118,7 @@ export function GroupedView({ schema, searchQuery, onTableClick }: GroupedViewPr
             )}
           </div>
         ))}
+        <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
       </div>
     </ScrollArea>
   );
@@ -1,11 +1,14 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from "react";
 import { stratify, tree } from "d3-hierarchy";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import type { SchemaData, TableInfo, FunctionInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { schemaColor } from "@/lib/schema-colors";
 
 interface HierarchyViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick?: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 interface TreeNode {
@@ -14,7 +17,7 @@ interface TreeNode {
   table: TableInfo;
 }
 
-export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyViewProps) {
+export function HierarchyView({ schema, searchQuery, onTableClick, onFunctionClick }: HierarchyViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [hoveredTable, setHoveredTable] = useState<string | null>(null);
   const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
@@ -31,29 +34,29 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
 
     const parentMap: Record<string, string> = {};
     schema.foreignKeys.forEach(fk => {
-      if (!parentMap[fk.sourceTable]) parentMap[fk.sourceTable] = fk.targetTable;
+      if (!parentMap[fk.sourceId]) parentMap[fk.sourceId] = fk.targetId;
     });
 
-    const roots = tables.filter(t => !parentMap[t.name]);
+    const roots = tables.filter(t => !parentMap[t.id]);
     if (roots.length === 0 && tables.length > 0) return null;
 
     const nodes: TreeNode[] = [];
     const virtualRoot = "__root__";
 
     if (roots.length > 1) {
-      nodes.push({ id: virtualRoot, parentId: null, table: { name: "Schema", schema: "public", columns: [] } });
-      roots.forEach(t => nodes.push({ id: t.name, parentId: virtualRoot, table: t }));
+      nodes.push({ id: virtualRoot, parentId: null, table: { id: virtualRoot, name: "Schema", schema: "public", kind: "table", columns: [], primaryKey: [] } });
+      roots.forEach(t => nodes.push({ id: t.id, parentId: virtualRoot, table: t }));
     } else if (roots.length === 1) {
-      nodes.push({ id: roots[0].name, parentId: null, table: roots[0] });
+      nodes.push({ id: roots[0].id, parentId: null, table: roots[0] });
     }
 
     tables.forEach(t => {
-      if (nodes.find(n => n.id === t.name)) return;
-      const parent = parentMap[t.name];
-      if (parent && tables.find(tt => tt.name === parent)) {
-        nodes.push({ id: t.name, parentId: parent, table: t });
+      if (nodes.find(n => n.id === t.id)) return;
+      const parent = parentMap[t.id];
+      if (parent && tables.find(tt => tt.id === parent)) {
+        nodes.push({ id: t.id, parentId: parent, table: t });
       } else {
-        nodes.push({ id: t.name, parentId: roots.length > 1 ? virtualRoot : roots[0]?.name || null, table: t });
+        nodes.push({ id: t.id, parentId: roots.length > 1 ? virtualRoot : roots[0]?.id || null, table: t });
       }
     });
 
@@ -138,6 +141,7 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
   const isVirtual = (id: string) => id === "__root__";
   const { NODE_W, NODE_H } = layout;
   const hasVirtualRoot = treeData!.some(n => n.id === "__root__");
+  const multiSchema = schema.schemas.length > 1;
 
   const depthColors = [
     { fill: "hsl(var(--primary) / 0.12)", stroke: "hsl(var(--primary) / 0.5)", accent: "hsl(var(--primary))" },
@@ -213,6 +217,7 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
             const hasChildren = node.children && node.children.length > 0;
             const depth = node.depth - (hasVirtualRoot ? 1 : 0);
             const colors = depthColors[Math.min(depth, depthColors.length - 1)];
+            const isView = table.kind === "view";
             const pkCols = table.columns.filter(c => c.isPrimaryKey);
             const fkCols = table.columns.filter(c => c.isForeignKey);
 
@@ -230,10 +235,15 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
                   fill={isHovered ? colors.fill : "hsl(var(--card))"}
                   stroke={isHovered ? colors.accent : colors.stroke}
                   strokeWidth={isHovered ? 2 : 1}
+                  strokeDasharray={isView ? "5 3" : undefined}
                   filter="url(#h-shadow)"
                 />
                 {/* Top accent */}
                 <rect x={16} y={0} width={NODE_W - 32} height={2.5} rx={1.25} fill={colors.accent} opacity={0.6} />
+                {/* Schema stripe */}
+                {multiSchema && (
+                  <rect x={0} y={10} width={3} height={NODE_H - 20} rx={1.5} fill={schemaColor(table.schema, schema.schemas)} />
+                )}
 
                 {/* Collapse toggle */}
                 {hasChildren && (
@@ -261,6 +271,8 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
 
                 {/* Meta */}
                 <text x={14} y={38} fontSize={9} fill="hsl(var(--muted-foreground))" fontFamily="system-ui, sans-serif">
+                  {multiSchema && <tspan fill={schemaColor(table.schema, schema.schemas)}>{table.schema} · </tspan>}
+                  {isView && <tspan fill="hsl(var(--success))" fontStyle="italic">view · </tspan>}
                   {table.columns.length} cols
                   {pkCols.length > 0 && ` · ${pkCols.length} PK`}
                   {fkCols.length > 0 && ` · ${fkCols.length} FK`}
@@ -288,8 +300,20 @@ export function HierarchyView({ schema, searchQuery, onTableClick }: HierarchyVi
             <span className="text-foreground/60">Depth {i}{i === 0 ? " — Root" : ""}</span>
           </div>
         ))}
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-2 rounded-sm border border-dashed border-success" />
+          <span className="text-foreground/60">View</span>
+        </div>
+        {multiSchema && schema.schemas.map(s => (
+          <div key={s} className="flex items-center gap-2">
+            <div className="w-1 h-3 rounded-sm" style={{ backgroundColor: schemaColor(s, schema.schemas) }} />
+            <span className="text-foreground/60 font-mono">{s}</span>
+          </div>
+        ))}
       </div>
 
+      <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} variant="overlay" />
+
       {/* Zoom controls */}
       <div className="absolute bottom-4 right-4 glass rounded-lg overflow-hidden flex flex-col z-10">
         <button onClick={() => setZoom(z => Math.min(3, z * 1.2))} className="px-3 py-2 text-xs text-foreground hover:bg-secondary/30 transition-colors">+</button>
@@ -1,35 +1,40 @@
 import { useMemo } from "react";
-import { Table2, Key, Link2 } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { Table2, Key, Link2, Eye } from "lucide-react";
+import type { SchemaData, TableInfo, FunctionInfo } from "@/lib/schema-types";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
 
 interface LayerViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 type Layer = { name: string; color: string; tables: TableInfo[] };
 
-export function LayerView({ schema, searchQuery, onTableClick }: LayerViewProps) {
+export function LayerView({ schema, searchQuery, onTableClick, onFunctionClick }: LayerViewProps) {
   const layers = useMemo<Layer[]>(() => {
     // Classify tables into layers based on FK relationships
     const inDegree: Record<string, number> = {};
     const outDegree: Record<string, number> = {};
-    schema.tables.forEach(t => { inDegree[t.name] = 0; outDegree[t.name] = 0; });
+    schema.tables.forEach(t => { inDegree[t.id] = 0; outDegree[t.id] = 0; });
     schema.foreignKeys.forEach(fk => {
-      outDegree[fk.sourceTable] = (outDegree[fk.sourceTable] || 0) + 1;
-      inDegree[fk.targetTable] = (inDegree[fk.targetTable] || 0) + 1;
+      outDegree[fk.sourceId] = (outDegree[fk.sourceId] || 0) + 1;
+      inDegree[fk.targetId] = (inDegree[fk.targetId] || 0) + 1;
     });
 
     const reference: TableInfo[] = []; // Referenced a lot, no outgoing FKs (lookup tables)
     const core: TableInfo[] = [];      // Both in and out FKs (main entities)
     const junction: TableInfo[] = [];  // Many outgoing FKs, few/no incoming (join tables)
     const leaf: TableInfo[] = [];      // No relationships
+    const views: TableInfo[] = [];     // Read-only projections over the other layers
 
     schema.tables.forEach(t => {
-      const inD = inDegree[t.name] || 0;
-      const outD = outDegree[t.name] || 0;
+      if (t.kind === "view") { views.push(t); return; }
+      const inD = inDegree[t.id] || 0;
+      const outD = outDegree[t.id] || 0;
       if (inD === 0 && outD === 0) leaf.push(t);
       else if (outD >= 2 && inD === 0) junction.push(t);
       else if (inD > 0 && outD === 0) reference.push(t);
@@ -41,6 +46,7 @@ export function LayerView({ schema, searchQuery, onTableClick }: LayerViewProps)
       { name: "Core Entities", color: "text-primary", tables: core },
       { name: "Junction / Bridge", color: "text-info", tables: junction },
       { name: "Standalone", color: "text-muted-foreground", tables: leaf },
+      { name: "Views", color: "text-success", tables: views },
     ].filter(l => l.tables.length > 0);
   }, [schema]);
 
@@ -70,13 +76,18 @@ export function LayerView({ schema, searchQuery, onTableClick }: LayerViewProps)
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
                   {filtered.map(table => (
                     <button
-                      key={table.name}
-                      className="text-left p-3 rounded-md border border-border/30 hover:border-primary/40 hover:bg-primary/5 transition-all"
+                      key={table.id}
+                      className={`text-left p-3 rounded-md border transition-all ${
+                        table.kind === "view"
+                          ? "border-dashed border-success/40 hover:border-success/60 hover:bg-success/5"
+                          : "border-border/30 hover:border-primary/40 hover:bg-primary/5"
+                      }`}
                       onClick={() => onTableClick(table)}
                     >
                       <div className="flex items-center gap-2 mb-1">
-                        <Table2 className="h-3.5 w-3.5 text-primary" />
+                        {table.kind === "view" ? <Eye className="h-3.5 w-3.5 text-success" /> : <Table2 className="h-3.5 w-3.5 text-primary" />}
                         <span className="font-medium text-xs text-foreground truncate">{table.name}</span>
+                        <SchemaBadge schema={table.schema} schemas={schema.schemas} className="ml-auto" />
                       </div>
                       <span className="text-[10px] text-muted-foreground">{table.columns.length} cols</span>
                     </button>
@@ -86,6 +97,8 @@ export function LayerView({ schema, searchQuery, onTableClick }: LayerViewProps)
             </div>
           );
         })}
+
+        <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
       </div>
     </ScrollArea>
   );
@@ -1,10 +1,14 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from "react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { formatFkColumns, type SchemaData, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { schemaColor } from "@/lib/schema-colors";
+import { formatCount } from "@/lib/table-stats";
 
 interface NodeLinkViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick?: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 interface GraphNode {
@@ -23,7 +27,7 @@ interface GraphLink {
   label: string;
 }
 
-export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkViewProps) {
+export function NodeLinkView({ schema, searchQuery, onTableClick, onFunctionClick }: NodeLinkViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const animRef = useRef<number>(0);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
@@ -33,6 +37,7 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [positions, setPositions] = useState<Record<string, { x: number; y: number }>>({});
   const [settled, setSettled] = useState(false);
+  const [sizeBy, setSizeBy] = useState<"links" | "rows">("links");
 
   const { nodes, links } = useMemo(() => {
     const tables = schema.tables.filter(t =>
@@ -41,26 +46,26 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
     );
 
     const connCount: Record<string, number> = {};
-    tables.forEach(t => { connCount[t.name] = 0; });
+    tables.forEach(t => { connCount[t.id] = 0; });
     schema.foreignKeys.forEach(fk => {
-      if (connCount[fk.sourceTable] !== undefined) connCount[fk.sourceTable]++;
-      if (connCount[fk.targetTable] !== undefined) connCount[fk.targetTable]++;
+      if (connCount[fk.sourceId] !== undefined) connCount[fk.sourceId]++;
+      if (connCount[fk.targetId] !== undefined) connCount[fk.targetId]++;
     });
 
-    const sorted = [...tables].sort((a, b) => (connCount[b.name] || 0) - (connCount[a.name] || 0));
+    const sorted = [...tables].sort((a, b) => (connCount[b.id] || 0) - (connCount[a.id] || 0));
     const nodes: GraphNode[] = sorted.map((table, i) => {
-      if (i === 0) return { id: table.name, table, x: 0, y: 0, vx: 0, vy: 0, connections: connCount[table.name] || 0 };
+      if (i === 0) return { id: table.id, table, x: 0, y: 0, vx: 0, vy: 0, connections: connCount[table.id] || 0 };
       const ring = Math.ceil(i / 6);
       const posInRing = (i - 1) % (ring * 6);
       const angle = (posInRing / (ring * 6)) * Math.PI * 2 - Math.PI / 2;
       const radius = ring * 280;
-      return { id: table.name, table, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0, connections: connCount[table.name] || 0 };
+      return { id: table.id, table, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0, connections: connCount[table.id] || 0 };
     });
 
-    const tableSet = new Set(tables.map(t => t.name));
+    const tableSet = new Set(tables.map(t => t.id));
     const links: GraphLink[] = schema.foreignKeys
-      .filter(fk => tableSet.has(fk.sourceTable) && tableSet.has(fk.targetTable))
-      .map(fk => ({ source: fk.sourceTable, target: fk.targetTable, label: `${fk.sourceColumn} → ${fk.targetColumn}` }));
+      .filter(fk => tableSet.has(fk.sourceId) && tableSet.has(fk.targetId))
+      .map(fk => ({ source: fk.sourceId, target: fk.targetId, label: formatFkColumns(fk) }));
 
     return { nodes, links };
   }, [schema, searchQuery]);
@@ -163,6 +168,13 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
 
   const getPos = (id: string) => positions[id] || { x: 0, y: 0 };
   const maxConn = Math.max(...nodes.map(n => n.connections), 1);
+  const hasCounts = nodes.some(n => n.table.rowCount !== undefined);
+  // Row counts span orders of magnitude, so they scale logarithmically
+  const maxRowsLog = Math.log10(Math.max(...nodes.map(n => n.table.rowCount ?? 0), 1) + 1);
+  const nodeScale = (node: GraphNode) => hasCounts && sizeBy === "rows"
+    ? Math.log10((node.table.rowCount ?? 0) + 1) / maxRowsLog
+    : node.connections / maxConn;
+  const multiSchema = schema.schemas.length > 1;
 
   return (
     <div
@@ -205,7 +217,8 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
           {nodes.map(node => {
             const pos = getPos(node.id);
             const isHovered = hoveredNode === node.id;
-            const radius = 28 + (node.connections / maxConn) * 26;
+            const radius = 28 + nodeScale(node) * 26;
+            const isView = node.table.kind === "view";
             const isConnected = hoveredNode && links.some(l =>
               (l.source === hoveredNode && l.target === node.id) ||
               (l.target === hoveredNode && l.source === node.id)
@@ -226,14 +239,19 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
                 <circle
                   r={radius}
                   fill={isHovered ? "hsl(var(--primary) / 0.15)" : "hsl(var(--card))"}
-                  stroke={isHovered || isConnected ? "hsl(var(--primary))" : "hsl(var(--border))"}
+                  stroke={isHovered || isConnected ? "hsl(var(--primary))" : isView ? "hsl(var(--success) / 0.6)" : "hsl(var(--border))"}
                   strokeWidth={isHovered ? 2 : 1}
+                  strokeDasharray={isView ? "5 3" : undefined}
                 />
-                <text y={-5} textAnchor="middle" fontSize={11} fontWeight={600} fill="hsl(var(--foreground))" fontFamily="system-ui, sans-serif">
+                {multiSchema && (
+                  <circle r={radius + 3} fill="none" stroke={schemaColor(node.table.schema, schema.schemas)} strokeWidth={2} strokeOpacity={0.7} />
+                )}
+                <text y={-5} textAnchor="middle" fontSize={11} fontWeight={600} fontStyle={isView ? "italic" : undefined} fill={isView ? "hsl(var(--success))" : "hsl(var(--foreground))"} fontFamily="system-ui, sans-serif">
                   {node.table.name.length > 14 ? node.table.name.slice(0, 13) + "…" : node.table.name}
                 </text>
                 <text y={10} textAnchor="middle" fontSize={9} fill="hsl(var(--muted-foreground))" fontFamily="system-ui, sans-serif">
                   {node.table.columns.length} cols · {node.connections} links
+                  {node.table.rowCount !== undefined && ` · ${formatCount(node.table.rowCount)}`}
                 </text>
               </g>
             );
@@ -244,10 +262,29 @@ export function NodeLinkView({ schema, searchQuery, onTableClick }: NodeLinkView
       {/* Legend */}
       <div className="absolute bottom-4 left-4 glass rounded-lg px-4 py-3 text-xs space-y-1.5 z-10">
         <p className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Node-Link Graph</p>
-        <p className="text-foreground/60 text-[10px]">Node size = connection count</p>
+        {hasCounts ? (
+          <button
+            className="block text-foreground/60 text-[10px] hover:text-foreground transition-colors"
+            onMouseDown={e => e.stopPropagation()}
+            onClick={() => setSizeBy(sizeBy === "links" ? "rows" : "links")}
+          >
+            Node size = {sizeBy === "links" ? "connection count" : "row count"} ⇄
+          </button>
+        ) : (
+          <p className="text-foreground/60 text-[10px]">Node size = connection count</p>
+        )}
         <p className="text-foreground/60 text-[10px]">Force-directed layout</p>
+        <p className="text-success/80 text-[10px] italic">Dashed = view</p>
+        {multiSchema && schema.schemas.map(s => (
+          <div key={s} className="flex items-center gap-2 text-[10px]">
+            <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: schemaColor(s, schema.schemas) }} />
+            <span className="text-foreground/60 font-mono">{s}</span>
+          </div>
+        ))}
       </div>
 
+      <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} variant="overlay" />
+
       {/* Zoom controls */}
       <div className="absolute bottom-4 right-4 glass rounded-lg overflow-hidden flex flex-col z-10">
         <button onClick={() => setZoom(z => Math.min(3, z * 1.2))} className="px-3 py-2 text-xs text-foreground hover:bg-secondary/30 transition-colors">+</button>
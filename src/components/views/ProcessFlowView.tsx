@@ -1,10 +1,13 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from "react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { fkColumnList, type SchemaData, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { schemaColor } from "@/lib/schema-colors";
 
 interface ProcessFlowViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick?: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 interface FlowNode {
@@ -21,7 +24,7 @@ interface FlowEdge {
   targetCol: string;
 }
 
-export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFlowViewProps) {
+export function ProcessFlowView({ schema, searchQuery, onTableClick, onFunctionClick }: ProcessFlowViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -39,9 +42,9 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
 
     // Topological sort into levels
     const deps: Record<string, Set<string>> = {};
-    tables.forEach(t => { deps[t.name] = new Set(); });
+    tables.forEach(t => { deps[t.id] = new Set(); });
     schema.foreignKeys.forEach(fk => {
-      if (deps[fk.sourceTable]) deps[fk.sourceTable].add(fk.targetTable);
+      if (deps[fk.sourceId]) deps[fk.sourceId].add(fk.targetId);
     });
 
     const levels: string[][] = [];
@@ -49,35 +52,35 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
     while (placed.size < tables.length) {
       const level: string[] = [];
       tables.forEach(t => {
-        if (placed.has(t.name)) return;
-        const unmet = [...(deps[t.name] || [])].filter(d => !placed.has(d));
-        if (unmet.length === 0) level.push(t.name);
+        if (placed.has(t.id)) return;
+        const unmet = [...(deps[t.id] || [])].filter(d => !placed.has(d));
+        if (unmet.length === 0) level.push(t.id);
       });
       if (level.length === 0) {
-        tables.forEach(t => { if (!placed.has(t.name)) level.push(t.name); });
+        tables.forEach(t => { if (!placed.has(t.id)) level.push(t.id); });
       }
       level.forEach(n => placed.add(n));
       levels.push(level);
     }
 
     const GAP_X = 80, GAP_Y = 120;
-    const tableMap = Object.fromEntries(tables.map(t => [t.name, t]));
+    const tableMap = Object.fromEntries(tables.map(t => [t.id, t]));
     const nodes: FlowNode[] = [];
 
     levels.forEach((level, li) => {
       const totalWidth = level.length * NODE_W + (level.length - 1) * GAP_X;
       const startX = -totalWidth / 2;
-      level.forEach((name, idx) => {
-        if (tableMap[name]) {
-          nodes.push({ table: tableMap[name], level: li, x: startX + idx * (NODE_W + GAP_X), y: li * (NODE_H + GAP_Y) });
+      level.forEach((id, idx) => {
+        if (tableMap[id]) {
+          nodes.push({ table: tableMap[id], level: li, x: startX + idx * (NODE_W + GAP_X), y: li * (NODE_H + GAP_Y) });
         }
       });
     });
 
-    const tableSet = new Set(tables.map(t => t.name));
+    const tableSet = new Set(tables.map(t => t.id));
     const edges: FlowEdge[] = schema.foreignKeys
-      .filter(fk => tableSet.has(fk.sourceTable) && tableSet.has(fk.targetTable))
-      .map(fk => ({ from: fk.targetTable, to: fk.sourceTable, sourceCol: fk.targetColumn, targetCol: fk.sourceColumn }));
+      .filter(fk => tableSet.has(fk.sourceId) && tableSet.has(fk.targetId))
+      .map(fk => ({ from: fk.targetId, to: fk.sourceId, sourceCol: fkColumnList(fk, "target"), targetCol: fkColumnList(fk, "source") }));
 
     return { nodes, edges };
   }, [schema, searchQuery]);
@@ -122,7 +125,8 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
   }, [isPanning, panStart]);
   const handleMouseUp = useCallback(() => setIsPanning(false), []);
 
-  const nodeMap = Object.fromEntries(nodes.map(n => [n.table.name, n]));
+  const nodeMap = Object.fromEntries(nodes.map(n => [n.table.id, n]));
+  const multiSchema = schema.schemas.length > 1;
 
   return (
     <div
@@ -191,16 +195,17 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
 
           {/* Nodes */}
           {nodes.map(node => {
-            const isHovered = hoveredNode === node.table.name;
+            const isHovered = hoveredNode === node.table.id;
             const pkCount = node.table.columns.filter(c => c.isPrimaryKey).length;
             const fkCount = node.table.columns.filter(c => c.isForeignKey).length;
             const levelColor = node.level === 0 ? "hsl(var(--success))" : node.level === 1 ? "hsl(var(--primary))" : "hsl(var(--info))";
+            const isView = node.table.kind === "view";
 
             return (
               <g
-                key={node.table.name}
+                key={node.table.id}
                 transform={`translate(${node.x}, ${node.y})`}
-                onMouseEnter={() => setHoveredNode(node.table.name)}
+                onMouseEnter={() => setHoveredNode(node.table.id)}
                 onMouseLeave={() => setHoveredNode(null)}
                 onClick={() => onTableClick?.(node.table)}
                 className="cursor-pointer"
@@ -208,8 +213,9 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
                 <rect
                   width={NODE_W} height={NODE_H} rx={10} ry={10}
                   fill="hsl(var(--card))"
-                  stroke={isHovered ? "hsl(var(--primary))" : "hsl(var(--border) / 0.5)"}
+                  stroke={isHovered ? "hsl(var(--primary))" : isView ? "hsl(var(--success) / 0.6)" : "hsl(var(--border) / 0.5)"}
                   strokeWidth={isHovered ? 2 : 1}
+                  strokeDasharray={isView ? "5 3" : undefined}
                   filter="url(#pf-shadow)"
                 />
                 <rect x={0} y={0} width={4} height={NODE_H} rx={2} fill={levelColor} />
@@ -217,6 +223,8 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
                   {node.table.name}
                 </text>
                 <text x={16} y={42} fontSize={9} fill="hsl(var(--muted-foreground))" fontFamily="system-ui, sans-serif">
+                  {multiSchema && <tspan fill={schemaColor(node.table.schema, schema.schemas)}>{node.table.schema} · </tspan>}
+                  {isView && <tspan fill="hsl(var(--success))" fontStyle="italic">view · </tspan>}
                   {node.table.columns.length} columns · {pkCount} PK · {fkCount} FK
                 </text>
                 <circle cx={NODE_W / 2} cy={0} r={3.5} fill="hsl(var(--primary))" stroke="hsl(var(--background))" strokeWidth={2} />
@@ -233,8 +241,11 @@ export function ProcessFlowView({ schema, searchQuery, onTableClick }: ProcessFl
         <div className="flex items-center gap-2"><div className="w-3 h-1 rounded bg-success" /><span className="text-foreground/60">Level 0 — Root</span></div>
         <div className="flex items-center gap-2"><div className="w-3 h-1 rounded bg-primary" /><span className="text-foreground/60">Level 1</span></div>
         <div className="flex items-center gap-2"><div className="w-3 h-1 rounded bg-info" /><span className="text-foreground/60">Level 2+</span></div>
+        <div className="flex items-center gap-2"><div className="w-3 h-2 rounded-sm border border-dashed border-success" /><span className="text-foreground/60">View</span></div>
       </div>
 
+      <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} variant="overlay" />
+
       <div className="absolute bottom-4 right-4 glass rounded-lg overflow-hidden flex flex-col z-10">
         <button onClick={() => setZoom(z => Math.min(3, z * 1.2))} className="px-3 py-2 text-xs text-foreground hover:bg-secondary/30 transition-colors">+</button>
         <div className="border-t border-border/30" />
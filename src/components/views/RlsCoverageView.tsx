@@ -0,0 +1,147 @@
+import { useMemo } from "react";
+import { Eye } from "lucide-react";
+import type { SchemaData, TableInfo, PolicyCommand, RlsStatus } from "@/lib/schema-types";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import { RLS_STATUS } from "@/components/rls-status";
+import { rlsStatus } from "@/lib/rls-status";
+
+interface RlsCoverageViewProps {
+  schema: SchemaData;
+  searchQuery: string;
+  onTableClick: (table: TableInfo) => void;
+}
+
+// Most exposed first
+const STATUS_ORDER: RlsStatus[] = ["disabled", "no-policies", "policies", "unknown"];
+const COMMANDS: Exclude<PolicyCommand, "ALL">[] = ["SELECT", "INSERT", "UPDATE", "DELETE"];
+
+export function RlsCoverageView({ schema, searchQuery, onTableClick }: RlsCoverageViewProps) {
+  const query = searchQuery.toLowerCase();
+
+  const groups = useMemo(() => {
+    const tables = schema.tables.filter(t => t.kind === "table");
+    return STATUS_ORDER
+      .map(status => ({ status, tables: tables.filter(t => rlsStatus(t) === status) }))
+      .filter(g => g.tables.length > 0);
+  }, [schema]);
+  const views = schema.tables.filter(t => t.kind === "view" && (!query || t.name.toLowerCase().includes(query)));
+  const allUnknown = groups.length === 1 && groups[0].status === "unknown";
+
+  return (
+    <ScrollArea className="h-full w-full">
+      <div className="p-6 max-w-[1000px] mx-auto space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground mb-1">RLS Coverage</h2>
+          <p className="text-sm text-muted-foreground">Tables by Row Level Security status, most exposed first.</p>
+        </div>
+
+        {allUnknown ? (
+          <p className="rounded-lg border border-border/40 bg-card/50 p-6 text-sm text-muted-foreground">
+            PostgREST's OpenAPI document doesn't say whether RLS is on. Switch this connection to postgres-meta
+            introspection, or import the project's SQL dump, to audit it.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {groups.map(({ status, tables }) => {
+              const style = RLS_STATUS[status];
+              const Icon = style.icon;
+              return (
+                <span key={status} className={`flex items-center gap-1.5 rounded-md px-2 py-1 ${style.bg} ${style.text}`} title={style.description}>
+                  <Icon className="h-3.5 w-3.5" />
+                  {tables.length} {style.label.toLowerCase()}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        {!allUnknown && groups.map(({ status, tables }) => {
+          const style = RLS_STATUS[status];
+          const filtered = tables.filter(t => !query || t.name.toLowerCase().includes(query));
+          if (filtered.length === 0) return null;
+          return (
+            <div key={status}>
+              <div className="flex items-center gap-2 mb-1">
+                <div className={`h-3 w-1 rounded-full ${style.text.replace("text-", "bg-")}`} />
+                <h3 className={`text-sm font-semibold ${style.text}`}>{style.label}</h3>
+                <span className="text-[10px] text-muted-foreground">({filtered.length})</span>
+              </div>
+              <p className="text-xs text-muted-foreground mb-3">{style.description}</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                {filtered.map(table => (
+                  <button
+                    key={table.id}
+                    className={`text-left p-3 rounded-md border transition-all hover:brightness-125 ${style.border} ${style.bg}`}
+                    onClick={() => onTableClick(table)}
+                  >
+                    <div className="flex items-center gap-2 mb-1.5">
+                      <span className="font-medium text-xs text-foreground truncate">{table.name}</span>
+                      <SchemaBadge schema={table.schema} schemas={schema.schemas} className="ml-auto" />
+                    </div>
+                    {status === "policies" ? <CommandCoverage table={table} /> : (
+                      <span className="text-[10px] text-muted-foreground">{table.columns.length} cols</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {views.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="h-3 w-1 rounded-full bg-muted-foreground" />
+              <h3 className="text-sm font-semibold text-muted-foreground">Views</h3>
+              <span className="text-[10px] text-muted-foreground">({views.length})</span>
+            </div>
+            <p className="text-xs text-muted-foreground mb-3">
+              Views run with their owner's rights unless created with security_invoker, bypassing the RLS of the tables underneath.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {views.map(view => (
+                <button
+                  key={view.id}
+                  className="text-left p-3 rounded-md border border-dashed border-border/50 hover:bg-secondary/20 transition-all"
+                  onClick={() => onTableClick(view)}
+                >
+                  <div className="flex items-center gap-2">
+                    <Eye className="h-3.5 w-3.5 text-success" />
+                    <span className="font-medium text-xs text-foreground truncate">{view.name}</span>
+                    <SchemaBadge schema={view.schema} schemas={schema.schemas} className="ml-auto" />
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  );
+}
+
+/**
+ * Which commands at least one permissive policy covers; uncovered ones are
+ * denied outright. Restrictive policies only narrow what permissive ones
+ * allow, so on their own they grant nothing.
+ */
+function CommandCoverage({ table }: { table: TableInfo }) {
+  const policies = (table.policies ?? []).filter(p => p.permissive);
+  return (
+    <div className="flex gap-1">
+      {COMMANDS.map(command => {
+        const count = policies.filter(p => p.command === command || p.command === "ALL").length;
+        return (
+          <span
+            key={command}
+            title={`${count} permissive ${command} polic${count === 1 ? "y" : "ies"}`}
+            className={`font-mono text-[9px] px-1 rounded ${count > 0 ? "bg-success/20 text-success" : "bg-secondary/30 text-muted-foreground/60"}`}
+          >
+            {command[0]}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
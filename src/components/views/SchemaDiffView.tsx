@@ -0,0 +1,322 @@
+import { useMemo, useState } from "react";
+import { ArrowLeftRight, X, Plus, Minus, PenLine, Link2, Copy, Check, Download, AlertTriangle, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import { SchemaFlow } from "@/components/SchemaFlow";
+import { diffSchemas, diffStatus, overlaySchema, type ChangeKind, type ColumnDiff, type ForeignKeyDiff } from "@/lib/schema-diff";
+import { generateMigration, migrationScript } from "@/lib/migration-sql";
+import { checkCompatibility, compatReportJson, compatReportMarkdown, SEVERITIES, type Severity } from "@/lib/api-compat";
+import { formatFkColumns, type ColumnInfo, type ForeignKey, type SchemaData, type TableInfo } from "@/lib/schema-types";
+
+interface SchemaDiffViewProps {
+  base: SchemaData;
+  target: SchemaData;
+  baseName: string;
+  targetName: string;
+  searchQuery: string;
+  onSwap: () => void;
+  onClose: () => void;
+  onTableClick?: (table: TableInfo) => void;
+}
+
+const KIND_STYLE: Record<ChangeKind, { text: string; bg: string; border: string; icon: typeof Plus }> = {
+  added: { text: "text-success", bg: "bg-success/10", border: "border-success/40", icon: Plus },
+  removed: { text: "text-destructive", bg: "bg-destructive/10", border: "border-destructive/40", icon: Minus },
+  changed: { text: "text-warning", bg: "bg-warning/10", border: "border-warning/40", icon: PenLine },
+};
+
+export function SchemaDiffView({ base, target, baseName, targetName, searchQuery, onSwap, onClose, onTableClick }: SchemaDiffViewProps) {
+  const [mode, setMode] = useState<"report" | "diagram" | "sql" | "compat">("report");
+  const diff = useMemo(() => diffSchemas(base, target), [base, target]);
+  const overlay = useMemo(() => overlaySchema(base, target, diff), [base, target, diff]);
+  const status = useMemo(() => diffStatus(diff), [diff]);
+
+  const tables = diff.tables.filter(t =>
+    !searchQuery || t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    t.columns.some(c => c.name.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-border/50 bg-card/30 text-xs">
+        <span className="text-muted-foreground">Comparing</span>
+        <span className="font-medium text-foreground">{baseName}</span>
+        <Button variant="ghost" size="icon" onClick={onSwap} className="h-6 w-6" title="Swap sides">
+          <ArrowLeftRight className="h-3 w-3" />
+        </Button>
+        <span className="font-medium text-foreground">{targetName}</span>
+        <div className="flex items-center gap-2 ml-2">
+          {(["added", "removed", "changed"] as const).map(kind => (
+            <span key={kind} className={`rounded px-1.5 py-0.5 ${KIND_STYLE[kind].bg} ${KIND_STYLE[kind].text}`}>
+              {diff.summary[kind]} {kind}
+            </span>
+          ))}
+        </div>
+        <Tabs value={mode} onValueChange={v => setMode(v as "report" | "diagram" | "sql" | "compat")} className="ml-auto">
+          <TabsList className="h-7">
+            <TabsTrigger value="report" className="text-xs h-5">Report</TabsTrigger>
+            <TabsTrigger value="diagram" className="text-xs h-5">Diagram</TabsTrigger>
+            <TabsTrigger value="compat" className="text-xs h-5">API compatibility</TabsTrigger>
+            <TabsTrigger value="sql" className="text-xs h-5">Migration SQL</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6" title="Close comparison">
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {mode === "diagram" ? (
+          <SchemaFlow schema={overlay} viewMode="er-diagram" searchQuery={searchQuery} onTableClick={onTableClick} diff={status} />
+        ) : mode === "compat" ? (
+          <CompatibilityPanel base={base} target={target} baseName={baseName} targetName={targetName} searchQuery={searchQuery} />
+        ) : mode === "sql" ? (
+          <MigrationPanel base={base} target={target} baseName={baseName} targetName={targetName} />
+        ) : (
+          <ScrollArea className="h-full w-full">
+            <div className="p-6 space-y-4 max-w-[1200px] mx-auto">
+              {tables.length === 0 && (
+                <p className="py-12 text-center text-sm text-muted-foreground">
+                  {diff.tables.length === 0 ? "No structural differences" : "No differences match the search"}
+                </p>
+              )}
+              {tables.map(table => {
+                const style = KIND_STYLE[table.kind];
+                const Icon = style.icon;
+                return (
+                  <div key={table.id} className={`rounded-lg border bg-card overflow-hidden ${style.border}`}>
+                    <div className={`flex items-center gap-2 px-4 py-2.5 border-b border-border/30 ${style.bg}`}>
+                      <Icon className={`h-3.5 w-3.5 ${style.text}`} />
+                      <span className="font-semibold text-sm text-foreground">{table.name}</span>
+                      <SchemaBadge schema={table.schema} schemas={overlay.schemas} />
+                      <span className={`text-[10px] uppercase font-semibold ${style.text}`}>{table.kind}</span>
+                      {table.kind === "changed" && (
+                        <span className="ml-auto text-[10px] text-muted-foreground">
+                          {table.columns.length > 0 && `${table.columns.length} column${table.columns.length === 1 ? "" : "s"}`}
+                          {table.columns.length > 0 && table.foreignKeys.length > 0 && " · "}
+                          {table.foreignKeys.length > 0 && `${table.foreignKeys.length} foreign key${table.foreignKeys.length === 1 ? "" : "s"}`}
+                        </span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 text-xs">
+                      <div className="px-4 py-1.5 text-[10px] uppercase tracking-wider text-muted-foreground border-b border-r border-border/20">{baseName}</div>
+                      <div className="px-4 py-1.5 text-[10px] uppercase tracking-wider text-muted-foreground border-b border-border/20">{targetName}</div>
+                      {table.columns.map(col => <ColumnRow key={col.name} diff={col} />)}
+                      {table.foreignKeys.map((fk, i) => <ForeignKeyRow key={i} diff={fk} />)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const SEVERITY_STYLE: Record<Severity, { text: string; bg: string; icon: typeof Plus }> = {
+  breaking: { text: "text-destructive", bg: "bg-destructive/10", icon: ShieldAlert },
+  warning: { text: "text-warning", bg: "bg-warning/10", icon: AlertTriangle },
+  safe: { text: "text-success", bg: "bg-success/10", icon: ShieldCheck },
+};
+
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.replace(/[^\w.-]+/g, "-");
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+type PanelProps = Pick<SchemaDiffViewProps, "base" | "target" | "baseName" | "targetName">;
+
+function CompatibilityPanel({ base, target, baseName, targetName, searchQuery }: PanelProps & { searchQuery: string }) {
+  const [hidden, setHidden] = useState<Set<Severity>>(new Set(["safe"]));
+  const report = useMemo(() => checkCompatibility(base, target), [base, target]);
+  const query = searchQuery.toLowerCase();
+  const findings = report.findings.filter(f => !hidden.has(f.severity) && (!query || f.object.toLowerCase().includes(query)));
+  const filename = `api-compat-${baseName}-to-${targetName}`;
+
+  const toggle = (severity: Severity) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(severity)) next.delete(severity); else next.add(severity);
+    return next;
+  });
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border/30 text-xs">
+        <span className="text-muted-foreground">
+          Clients built against <span className="text-foreground">{baseName}</span> calling <span className="text-foreground">{targetName}</span>
+        </span>
+        {SEVERITIES.map(severity => (
+          <button
+            key={severity}
+            onClick={() => toggle(severity)}
+            className={`rounded px-1.5 py-0.5 transition-opacity ${SEVERITY_STYLE[severity].bg} ${SEVERITY_STYLE[severity].text} ${hidden.has(severity) ? "opacity-40" : ""}`}
+          >
+            {report.counts[severity]} {severity}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => downloadText(compatReportMarkdown(report, baseName, targetName), `${filename}.md`, "text/markdown")} className="h-7 text-xs">
+            <Download className="h-3 w-3" />
+            Markdown
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => downloadText(compatReportJson(report, baseName, targetName), `${filename}.json`, "application/json")} className="h-7 text-xs">
+            <Download className="h-3 w-3" />
+            JSON
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-6 space-y-1.5 max-w-[1200px] mx-auto">
+          {findings.length === 0 && (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {report.findings.length === 0 ? "No changes clients can see" : "No findings match the filters"}
+            </p>
+          )}
+          {findings.map((f, i) => {
+            const style = SEVERITY_STYLE[f.severity];
+            const Icon = style.icon;
+            return (
+              <div key={i} className={`flex items-start gap-3 rounded-md border border-border/30 px-3 py-2 text-xs ${style.bg}`}>
+                <Icon className={`h-3.5 w-3.5 mt-0.5 shrink-0 ${style.text}`} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium text-foreground">{f.object}</span>
+                    <span className={style.text}>{f.change}</span>
+                  </div>
+                  <div className="text-muted-foreground mt-0.5">{f.impact}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+function MigrationPanel({ base, target, baseName, targetName }: PanelProps) {
+  const [copied, setCopied] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const statements = useMemo(() => generateMigration(base, target), [base, target]);
+  const script = useMemo(() => migrationScript(statements, baseName, targetName), [statements, baseName, targetName]);
+  const destructive = statements.filter(s => s.destructive).length;
+
+  const handleCopy = async () => {
+    setCopyError(null);
+    try {
+      await navigator.clipboard.writeText(script);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      // Denied clipboard permission, or the page isn't focused
+      setCopyError(err instanceof Error ? `Couldn't copy: ${err.message}` : "Couldn't copy the script");
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border/30 text-xs">
+        <span className="text-muted-foreground">
+          Turns <span className="text-foreground">{baseName}</span> into <span className="text-foreground">{targetName}</span>
+          {" · "}{statements.length} statement{statements.length === 1 ? "" : "s"}
+        </span>
+        {destructive > 0 && (
+          <span className="flex items-center gap-1 rounded px-1.5 py-0.5 bg-destructive/10 text-destructive">
+            <AlertTriangle className="h-3 w-3" />
+            {destructive} destructive
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {copyError && <span className="text-destructive">{copyError}</span>}
+          <Button variant="ghost" size="sm" onClick={handleCopy} className="h-7 text-xs">
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => downloadText(script, `migrate-${baseName}-to-${targetName}.sql`, "application/sql")} className="h-7 text-xs">
+            <Download className="h-3 w-3" />
+            .sql
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 font-mono text-xs leading-relaxed max-w-[1200px] mx-auto">
+          {statements.length === 0 && <p className="py-12 text-center font-sans text-sm text-muted-foreground">No structural differences</p>}
+          {statements.map((s, i) => (
+            <div
+              key={i}
+              className={`rounded px-3 py-1.5 mb-1 whitespace-pre-wrap ${
+                s.destructive ? "bg-destructive/10 border-l-2 border-destructive" : s.manual ? "bg-warning/10 border-l-2 border-warning" : ""
+              }`}
+            >
+              {s.destructive && !s.manual && <div className="font-sans text-[10px] text-destructive">{s.note}</div>}
+              <span className={s.manual ? "text-warning" : "text-foreground/90"}>{s.sql}</span>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+function ColumnRow({ diff }: { diff: ColumnDiff }) {
+  const changed = new Set(diff.changes.map(c => c.field));
+  return (
+    <>
+      <ColumnCell column={diff.before} kind={diff.kind} changed={changed} />
+      <ColumnCell column={diff.after} kind={diff.kind} changed={changed} last />
+    </>
+  );
+}
+
+function ColumnCell({ column, kind, changed, last }: { column?: ColumnInfo; kind: ChangeKind; changed: Set<string>; last?: boolean }) {
+  const style = KIND_STYLE[kind];
+  const border = `border-b border-border/10 ${last ? "" : "border-r"}`;
+  if (!column) return <div className={`px-4 py-1.5 ${border}`} />;
+  const mark = (field: string) => (changed.has(field) ? `${style.text} font-semibold` : "text-muted-foreground");
+  return (
+    <div className={`flex items-center gap-2 px-4 py-1.5 ${border} ${kind === "changed" ? "" : style.bg}`}>
+      <span className="font-medium text-foreground/90">{column.name}</span>
+      <span className={`font-mono text-[10px] ${mark("type")}`}>{column.rawType}</span>
+      <span className={`text-[10px] ${mark("nullable")}`}>{column.isNullable ? "NULL" : "NOT NULL"}</span>
+      {column.defaultValue && (
+        <span className={`ml-auto font-mono text-[10px] truncate max-w-[180px] ${mark("default")}`} title={column.defaultValue}>
+          = {column.defaultValue}
+        </span>
+      )}
+      {!column.defaultValue && changed.has("default") && <span className={`ml-auto text-[10px] ${mark("default")}`}>no default</span>}
+    </div>
+  );
+}
+
+function ForeignKeyRow({ diff }: { diff: ForeignKeyDiff }) {
+  const style = KIND_STYLE[diff.kind];
+  const cell = (fk: ForeignKey | undefined, last: boolean) => (
+    <div className={`flex items-center gap-2 px-4 py-1.5 border-b border-border/10 ${last ? "" : "border-r"} ${fk ? style.bg : ""}`}>
+      {fk && (
+        <>
+          <Link2 className="h-3 w-3 text-info shrink-0" />
+          <span className="font-mono text-[10px] text-foreground/90">{formatFkColumns(fk)}</span>
+          <span className="text-[10px] text-muted-foreground">{fk.targetTable}</span>
+          {fk.onDelete && <span className="text-[10px] text-muted-foreground">on delete {fk.onDelete.toLowerCase()}</span>}
+        </>
+      )}
+    </div>
+  );
+  return (
+    <>
+      {cell(diff.before, false)}
+      {cell(diff.after, true)}
+      {diff.changes.length > 0 && (
+        <div className={`col-span-2 px-4 pb-1.5 text-[10px] ${style.text}`}>{diff.changes.join(" · ")}</div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Loader2, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SchemaFlow } from "@/components/SchemaFlow";
+import { SchemaDiffView } from "@/components/views/SchemaDiffView";
+import { listSnapshots, type SchemaSnapshot } from "@/lib/schema-history";
+import { getDataKey } from "@/lib/data-key";
+import { schemaQueryKey } from "@/lib/schema-cache";
+import { diffSchemas, diffStatus, overlaySchema } from "@/lib/schema-diff";
+import type { ProjectConnection, TableInfo } from "@/lib/schema-types";
+
+interface SchemaHistoryViewProps {
+  connection: ProjectConnection;
+  searchQuery: string;
+  onClose: () => void;
+  onTableClick?: (table: TableInfo) => void;
+}
+
+const PLAYBACK_MS = 1500;
+
+const snapshotLabel = (s: SchemaSnapshot) => format(s.takenAt, "MMM d, yyyy HH:mm");
+
+export function SchemaHistoryView({ connection, searchQuery, onClose, onTableClick }: SchemaHistoryViewProps) {
+  // Under the connection's schema key so locking drops this decrypted copy; on disk it stays encrypted
+  const { data: snapshots, isLoading } = useQuery({
+    queryKey: [...schemaQueryKey(connection.id), "history"],
+    queryFn: () => listSnapshots(connection.id),
+    staleTime: 0,
+  });
+  const [mode, setMode] = useState<"timeline" | "compare">("timeline");
+  const [position, setPosition] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState<number | null>(null);
+
+  const count = snapshots?.length ?? 0;
+  const current = position ?? count - 1;
+  const compareTo = toIndex ?? count - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setPosition(p => {
+        const next = (p ?? 0) + 1;
+        if (next >= count - 1) setPlaying(false);
+        return Math.min(next, count - 1);
+      });
+    }, PLAYBACK_MS);
+    return () => clearInterval(timer);
+  }, [playing, count]);
+
+  // Each step of the timeline is drawn as a diff against the step before it
+  const frame = useMemo(() => {
+    if (!snapshots || count === 0) return null;
+    const snapshot = snapshots[current];
+    if (current === 0) return { snapshot, schema: snapshot.schema, status: undefined, changes: 0 };
+    const previous = snapshots[current - 1].schema;
+    const diff = diffSchemas(previous, snapshot.schema);
+    return {
+      snapshot,
+      schema: overlaySchema(previous, snapshot.schema, diff),
+      status: diffStatus(diff),
+      changes: diff.tables.length,
+    };
+  }, [snapshots, count, current]);
+
+  const startPlayback = () => {
+    if (current >= count - 1) setPosition(0);
+    setPlaying(true);
+  };
+
+  const header = (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-border/50 bg-card/30 text-xs">
+      <History className="h-3.5 w-3.5 text-primary" />
+      <span className="font-medium text-foreground">{connection.name}</span>
+      <span className="text-muted-foreground">{count} snapshot{count === 1 ? "" : "s"}</span>
+      <Tabs value={mode} onValueChange={v => { setMode(v as "timeline" | "compare"); setPlaying(false); }} className="ml-auto">
+        <TabsList className="h-7">
+          <TabsTrigger value="timeline" className="text-xs h-5">Timeline</TabsTrigger>
+          <TabsTrigger value="compare" className="text-xs h-5" disabled={count < 2}>Compare</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6" title="Close history">
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+
+  if (isLoading || !snapshots) {
+    return (
+      <div className="flex h-full flex-col">
+        {header}
+        <div className="flex flex-1 items-center justify-center text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!frame) {
+    return (
+      <div className="flex h-full flex-col">
+        {header}
+        <p className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+          {getDataKey()
+            ? "No snapshots yet. One is recorded whenever this connection's schema is fetched and has changed."
+            : "Schema history is only kept for a vault remembered on this device."}
+        </p>
+      </div>
+    );
+  }
+
+  if (mode === "compare" && count >= 2) {
+    const pick = (value: number, onChange: (i: number) => void) => (
+      <Select value={String(value)} onValueChange={v => onChange(Number(v))}>
+        <SelectTrigger className="h-7 w-[190px] text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {snapshots.map((s, i) => (
+            <SelectItem key={s.takenAt} value={String(i)} className="text-xs">{snapshotLabel(s)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+    return (
+      <div className="flex h-full flex-col">
+        {header}
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-border/30 text-xs text-muted-foreground">
+          From {pick(fromIndex, setFromIndex)} to {pick(compareTo, setToIndex)}
+        </div>
+        <div className="flex-1 min-h-0">
+          <SchemaDiffView
+            base={snapshots[fromIndex].schema}
+            target={snapshots[compareTo].schema}
+            baseName={snapshotLabel(snapshots[fromIndex])}
+            targetName={snapshotLabel(snapshots[compareTo])}
+            searchQuery={searchQuery}
+            onSwap={() => { setFromIndex(compareTo); setToIndex(fromIndex); }}
+            onClose={onClose}
+            onTableClick={onTableClick}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {header}
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-border/30 text-xs">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => (playing ? setPlaying(false) : startPlayback())}
+          disabled={count < 2}
+          className="h-7 w-7"
+        >
+          {playing ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+        </Button>
+        <Slider
+          value={[current]}
+          min={0}
+          max={Math.max(count - 1, 0)}
+          step={1}
+          disabled={count < 2}
+          onValueChange={([v]) => { setPlaying(false); setPosition(v); }}
+          className="flex-1 max-w-xl"
+        />
+        <span className="font-medium text-foreground">{snapshotLabel(frame.snapshot)}</span>
+        <span className="text-muted-foreground">
+          {current === 0 ? "first snapshot" : `${frame.changes} table${frame.changes === 1 ? "" : "s"} changed since the previous one`}
+        </span>
+      </div>
+      <div className="flex-1 min-h-0">
+        <SchemaFlow schema={frame.schema} viewMode="er-diagram" searchQuery={searchQuery} onTableClick={onTableClick} diff={frame.status} />
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,38 @@
 import { useState } from "react";
-import { Key, Link2, ChevronDown, ChevronRight } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { Key, Link2, ChevronDown, ChevronRight, Eye, ArrowDownAZ, ArrowDownWideNarrow } from "lucide-react";
+import type { SchemaData, TableInfo, FunctionInfo } from "@/lib/schema-types";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import { formatCount } from "@/lib/table-stats";
 
 interface SpreadsheetViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
-export function SpreadsheetView({ schema, searchQuery, onTableClick }: SpreadsheetViewProps) {
+export function SpreadsheetView({ schema, searchQuery, onTableClick, onFunctionClick }: SpreadsheetViewProps) {
   const [expandedTables, setExpandedTables] = useState<Set<string>>(
-    new Set(schema.tables.map(t => t.name))
+    new Set(schema.tables.map(t => t.id))
   );
+  const [sortBy, setSortBy] = useState<"name" | "rows">("name");
+  const hasCounts = schema.tables.some(t => t.rowCount !== undefined);
 
   const tables = schema.tables.filter(t =>
     !searchQuery || t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     t.columns.some(c => c.name.toLowerCase().includes(searchQuery.toLowerCase()))
   );
+  if (hasCounts && sortBy === "rows") {
+    tables.sort((a, b) => (b.rowCount ?? -1) - (a.rowCount ?? -1));
+  }
 
-  const toggle = (name: string) => {
+  const toggle = (id: string) => {
     setExpandedTables(prev => {
       const next = new Set(prev);
-      if (next.has(name)) next.delete(name);
-      else next.add(name);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
       return next;
     });
   };
@@ -31,18 +40,44 @@ export function SpreadsheetView({ schema, searchQuery, onTableClick }: Spreadshe
   return (
     <ScrollArea className="h-full w-full">
       <div className="p-6 space-y-4 max-w-[1200px] mx-auto">
+        {hasCounts && (
+          <div className="flex justify-end">
+            <button
+              className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              onClick={() => setSortBy(sortBy === "name" ? "rows" : "name")}
+            >
+              {sortBy === "name" ? <ArrowDownAZ className="h-3.5 w-3.5" /> : <ArrowDownWideNarrow className="h-3.5 w-3.5" />}
+              {sortBy === "name" ? "Sorted by name" : "Sorted by row count"}
+            </button>
+          </div>
+        )}
         {tables.map(table => {
-          const expanded = expandedTables.has(table.name);
+          const expanded = expandedTables.has(table.id);
           return (
-            <div key={table.name} className="rounded-lg border border-border/60 bg-card overflow-hidden">
+            <div
+              key={table.id}
+              className={`rounded-lg border bg-card overflow-hidden ${
+                table.kind === "view" ? "border-dashed border-success/40" : "border-border/60"
+              }`}
+            >
               {/* Table header */}
               <div
-                className="flex items-center gap-3 px-4 py-3 bg-primary/5 cursor-pointer hover:bg-primary/10 transition-colors"
-                onClick={() => toggle(table.name)}
+                className={`flex items-center gap-3 px-4 py-3 cursor-pointer transition-colors ${
+                  table.kind === "view" ? "bg-success/5 hover:bg-success/10" : "bg-primary/5 hover:bg-primary/10"
+                }`}
+                onClick={() => toggle(table.id)}
               >
                 {expanded ? <ChevronDown className="h-4 w-4 text-muted-foreground" /> : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                {table.kind === "view" && <Eye className="h-4 w-4 text-success" />}
                 <h3 className="font-semibold text-sm text-foreground">{table.name}</h3>
+                {table.kind === "view" && <span className="text-[10px] text-success italic">view</span>}
+                <SchemaBadge schema={table.schema} schemas={schema.schemas} />
                 <span className="text-[10px] text-muted-foreground ml-1">{table.columns.length} columns</span>
+                {table.rowCount !== undefined && (
+                  <span className="text-[10px] text-muted-foreground font-mono" title={`${table.rowCount.toLocaleString()} rows`}>
+                    · {formatCount(table.rowCount)} rows
+                  </span>
+                )}
                 <button
                   className="ml-auto text-xs text-primary hover:underline"
                   onClick={(e) => { e.stopPropagation(); onTableClick(table); }}
@@ -79,7 +114,7 @@ export function SpreadsheetView({ schema, searchQuery, onTableClick }: Spreadshe
                             {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-3 w-3 text-info shrink-0" />}
                             {col.name}
                           </td>
-                          <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{col.dataType}</td>
+                          <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{col.rawType}</td>
                           <td className="px-4 py-2 text-center">
                             {col.isNullable
                               ? <span className="text-success text-xs">Yes</span>
@@ -94,7 +129,9 @@ export function SpreadsheetView({ schema, searchQuery, onTableClick }: Spreadshe
                             {col.defaultValue || "—"}
                           </td>
                           <td className="px-4 py-2 text-xs text-muted-foreground">
-                            {col.references ? `${col.references.table}.${col.references.column}` : "—"}
+                            {col.references
+                              ? `${col.references.schema !== table.schema ? `${col.references.schema}.` : ""}${col.references.table}.${col.references.column}`
+                              : "—"}
                           </td>
                         </tr>
                       ))}
@@ -105,6 +142,7 @@ export function SpreadsheetView({ schema, searchQuery, onTableClick }: Spreadshe
             </div>
           );
         })}
+        <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
       </div>
     </ScrollArea>
   );
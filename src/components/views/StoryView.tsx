@@ -1,14 +1,17 @@
 import { useState, useMemo } from "react";
 import {
   ArrowRight, Table2, ChevronRight, ChevronDown, Link2, Database,
-  Sparkles, BookOpen, Key, ArrowDown, MessageSquare, Lightbulb, Layers,
+  Sparkles, BookOpen, Key, ArrowDown, MessageSquare, Lightbulb, Layers, Eye,
 } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { formatFkColumns, type SchemaData, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
 
 interface StoryViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 interface StoryChapter {
@@ -16,11 +19,11 @@ interface StoryChapter {
   narrative: string;
   insight: string;
   tables: TableInfo[];
-  relationships: { from: string; to: string; via: string; explanation: string }[];
+  relationships: { fromId: string; from: string; toId: string; to: string; via: string; explanation: string }[];
   rootTable: TableInfo;
 }
 
-function generateNarrative(tables: TableInfo[], rels: { from: string; to: string; via: string }[], rootTable: TableInfo): { narrative: string; insight: string } {
+function generateNarrative(tables: TableInfo[], rels: { toId: string; via: string }[], rootTable: TableInfo): { narrative: string; insight: string } {
   const totalCols = tables.reduce((a, t) => a + t.columns.length, 0);
   const fkCount = rels.length;
 
@@ -35,9 +38,9 @@ function generateNarrative(tables: TableInfo[], rels: { from: string; to: string
     };
   }
 
-  const leafTables = tables.filter(t => !rels.some(r => r.to === t.name));
+  const leafTables = tables.filter(t => !rels.some(r => r.toId === t.id));
   const hubTables = tables.filter(t => {
-    const asTarget = rels.filter(r => r.to === t.name).length;
+    const asTarget = rels.filter(r => r.toId === t.id).length;
     return asTarget >= 2;
   });
 
@@ -62,17 +65,17 @@ function explainRelationship(from: string, to: string, via: string): string {
   return `Data flows from "${from}" to "${to}" via the ${via} link.`;
 }
 
-export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps) {
+export function StoryView({ schema, searchQuery, onTableClick, onFunctionClick }: StoryViewProps) {
   const [activeChapter, setActiveChapter] = useState(0);
   const [expandedTable, setExpandedTable] = useState<string | null>(null);
   const [showAllCols, setShowAllCols] = useState<Set<string>>(new Set());
 
   const chapters = useMemo(() => {
     const adj: Record<string, Set<string>> = {};
-    schema.tables.forEach(t => { adj[t.name] = new Set(); });
+    schema.tables.forEach(t => { adj[t.id] = new Set(); });
     schema.foreignKeys.forEach(fk => {
-      adj[fk.sourceTable]?.add(fk.targetTable);
-      adj[fk.targetTable]?.add(fk.sourceTable);
+      adj[fk.sourceId]?.add(fk.targetId);
+      adj[fk.targetId]?.add(fk.sourceId);
     });
 
     const visited = new Set<string>();
@@ -90,29 +93,31 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
       }
       return cluster;
     };
-    schema.tables.forEach(t => { if (!visited.has(t.name)) clusters.push(bfs(t.name)); });
+    schema.tables.forEach(t => { if (!visited.has(t.id)) clusters.push(bfs(t.id)); });
     clusters.sort((a, b) => b.length - a.length);
 
-    const tableMap = Object.fromEntries(schema.tables.map(t => [t.name, t]));
+    const tableMap = Object.fromEntries(schema.tables.map(t => [t.id, t]));
 
     return clusters.map((cluster, i) => {
       const tables = cluster.map(n => tableMap[n]).filter(Boolean);
       const rels = schema.foreignKeys
-        .filter(fk => cluster.includes(fk.sourceTable) && cluster.includes(fk.targetTable))
+        .filter(fk => cluster.includes(fk.sourceId) && cluster.includes(fk.targetId))
         .map(fk => ({
+          fromId: fk.sourceId,
           from: fk.sourceTable,
+          toId: fk.targetId,
           to: fk.targetTable,
-          via: `${fk.sourceColumn} → ${fk.targetColumn}`,
-          explanation: explainRelationship(fk.sourceTable, fk.targetTable, `${fk.sourceColumn} → ${fk.targetColumn}`),
+          via: formatFkColumns(fk),
+          explanation: explainRelationship(fk.sourceTable, fk.targetTable, formatFkColumns(fk)),
         }));
 
       const rootTables = tables.filter(t =>
-        !schema.foreignKeys.some(fk => fk.sourceTable === t.name && cluster.includes(fk.targetTable))
+        !schema.foreignKeys.some(fk => fk.sourceId === t.id && cluster.includes(fk.targetId))
       );
       const rootTable = rootTables[0] || tables[0];
 
       const title = cluster.length === 1
-        ? `The "${cluster[0]}" Entity`
+        ? `The "${rootTable.name}" Entity`
         : `The ${rootTable.name} Ecosystem`;
 
       const { narrative, insight } = generateNarrative(tables, rels, rootTable);
@@ -121,6 +126,8 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
     });
   }, [schema]);
 
+  const tableById = useMemo(() => new Map(schema.tables.map(t => [t.id, t])), [schema.tables]);
+
   const filtered = chapters.filter(ch =>
     !searchQuery || ch.tables.some(t => t.name.toLowerCase().includes(searchQuery.toLowerCase()))
   );
@@ -215,11 +222,12 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
                   <div key={i} className="group">
                     <div className="flex items-center gap-3 p-3 rounded-xl border border-border/30 bg-card/50 hover:border-primary/30 hover:bg-primary/5 transition-all">
                       <button
-                        onClick={() => { const t = schema.tables.find(t => t.name === rel.from); if (t) onTableClick(t); }}
+                        onClick={() => { const t = tableById.get(rel.fromId); if (t) onTableClick(t); }}
                         className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/10 hover:bg-primary/20 transition-colors shrink-0"
                       >
                         <Table2 className="h-3.5 w-3.5 text-primary" />
                         <span className="text-xs font-semibold text-foreground">{rel.from}</span>
+                        <SchemaBadge schema={tableById.get(rel.fromId)?.schema ?? ""} schemas={schema.schemas} />
                       </button>
 
                       <div className="flex items-center gap-1 flex-1 min-w-0">
@@ -232,11 +240,12 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
                       </div>
 
                       <button
-                        onClick={() => { const t = schema.tables.find(t => t.name === rel.to); if (t) onTableClick(t); }}
+                        onClick={() => { const t = tableById.get(rel.toId); if (t) onTableClick(t); }}
                         className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-info/10 hover:bg-info/20 transition-colors shrink-0"
                       >
                         <Table2 className="h-3.5 w-3.5 text-info" />
                         <span className="text-xs font-semibold text-foreground">{rel.to}</span>
+                        <SchemaBadge schema={tableById.get(rel.toId)?.schema ?? ""} schemas={schema.schemas} />
                       </button>
                     </div>
                     <p className="text-[10px] text-muted-foreground/70 mt-1.5 ml-3 italic">{rel.explanation}</p>
@@ -253,39 +262,42 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
             </h3>
             <div className="space-y-3">
               {current.tables.map(table => {
-                const isExpanded = expandedTable === table.name;
+                const isExpanded = expandedTable === table.id;
                 const pks = table.columns.filter(c => c.isPrimaryKey);
                 const fks = table.columns.filter(c => c.isForeignKey);
                 const regular = table.columns.filter(c => !c.isPrimaryKey && !c.isForeignKey);
-                const isRoot = table.name === current.rootTable.name;
-                const inRels = current.relationships.filter(r => r.to === table.name).length;
-                const outRels = current.relationships.filter(r => r.from === table.name).length;
-                const allCols = showAllCols.has(table.name);
+                const isRoot = table.id === current.rootTable.id;
+                const isView = table.kind === "view";
+                const inRels = current.relationships.filter(r => r.toId === table.id).length;
+                const outRels = current.relationships.filter(r => r.fromId === table.id).length;
+                const allCols = showAllCols.has(table.id);
 
                 return (
                   <div
-                    key={table.name}
+                    key={table.id}
                     className={`rounded-xl border transition-all ${
                       isExpanded
                         ? "border-primary/40 bg-primary/5 shadow-lg shadow-primary/5"
                         : isRoot
                         ? "border-primary/20 bg-card/80"
                         : "border-border/30 bg-card/50 hover:border-border/60"
-                    }`}
+                    } ${isView ? "border-dashed" : ""}`}
                   >
                     <button
                       className="flex items-center gap-3 w-full p-4 text-left"
-                      onClick={() => setExpandedTable(isExpanded ? null : table.name)}
+                      onClick={() => setExpandedTable(isExpanded ? null : table.id)}
                     >
                       <div className={`flex h-9 w-9 items-center justify-center rounded-lg shrink-0 ${
-                        isRoot ? "bg-primary/20 text-primary" : "bg-secondary/50 text-muted-foreground"
+                        isView ? "bg-success/15 text-success" : isRoot ? "bg-primary/20 text-primary" : "bg-secondary/50 text-muted-foreground"
                       }`}>
-                        <Database className="h-4 w-4" />
+                        {isView ? <Eye className="h-4 w-4" /> : <Database className="h-4 w-4" />}
                       </div>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <p className="text-sm font-semibold text-foreground">{table.name}</p>
                           {isRoot && <span className="text-[9px] px-1.5 py-0.5 rounded bg-primary/15 text-primary font-medium">root</span>}
+                          {isView && <span className="text-[9px] px-1.5 py-0.5 rounded bg-success/15 text-success font-medium">view</span>}
+                          <SchemaBadge schema={table.schema} schemas={schema.schemas} />
                         </div>
                         <div className="flex items-center gap-3 mt-0.5 text-[10px] text-muted-foreground">
                           <span>{table.columns.length} columns</span>
@@ -309,7 +321,7 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
                             {pks.map(col => (
                               <div key={col.name} className="flex items-center gap-2 text-xs py-0.5 ml-4">
                                 <span className="text-foreground font-medium">{col.name}</span>
-                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.dataType}</span>
+                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.rawType}</span>
                               </div>
                             ))}
                           </div>
@@ -325,7 +337,7 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
                                 {col.references && (
                                   <span className="text-[10px] text-info/60">→ {col.references.table}.{col.references.column}</span>
                                 )}
-                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.dataType}</span>
+                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.rawType}</span>
                               </div>
                             ))}
                           </div>
@@ -336,14 +348,14 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
                             {(allCols ? regular : regular.slice(0, 5)).map(col => (
                               <div key={col.name} className="flex items-center gap-2 text-xs py-0.5 ml-4">
                                 <span className="text-foreground/70">{col.name}</span>
-                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.dataType}</span>
+                                <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">{col.rawType}</span>
                                 {col.isNullable && <span className="text-[9px] text-muted-foreground/40">null</span>}
                               </div>
                             ))}
                             {regular.length > 5 && !allCols && (
                               <button
                                 className="text-[10px] text-primary hover:text-primary/80 ml-4 mt-1"
-                                onClick={(e) => { e.stopPropagation(); toggleShowAll(table.name); }}
+                                onClick={(e) => { e.stopPropagation(); toggleShowAll(table.id); }}
                               >
                                 Show {regular.length - 5} more →
                               </button>
@@ -385,6 +397,10 @@ export function StoryView({ schema, searchQuery, onTableClick }: StoryViewProps)
               <p className="text-[10px] text-muted-foreground">Foreign Keys</p>
             </div>
           </div>
+
+          <div className="mt-8">
+            <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
+          </div>
         </div>
       </div>
     </div>
@@ -1,12 +1,15 @@
 import { useMemo, useState, useCallback } from "react";
-import { Key, Link2, ExternalLink } from "lucide-react";
+import { Key, Link2, ExternalLink, Eye } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
+import type { SchemaData, TableInfo, FunctionInfo } from "@/lib/schema-types";
 
 interface SwimlaneViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick?: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
 const LANE_COLORS = [
@@ -19,7 +22,7 @@ const LANE_COLORS = [
   { bg: "hsl(180 50% 50% / 0.08)", border: "hsl(180 50% 50% / 0.3)", header: "hsl(180 50% 50% / 0.15)", text: "hsl(180, 50%, 50%)", dot: "hsl(180, 50%, 50%)" },
 ];
 
-export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneViewProps) {
+export function SwimlaneView({ schema, searchQuery, onTableClick, onFunctionClick }: SwimlaneViewProps) {
   const [hoveredTable, setHoveredTable] = useState<string | null>(null);
 
   const lanes = useMemo(() => {
@@ -36,16 +39,16 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
     };
     const union = (a: string, b: string) => { parent[find(a)] = find(b); };
 
-    tables.forEach(t => { parent[t.name] = t.name; });
+    tables.forEach(t => { parent[t.id] = t.id; });
     schema.foreignKeys.forEach(fk => {
-      if (tables.find(t => t.name === fk.sourceTable) && tables.find(t => t.name === fk.targetTable)) {
-        union(fk.sourceTable, fk.targetTable);
+      if (tables.find(t => t.id === fk.sourceId) && tables.find(t => t.id === fk.targetId)) {
+        union(fk.sourceId, fk.targetId);
       }
     });
 
     const groups: Record<string, TableInfo[]> = {};
     tables.forEach(t => {
-      const root = find(t.name);
+      const root = find(t.id);
       if (!groups[root]) groups[root] = [];
       groups[root].push(t);
     });
@@ -62,8 +65,8 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
   }, [schema, searchQuery]);
 
   // Get relationships for a table
-  const getRelationships = useCallback((tableName: string) => {
-    return schema.foreignKeys.filter(fk => fk.sourceTable === tableName || fk.targetTable === tableName);
+  const getRelationships = useCallback((id: string) => {
+    return schema.foreignKeys.filter(fk => fk.sourceId === id || fk.targetId === id);
   }, [schema.foreignKeys]);
 
   return (
@@ -109,19 +112,21 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
                   style={{ backgroundColor: lane.color.bg }}
                 >
                   {lane.tables.map(table => {
-                    const isHovered = hoveredTable === table.name;
-                    const rels = getRelationships(table.name);
+                    const isHovered = hoveredTable === table.id;
+                    const rels = getRelationships(table.id);
                     const cols = table.columns.slice(0, 6);
 
                     return (
                       <div
-                        key={table.name}
-                        className="rounded-lg border bg-card shadow-sm transition-all duration-200 cursor-pointer w-[240px]"
+                        key={table.id}
+                        className={`rounded-lg border bg-card shadow-sm transition-all duration-200 cursor-pointer w-[240px] ${
+                          table.kind === "view" ? "border-dashed" : ""
+                        }`}
                         style={{
                           borderColor: isHovered ? lane.color.dot : "hsl(var(--border) / 0.4)",
                           boxShadow: isHovered ? `0 0 12px ${lane.color.dot}30` : undefined,
                         }}
-                        onMouseEnter={() => setHoveredTable(table.name)}
+                        onMouseEnter={() => setHoveredTable(table.id)}
                         onMouseLeave={() => setHoveredTable(null)}
                         onClick={() => onTableClick?.(table)}
                       >
@@ -130,7 +135,11 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
                           className="px-3 py-2.5 border-b rounded-t-lg flex items-center justify-between"
                           style={{ borderColor: "hsl(var(--border) / 0.3)", backgroundColor: lane.color.header }}
                         >
-                          <span className="text-xs font-semibold text-foreground">{table.name}</span>
+                          <span className="text-xs font-semibold text-foreground flex items-center gap-1.5">
+                            {table.kind === "view" && <Eye className="h-3 w-3 text-success" />}
+                            {table.name}
+                            <SchemaBadge schema={table.schema} schemas={schema.schemas} />
+                          </span>
                           <span
                             className="text-[10px] font-medium px-1.5 py-0.5 rounded-full"
                             style={{ backgroundColor: lane.color.dot + "20", color: lane.color.text }}
@@ -147,7 +156,7 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
                               {col.isForeignKey && !col.isPrimaryKey && <Link2 className="h-2.5 w-2.5 text-info shrink-0" />}
                               {!col.isPrimaryKey && !col.isForeignKey && <span className="w-2.5 shrink-0" />}
                               <span className="text-foreground/80 truncate">{col.name}</span>
-                              <span className="ml-auto font-mono text-muted-foreground/50 shrink-0">{col.dataType}</span>
+                              <span className="ml-auto font-mono text-muted-foreground/50 shrink-0">{col.rawType}</span>
                             </div>
                           ))}
                           {table.columns.length > 6 && (
@@ -172,6 +181,10 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
             </div>
           ))}
         </div>
+
+        <div className="pt-6">
+          <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
+        </div>
       </div>
     </ScrollArea>
   );
@@ -180,6 +193,7 @@ export function SwimlaneView({ schema, searchQuery, onTableClick }: SwimlaneView
 function getLaneName(root: string, members: TableInfo[], schema: SchemaData): string {
   // Try to find a meaningful group name
   const names = members.map(m => m.name.toLowerCase());
+  const rootName = schema.schemas.length > 1 ? root : members.find(m => m.id === root)?.name ?? root;
   
   // Common domain patterns
   const patterns = [
@@ -199,6 +213,6 @@ function getLaneName(root: string, members: TableInfo[], schema: SchemaData): st
   }
 
   // Fall back to the root table name as the domain
-  if (members.length === 1) return root;
-  return `${root} Domain`;
+  if (members.length === 1) return rootName;
+  return `${rootName} Domain`;
 }
@@ -1,54 +1,37 @@
 import { useState, useMemo } from "react";
-import { Table2, Key, Link2, ChevronRight, ChevronDown, ArrowDown, Layers, Zap } from "lucide-react";
-import type { SchemaData, TableInfo } from "@/lib/schema-types";
+import { Table2, Key, Link2, ChevronRight, ChevronDown, ArrowDown, Layers, Zap, Eye } from "lucide-react";
+import { dependencyLevels, type SchemaData, type TableInfo, type FunctionInfo } from "@/lib/schema-types";
+import { FunctionList } from "@/components/FunctionList";
+import { SchemaBadge } from "@/components/SchemaBadge";
 
 interface TimelineViewProps {
   schema: SchemaData;
   searchQuery: string;
   onTableClick: (table: TableInfo) => void;
+  onFunctionClick: (fn: FunctionInfo) => void;
 }
 
-export function TimelineView({ schema, searchQuery, onTableClick }: TimelineViewProps) {
+export function TimelineView({ schema, searchQuery, onTableClick, onFunctionClick }: TimelineViewProps) {
   const [expandedLevel, setExpandedLevel] = useState<number | null>(null);
   const [hoveredTable, setHoveredTable] = useState<string | null>(null);
 
-  const levels = useMemo(() => {
-    const deps: Record<string, Set<string>> = {};
-    schema.tables.forEach(t => { deps[t.name] = new Set(); });
-    schema.foreignKeys.forEach(fk => {
-      if (deps[fk.sourceTable]) deps[fk.sourceTable].add(fk.targetTable);
-    });
-
-    const levels: TableInfo[][] = [];
-    const placed = new Set<string>();
-
-    while (placed.size < schema.tables.length) {
-      const level: TableInfo[] = [];
-      schema.tables.forEach(t => {
-        if (placed.has(t.name)) return;
-        const unmet = [...(deps[t.name] || [])].filter(d => !placed.has(d));
-        if (unmet.length === 0) level.push(t);
-      });
-      if (level.length === 0) {
-        schema.tables.forEach(t => { if (!placed.has(t.name)) level.push(t); });
-      }
-      level.forEach(t => placed.add(t.name));
-      levels.push(level);
-    }
-    return levels;
-  }, [schema]);
+  const levels = useMemo(() => dependencyLevels(schema), [schema]);
 
   // Build dependency info per table
   const tableDeps = useMemo(() => {
     const deps: Record<string, { dependsOn: string[]; dependedBy: string[] }> = {};
-    schema.tables.forEach(t => { deps[t.name] = { dependsOn: [], dependedBy: [] }; });
+    schema.tables.forEach(t => { deps[t.id] = { dependsOn: [], dependedBy: [] }; });
     schema.foreignKeys.forEach(fk => {
-      deps[fk.sourceTable]?.dependsOn.push(fk.targetTable);
-      deps[fk.targetTable]?.dependedBy.push(fk.sourceTable);
+      deps[fk.sourceId]?.dependsOn.push(fk.targetId);
+      deps[fk.targetId]?.dependedBy.push(fk.sourceId);
     });
     return deps;
   }, [schema]);
 
+  // Qualify names only when they could be ambiguous
+  const tableName = (id: string) =>
+    schema.schemas.length > 1 ? id : schema.tables.find(t => t.id === id)?.name ?? id;
+
   const query = searchQuery.toLowerCase();
   const levelColors = [
     "border-primary/50 bg-primary/5",
@@ -131,30 +114,33 @@ export function TimelineView({ schema, searchQuery, onTableClick }: TimelineView
                   {/* Table cards */}
                   <div className="ml-14 grid grid-cols-2 lg:grid-cols-3 gap-2">
                     {filtered.map(table => {
-                      const deps = tableDeps[table.name];
-                      const isHovered = hoveredTable === table.name;
+                      const deps = tableDeps[table.id];
+                      const isHovered = hoveredTable === table.id;
                       const isConnected = highlightedDeps &&
-                        (highlightedDeps.dependsOn.includes(table.name) || highlightedDeps.dependedBy.includes(table.name));
+                        (highlightedDeps.dependsOn.includes(table.id) || highlightedDeps.dependedBy.includes(table.id));
                       const pks = table.columns.filter(c => c.isPrimaryKey);
                       const fks = table.columns.filter(c => c.isForeignKey);
 
                       return (
                         <button
-                          key={table.name}
+                          key={table.id}
                           className={`text-left p-3 rounded-lg border transition-all duration-200 ${
                             isHovered
                               ? "border-primary/60 bg-primary/10 shadow-lg shadow-primary/5 scale-[1.02]"
                               : isConnected
                               ? "border-info/50 bg-info/5 shadow-md"
                               : "border-border/30 bg-card/50 hover:border-border/60"
-                          }`}
+                          } ${table.kind === "view" ? "border-dashed" : ""}`}
                           onClick={() => onTableClick(table)}
-                          onMouseEnter={() => setHoveredTable(table.name)}
+                          onMouseEnter={() => setHoveredTable(table.id)}
                           onMouseLeave={() => setHoveredTable(null)}
                         >
                           <div className="flex items-center gap-2 mb-1.5">
-                            <Table2 className={`h-3.5 w-3.5 ${isConnected ? "text-info" : "text-primary"}`} />
+                            {table.kind === "view"
+                              ? <Eye className={`h-3.5 w-3.5 ${isConnected ? "text-info" : "text-success"}`} />
+                              : <Table2 className={`h-3.5 w-3.5 ${isConnected ? "text-info" : "text-primary"}`} />}
                             <span className="text-xs font-semibold text-foreground truncate">{table.name}</span>
+                            <SchemaBadge schema={table.schema} schemas={schema.schemas} className="ml-auto" />
                           </div>
                           <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
                             <span>{table.columns.length} cols</span>
@@ -167,12 +153,12 @@ export function TimelineView({ schema, searchQuery, onTableClick }: TimelineView
                             <div className="mt-2 pt-2 border-t border-border/20 space-y-1">
                               {deps?.dependsOn.length > 0 && (
                                 <p className="text-[9px] text-muted-foreground">
-                                  <span className="text-info">↑</span> {deps.dependsOn.join(", ")}
+                                  <span className="text-info">↑</span> {deps.dependsOn.map(tableName).join(", ")}
                                 </p>
                               )}
                               {deps?.dependedBy.length > 0 && (
                                 <p className="text-[9px] text-muted-foreground">
-                                  <span className="text-warning">↓</span> {deps.dependedBy.join(", ")}
+                                  <span className="text-warning">↓</span> {deps.dependedBy.map(tableName).join(", ")}
                                 </p>
                               )}
                             </div>
@@ -192,13 +178,15 @@ export function TimelineView({ schema, searchQuery, onTableClick }: TimelineView
               );
             })}
           </div>
+
+          <FunctionList functions={schema.functions} searchQuery={searchQuery} onFunctionClick={onFunctionClick} />
         </div>
       </div>
 
       {/* Hover detail sidebar */}
       {hoveredTable && (
         <div className="w-56 border-l border-border/30 bg-card/30 p-4 shrink-0 animate-in slide-in-from-right-2 duration-200">
-          <h3 className="text-xs font-semibold text-foreground mb-3">{hoveredTable}</h3>
+          <h3 className="text-xs font-semibold text-foreground mb-3">{tableName(hoveredTable)}</h3>
 
           {highlightedDeps && (
             <>
@@ -208,7 +196,7 @@ export function TimelineView({ schema, searchQuery, onTableClick }: TimelineView
                   {highlightedDeps.dependsOn.map(d => (
                     <div key={d} className="text-[10px] text-muted-foreground py-0.5 flex items-center gap-1.5">
                       <span className="w-1 h-1 rounded-full bg-info" />
-                      {d}
+                      {tableName(d)}
                     </div>
                   ))}
                 </div>
@@ -219,7 +207,7 @@ export function TimelineView({ schema, searchQuery, onTableClick }: TimelineView
                   {highlightedDeps.dependedBy.map(d => (
                     <div key={d} className="text-[10px] text-muted-foreground py-0.5 flex items-center gap-1.5">
                       <span className="w-1 h-1 rounded-full bg-warning" />
-                      {d}
+                      {tableName(d)}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { probeConnection, type ConnectionHealth } from "@/lib/connection-health";
+import type { ProjectConnection } from "@/lib/schema-types";
+
+/**
+ * Health of every connection in `connections`, probed together whenever
+ * `enabled` turns on or the saved list changes, and again on `checkAll`.
+ * Results fill in as each probe returns.
+ */
+export function useConnectionHealth(connections: ProjectConnection[], enabled: boolean) {
+  const [health, setHealth] = useState<Record<string, ConnectionHealth>>({});
+  const [checking, setChecking] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const connectionsRef = useRef(connections);
+  connectionsRef.current = connections;
+
+  const checkAll = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setChecking(true);
+    await Promise.all(connectionsRef.current.map(async conn => {
+      try {
+        const result = await probeConnection(conn.url, conn.anonKey, { signal: controller.signal });
+        setHealth(prev => ({ ...prev, [conn.id]: result }));
+      } catch {
+        /* aborted */
+      }
+    }));
+    if (!controller.signal.aborted) setChecking(false);
+  }, []);
+
+  const listKey = connections.map(c => `${c.id}:${c.url}:${c.anonKey}`).join("|");
+  useEffect(() => {
+    if (!enabled || !listKey) return;
+    checkAll();
+    return () => {
+      controllerRef.current?.abort();
+      setChecking(false);
+    };
+  }, [enabled, listKey, checkAll]);
+
+  return { health, checking, checkAll };
+}
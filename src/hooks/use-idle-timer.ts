@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"] as const;
+
+/**
+ * Call `onIdle` once the user has done nothing for `timeoutMs`. Elapsed time
+ * is measured by the wall clock, so a tab whose timers were throttled in the
+ * background still fires as soon as it is looked at again. `timeoutMs: null`
+ * disables the timer.
+ */
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!timeoutMs) return;
+
+    let lastActivity = Date.now();
+    let timer: ReturnType<typeof setTimeout>;
+    const markActive = () => { lastActivity = Date.now(); };
+    const check = () => {
+      clearTimeout(timer);
+      const remaining = lastActivity + timeoutMs - Date.now();
+      if (remaining <= 0) onIdleRef.current();
+      else timer = setTimeout(check, remaining);
+    };
+    const onVisibility = () => { if (document.visibilityState === "visible") check(); };
+
+    timer = setTimeout(check, timeoutMs);
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, markActive, { passive: true, capture: true }));
+    document.addEventListener("visibilitychange", onVisibility);
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, markActive, { capture: true }));
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [timeoutMs]);
+}
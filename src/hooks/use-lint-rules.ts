@@ -0,0 +1,28 @@
+import { useCallback, useState } from "react";
+
+const DISABLED_RULES_KEY = "schema-viz-lint-disabled";
+
+function readDisabled(): Set<string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DISABLED_RULES_KEY) ?? "[]");
+    return new Set(Array.isArray(stored) ? stored.filter((id): id is string => typeof id === "string") : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/** Which lint rules are switched off, remembered per browser */
+export function useLintRules() {
+  const [disabled, setDisabled] = useState<Set<string>>(readDisabled);
+
+  const toggleRule = useCallback((ruleId: string) => {
+    setDisabled(prev => {
+      const next = new Set(prev);
+      if (next.has(ruleId)) next.delete(ruleId); else next.add(ruleId);
+      localStorage.setItem(DISABLED_RULES_KEY, JSON.stringify([...next]));
+      return next;
+    });
+  }, []);
+
+  return { disabled, toggleRule };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { fetchRowCounts, type CountMode } from "@/lib/table-stats";
+import type { ProjectConnection, TableInfo } from "@/lib/schema-types";
+
+/**
+ * Row counts for `tables`, fetched in the background once a schema is loaded.
+ * A new schema, connection or mode cancels the pass in flight. `mode: null`
+ * turns counting off; imported files have nothing to count. With
+ * `accessToken` the rows are counted as that signed-in user.
+ */
+export function useRowCounts(tables: TableInfo[], connection: ProjectConnection, mode: CountMode | null, accessToken?: string) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const { url, anonKey } = connection;
+
+  useEffect(() => {
+    setCounts({});
+    if (!mode || !url || tables.length === 0) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    // Views can be arbitrarily expensive to count
+    fetchRowCounts(url, anonKey, tables.filter(t => t.kind === "table"), {
+      mode,
+      accessToken,
+      signal: controller.signal,
+      onCount: (id, count) => setCounts(prev => ({ ...prev, [id]: count })),
+    })
+      .catch(() => { /* aborted */ })
+      .finally(() => { if (!controller.signal.aborted) setLoading(false); });
+
+    return () => {
+      controller.abort();
+      setLoading(false);
+    };
+  }, [tables, url, anonKey, mode, accessToken]);
+
+  return { counts, loading };
+}
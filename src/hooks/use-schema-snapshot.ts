@@ -0,0 +1,30 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { schemaQueryOptions } from "@/lib/schema-cache";
+import { schemaFingerprint } from "@/lib/schema-diff";
+import type { ProjectConnection, SchemaData } from "@/lib/schema-types";
+
+/**
+ * Keep the cached snapshot for `connection` fresh in the background and say
+ * whether it has moved on from the schema on screen (`displayed`). Imported
+ * files have nothing to refetch.
+ */
+export function useSchemaSnapshot(connection: ProjectConnection, displayed: SchemaData) {
+  const query = useQuery({
+    ...schemaQueryOptions(connection),
+    enabled: connection.source !== "file",
+  });
+
+  const displayedFingerprint = useMemo(() => schemaFingerprint(displayed), [displayed]);
+  const latestFingerprint = useMemo(() => (query.data ? schemaFingerprint(query.data) : null), [query.data]);
+
+  return {
+    latest: query.data,
+    /** When the cached snapshot was last fetched; 0 before the first fetch */
+    fetchedAt: query.dataUpdatedAt,
+    refreshing: query.isFetching,
+    error: query.error,
+    changed: latestFingerprint !== null && latestFingerprint !== displayedFingerprint,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,249 @@
+import { diffSchemas, type ColumnDiff, type SchemaDiff, type TableDiff } from "./schema-diff";
+import { canonicalTypeName, typeModifiers } from "./pg-types";
+import type { ColumnInfo, EnumInfo, FunctionInfo, SchemaData, TableInfo } from "./schema-types";
+
+// How a schema change lands on PostgREST clients built against `base` that
+// keep running once `target` is deployed — a pinned mobile build, say.
+// "breaking" means requests that work today start failing or come back in a
+// shape the client doesn't expect; "warning" means they keep working but can
+// surprise strict decoders; "safe" changes are invisible to old clients.
+
+export type Severity = "breaking" | "warning" | "safe";
+
+export const SEVERITIES: Severity[] = ["breaking", "warning", "safe"];
+
+export interface CompatFinding {
+  severity: Severity;
+  /** What changed: `public.orders`, `public.orders.total`, `rpc public.checkout` */
+  object: string;
+  /** The schema change itself */
+  change: string;
+  /** What an old client sees */
+  impact: string;
+}
+
+export interface CompatReport {
+  /** Breaking first, then warnings, then safe changes */
+  findings: CompatFinding[];
+  counts: Record<Severity, number>;
+}
+
+export function checkCompatibility(base: SchemaData, target: SchemaData, diff: SchemaDiff = diffSchemas(base, target)): CompatReport {
+  const findings: CompatFinding[] = [];
+  const push = (severity: Severity, object: string, change: string, impact: string) =>
+    findings.push({ severity, object, change, impact });
+
+  const renames = detectRenames(diff);
+  const renamed = new Set([...renames.keys(), ...renames.values()].map(t => t.id));
+  renames.forEach((to, from) => {
+    push("breaking", from.id, `renamed to ${to.id}`, `requests to /${from.name} return 404; the same columns now live at /${to.name}`);
+  });
+
+  diff.tables.forEach(t => {
+    if (renamed.has(t.id)) return;
+    const what = (t.after ?? t.before)!.kind;
+    if (t.kind === "added") {
+      push("safe", t.id, `${what} added`, "new endpoint; existing requests are unaffected");
+      return;
+    }
+    if (t.kind === "removed") {
+      push("breaking", t.id, `${what} dropped`, `requests to /${t.name} return 404`);
+      return;
+    }
+    t.columns.forEach(col => columnFindings(t, col).forEach(f => findings.push(f)));
+    relationshipFindings(t, target).forEach(f => findings.push(f));
+  });
+
+  functionFindings(base.functions, target.functions).forEach(f => findings.push(f));
+  enumFindings(base.enums, target.enums).forEach(f => findings.push(f));
+
+  findings.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) || a.object.localeCompare(b.object));
+  const counts = { breaking: 0, warning: 0, safe: 0 };
+  findings.forEach(f => counts[f.severity]++);
+  return { findings, counts };
+}
+
+function columnFindings(table: TableDiff, col: ColumnDiff): CompatFinding[] {
+  const object = `${table.id}.${col.name}`;
+  const findings: CompatFinding[] = [];
+  const push = (severity: Severity, change: string, impact: string) => findings.push({ severity, object, change, impact });
+
+  if (col.kind === "removed") {
+    push("breaking", "column dropped", `selects and filters naming ${col.name} fail; writes that include it are rejected`);
+    return findings;
+  }
+  const after = col.after!;
+  if (col.kind === "added") {
+    if (requiredOnInsert(after) && table.after!.kind === "table") {
+      push("breaking", "NOT NULL column added without a default", "inserts from clients that don't send it fail");
+    } else {
+      push("safe", "column added", "appears in select=* responses; old clients ignore it");
+    }
+    return findings;
+  }
+
+  const before = col.before!;
+  col.changes.forEach(change => {
+    if (change.field === "type") {
+      if (isWidening(before.rawType, after.rawType)) {
+        push("safe", `type widened ${change.before} → ${change.after}`, "every value an old client sends or reads still fits");
+      } else {
+        push("breaking", `type changed ${change.before} → ${change.after}`, "values may be rejected on write or decode differently on read");
+      }
+    } else if (change.field === "nullable") {
+      if (after.isNullable) {
+        push("warning", "now nullable", "responses can contain null where old clients never saw one");
+      } else if (requiredOnInsert(after)) {
+        push("breaking", "now NOT NULL without a default", "inserts that omit it, and writes that send null, fail");
+      } else {
+        push("warning", "now NOT NULL", "writes that send an explicit null fail");
+      }
+    } else {
+      push("safe", `default ${change.before} → ${change.after}`, "only affects rows inserted without a value");
+    }
+  });
+  return findings;
+}
+
+/** Embeds follow foreign keys; losing one, or gaining a second path, breaks `select=other(*)` */
+function relationshipFindings(table: TableDiff, target: SchemaData): CompatFinding[] {
+  return table.foreignKeys.map((fk): CompatFinding => {
+    const key = (fk.after ?? fk.before)!;
+    const object = `${table.id} → ${key.targetId}`;
+    if (fk.kind === "removed") {
+      return { severity: "breaking", object, change: "foreign key dropped", impact: `embedding ${key.targetTable} from ${table.name} fails` };
+    }
+    if (fk.kind === "changed") {
+      return { severity: "breaking", object, change: fk.changes.join("; "), impact: "embeds over this relationship return different rows or fail" };
+    }
+    const paths = target.foreignKeys.filter(other => other.sourceId === key.sourceId && other.targetId === key.targetId).length;
+    return paths > 1
+      ? { severity: "warning", object, change: "second foreign key to the same table", impact: `embedding ${key.targetTable} without a !hint becomes ambiguous and fails` }
+      : { severity: "safe", object, change: "foreign key added", impact: "a new embed becomes available" };
+  });
+}
+
+function functionFindings(before: FunctionInfo[], after: FunctionInfo[]): CompatFinding[] {
+  const key = (fn: FunctionInfo) => `${fn.schema}.${fn.name}`;
+  const afterByKey = new Map(after.map(fn => [key(fn), fn]));
+  const beforeKeys = new Set(before.map(key));
+  const findings: CompatFinding[] = [];
+
+  before.forEach(b => {
+    const object = `rpc ${key(b)}`;
+    const push = (severity: Severity, change: string, impact: string) => findings.push({ severity, object, change, impact });
+    const a = afterByKey.get(key(b));
+    if (!a) {
+      push("breaking", "function dropped", `calls to /rpc/${b.name} return 404`);
+      return;
+    }
+    const afterParams = new Map(a.parameters.map(p => [p.name, p]));
+    const beforeParams = new Set(b.parameters.map(p => p.name));
+    b.parameters.forEach(p => {
+      const next = afterParams.get(p.name);
+      if (!next) push("breaking", `parameter ${p.name} removed`, "calls that pass it no longer match the function");
+      else if (next.dataType !== p.dataType) push("breaking", `parameter ${p.name} ${p.dataType} → ${next.dataType}`, "arguments may be rejected or resolve to another overload");
+      else if (next.isRequired && !p.isRequired) push("breaking", `parameter ${p.name} now required`, "calls that omit it fail");
+    });
+    a.parameters.filter(p => !beforeParams.has(p.name)).forEach(p => {
+      if (p.isRequired) push("breaking", `required parameter ${p.name} added`, "calls from old clients don't send it and fail");
+      else push("safe", `optional parameter ${p.name} added`, "old calls still match");
+    });
+    if ((b.returnType ?? "") !== (a.returnType ?? "") || b.returnsSet !== a.returnsSet) {
+      const shape = (fn: FunctionInfo) => `${fn.returnsSet ? "setof " : ""}${fn.returnType ?? "unknown"}`;
+      push("breaking", `returns ${shape(b)} → ${shape(a)}`, "the response decodes into a different shape");
+    }
+    if (b.isReadOnly && !a.isReadOnly) push("breaking", "no longer STABLE/IMMUTABLE", "GET calls are rejected; only POST works");
+  });
+  after.filter(fn => !beforeKeys.has(key(fn))).forEach(fn => {
+    findings.push({ severity: "safe", object: `rpc ${key(fn)}`, change: "function added", impact: "new endpoint; existing requests are unaffected" });
+  });
+  return findings;
+}
+
+function enumFindings(before: EnumInfo[], after: EnumInfo[]): CompatFinding[] {
+  const afterByKey = new Map(after.map(e => [`${e.schema}.${e.name}`, e]));
+  const findings: CompatFinding[] = [];
+  before.forEach(b => {
+    const object = `enum ${b.schema}.${b.name}`;
+    const a = afterByKey.get(`${b.schema}.${b.name}`);
+    if (!a) return; // Its columns are reported as type changes
+    const removed = b.values.filter(v => !a.values.includes(v));
+    const added = a.values.filter(v => !b.values.includes(v));
+    if (removed.length > 0) {
+      findings.push({ severity: "breaking", object, change: `values removed: ${removed.join(", ")}`, impact: "writes and filters using them fail" });
+    }
+    if (added.length > 0) {
+      findings.push({ severity: "warning", object, change: `values added: ${added.join(", ")}`, impact: "clients that decode this enum exhaustively can fail on the new values" });
+    }
+  });
+  return findings;
+}
+
+function requiredOnInsert(c: ColumnInfo): boolean {
+  return !c.isNullable && !c.defaultValue && !c.identity && !c.isGenerated;
+}
+
+/**
+ * A dropped and an added table in the same schema with the same columns is
+ * most likely a rename. Only one-to-one matches count; anything ambiguous
+ * stays a drop plus an add.
+ */
+function detectRenames(diff: SchemaDiff): Map<TableInfo, TableInfo> {
+  const shape = (t: TableInfo) => `${t.schema}|${t.kind}|${t.columns.map(c => `${c.name}:${canonicalTypeName(c.rawType)}(${typeModifiers(c.rawType).join(",")})`).sort().join(",")}`;
+  const added = diff.tables.filter(t => t.kind === "added").map(t => t.after!);
+  const renames = new Map<TableInfo, TableInfo>();
+  diff.tables.filter(t => t.kind === "removed").forEach(t => {
+    const from = t.before!;
+    if (from.columns.length === 0) return;
+    const matches = added.filter(a => shape(a) === shape(from));
+    const rivals = diff.tables.filter(r => r.kind === "removed" && shape(r.before!) === shape(from));
+    if (matches.length === 1 && rivals.length === 1) renames.set(from, matches[0]);
+  });
+  return renames;
+}
+
+// Types each can widen into without changing how PostgREST encodes the value as JSON
+const WIDENS_TO: Record<string, string[]> = {
+  int2: ["int4", "int8", "numeric"],
+  int4: ["int8", "numeric"],
+  int8: ["numeric"],
+  float4: ["float8"],
+  bpchar: ["varchar", "text"],
+  varchar: ["text"],
+};
+
+function isWidening(beforeType: string, afterType: string): boolean {
+  const from = canonicalTypeName(beforeType);
+  const to = canonicalTypeName(afterType);
+  if (from !== to && !WIDENS_TO[from]?.includes(to)) return false;
+
+  // An unbounded target holds anything; otherwise its limits mustn't shrink
+  const [p1, s1 = 0] = typeModifiers(beforeType);
+  const [p2, s2 = 0] = typeModifiers(afterType);
+  if (p2 === undefined) return true;
+  if (p1 === undefined) return false;
+  return to === "numeric" ? s2 >= s1 && p2 - s2 >= p1 - s1 : p2 >= p1;
+}
+
+/** The report as Markdown, one table per severity */
+export function compatReportMarkdown(report: CompatReport, baseName: string, targetName: string): string {
+  const lines = [
+    `# API compatibility: ${baseName} → ${targetName}`,
+    "",
+    `**${report.counts.breaking} breaking**, ${report.counts.warning} warning${report.counts.warning === 1 ? "" : "s"}, ${report.counts.safe} safe`,
+  ];
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  SEVERITIES.forEach(severity => {
+    const findings = report.findings.filter(f => f.severity === severity);
+    if (findings.length === 0) return;
+    lines.push("", `## ${severity[0].toUpperCase()}${severity.slice(1)}`, "", "| Object | Change | Client impact |", "| --- | --- | --- |");
+    findings.forEach(f => lines.push(`| \`${cell(f.object)}\` | ${cell(f.change)} | ${cell(f.impact)} |`));
+  });
+  if (report.findings.length === 0) lines.push("", "No changes.");
+  return `${lines.join("\n")}\n`;
+}
+
+export function compatReportJson(report: CompatReport, baseName: string, targetName: string): string {
+  return JSON.stringify({ base: baseName, target: targetName, generatedAt: new Date().toISOString(), ...report }, null, 2);
+}
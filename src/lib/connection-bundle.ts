@@ -0,0 +1,129 @@
+import { encrypt, decrypt } from "./crypto";
+import type { ProjectConnection } from "./schema-types";
+
+// Connection bundles: a set of connections encrypted under a share passphrase
+// chosen for the hand-off, separate from anyone's vault passphrase. The outer
+// JSON is readable so a bundle can be recognised before asking for the
+// passphrase; everything sensitive is inside the crypto.ts envelope.
+
+const BUNDLE_FORMAT = "schema-viz/connections";
+const BUNDLE_VERSION = 1;
+
+/** What travels in a bundle; ids and timestamps are minted again on import */
+export type SharedConnection = Pick<ProjectConnection, "name" | "url" | "anonKey" | "schemas" | "strategy" | "metaUrl">;
+
+interface BundleFile {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  count: number;
+  payload: string;
+}
+
+export interface BundleConflict {
+  existing: ProjectConnection;
+  incoming: SharedConnection;
+}
+
+export interface ImportPlan {
+  /** URLs not in the vault yet */
+  added: SharedConnection[];
+  /** Same URL, different settings; the user picks which to keep */
+  conflicts: BundleConflict[];
+  /** Same URL and settings as a saved connection */
+  unchanged: number;
+}
+
+export async function exportBundle(connections: ProjectConnection[], sharePassphrase: string): Promise<string> {
+  const shared: SharedConnection[] = connections.map(({ name, url, anonKey, schemas, strategy, metaUrl }) => ({
+    name, url, anonKey, schemas, strategy, metaUrl,
+  }));
+  const file: BundleFile = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    count: shared.length,
+    payload: await encrypt(JSON.stringify(shared), sharePassphrase),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export async function readBundle(text: string, sharePassphrase: string): Promise<SharedConnection[]> {
+  let file: Partial<BundleFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't a connection bundle.");
+  }
+  if (file?.format !== BUNDLE_FORMAT || typeof file.payload !== "string") {
+    throw new Error("That file isn't a connection bundle.");
+  }
+  if ((file.version ?? 1) > BUNDLE_VERSION) {
+    throw new Error("This bundle was made by a newer version of the app.");
+  }
+
+  let decrypted: string;
+  try {
+    decrypted = await decrypt(file.payload, sharePassphrase);
+  } catch {
+    throw new Error("Wrong share passphrase");
+  }
+  let shared: unknown;
+  try {
+    shared = JSON.parse(decrypted);
+  } catch {
+    shared = null;
+  }
+  if (!Array.isArray(shared)) {
+    throw new Error("This bundle's contents are damaged.");
+  }
+  return shared.map(toSharedConnection).filter((c): c is SharedConnection => c !== null);
+}
+
+/**
+ * Only the fields a bundle may carry, each checked: entries without a URL and
+ * key are dropped, an unusable name falls back to the URL, and other bad
+ * values fall back to their defaults.
+ */
+function toSharedConnection(entry: unknown): SharedConnection | null {
+  if (!entry || typeof entry !== "object") return null;
+  const { name, url, anonKey, schemas, strategy, metaUrl } = entry as Record<string, unknown>;
+  if (typeof url !== "string" || !url.trim() || typeof anonKey !== "string" || !anonKey.trim()) return null;
+  const profiles = Array.isArray(schemas) ? schemas.filter((s): s is string => typeof s === "string" && s.trim() !== "") : [];
+  return {
+    name: typeof name === "string" && name.trim() ? name : url,
+    url,
+    anonKey,
+    schemas: profiles.length > 0 ? profiles : undefined,
+    strategy: strategy === "openapi" || strategy === "pg-meta" ? strategy : undefined,
+    metaUrl: typeof metaUrl === "string" && metaUrl.trim() ? metaUrl : undefined,
+  };
+}
+
+/** Sort a bundle against the saved list, matching connections by project URL */
+export function planImport(existing: ProjectConnection[], incoming: SharedConnection[]): ImportPlan {
+  const saved = new Map(existing.map(c => [normalizeUrl(c.url), c]));
+  // A bundle listing the same project twice keeps its last entry
+  const unique = new Map(incoming.map(c => [normalizeUrl(c.url), c]));
+
+  const plan: ImportPlan = { added: [], conflicts: [], unchanged: 0 };
+  unique.forEach((incomingConn, url) => {
+    const match = saved.get(url);
+    if (!match) plan.added.push(incomingConn);
+    else if (sameSettings(match, incomingConn)) plan.unchanged++;
+    else plan.conflicts.push({ existing: match, incoming: incomingConn });
+  });
+  return plan;
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+function sameSettings(a: SharedConnection, b: SharedConnection): boolean {
+  return a.name === b.name
+    && a.anonKey === b.anonKey
+    && (a.strategy ?? "openapi") === (b.strategy ?? "openapi")
+    && (a.metaUrl ?? "") === (b.metaUrl ?? "")
+    && (a.schemas ?? []).join(",") === (b.schemas ?? []).join(",");
+}
@@ -0,0 +1,87 @@
+import { inspectApiKey } from "./jwt";
+
+// A cheap probe of a project's REST endpoint: is it up, how fast, which
+// PostgREST answered, and if the key was refused, why.
+
+export type HealthStatus = "ok" | "auth-error" | "http-error" | "unreachable";
+
+export interface ConnectionHealth {
+  status: HealthStatus;
+  /** HTTP status of the probe; null when nothing answered */
+  httpStatus: number | null;
+  latencyMs: number | null;
+  /** From the `Server` header, when the gateway passes it through */
+  postgrestVersion: string | null;
+  /** Why the key was refused, or what went wrong otherwise */
+  reason: string | null;
+  checkedAt: number;
+}
+
+interface ProbeOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export async function probeConnection(
+  url: string,
+  key: string,
+  { timeoutMs = 8000, signal }: ProbeOptions = {},
+): Promise<ConnectionHealth> {
+  const endpoint = `${url.replace(/\/+$/, "")}/rest/v1/`;
+  const headers = { apikey: key, Authorization: `Bearer ${key}` };
+  // One signal for both the caller's cancel and our timeout
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; abort(); }, timeoutMs);
+
+  try {
+    return await probe(endpoint, headers, key, controller.signal);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return {
+      status: "unreachable",
+      httpStatus: null,
+      latencyMs: null,
+      postgrestVersion: null,
+      reason: timedOut ? `No response within ${timeoutMs / 1000}s` : "Network error or blocked by CORS",
+      checkedAt: Date.now(),
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+async function probe(endpoint: string, headers: Record<string, string>, key: string, signal: AbortSignal): Promise<ConnectionHealth> {
+  const started = performance.now();
+  // HEAD skips the OpenAPI document, which can run to megabytes
+  const res = await fetch(endpoint, { method: "HEAD", headers, signal });
+  const latencyMs = Math.round(performance.now() - started);
+  const postgrestVersion = res.headers.get("server")?.match(/postgrest\/([\w.-]+)/i)?.[1] ?? null;
+  const health = { httpStatus: res.status, latencyMs, postgrestVersion, checkedAt: Date.now() };
+
+  // Some gateways don't route HEAD on the root; anything but an auth refusal means it's up
+  if (res.ok || res.status === 405) return { ...health, status: "ok", reason: null };
+
+  if (res.status === 401 || res.status === 403) {
+    return { ...health, status: "auth-error", reason: await authFailureReason(endpoint, headers, key, signal) };
+  }
+  return { ...health, status: "http-error", reason: `${res.status} ${res.statusText}`.trim() };
+}
+
+/** A HEAD response has no body, so ask again with GET to read the gateway's message */
+async function authFailureReason(endpoint: string, headers: Record<string, string>, key: string, signal: AbortSignal): Promise<string> {
+  const info = inspectApiKey(key);
+  if (info?.expiresAt && info.expiresAt < Date.now()) {
+    return `Key expired on ${new Date(info.expiresAt).toLocaleDateString()}`;
+  }
+  try {
+    const res = await fetch(endpoint, { headers, signal });
+    const body = await res.json();
+    return body?.message || body?.msg || `${res.status} ${res.statusText}`.trim();
+  } catch {
+    return "Key was rejected";
+  }
+}
@@ -1,15 +1,38 @@
 // AES-GCM encryption/decryption using Web Crypto API
+//
+// Ciphertext is wrapped in a JSON envelope that records how it was made, so
+// the KDF cost can be raised later without locking anyone out: old blobs still
+// decrypt with the parameters they name and get re-encrypted on next unlock.
 
 const SALT_LENGTH = 16;
 const IV_LENGTH = 12;
 
-async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+export const ENVELOPE_VERSION = 2;
+/** PBKDF2 rounds for new envelopes (OWASP's 2023 figure for PBKDF2-HMAC-SHA256) */
+export const KDF_ITERATIONS = 600000;
+// Version-1 blobs were bare base64 salt+iv+ciphertext with this fixed cost
+const LEGACY_ITERATIONS = 100000;
+// Envelopes can arrive from outside (a shared bundle), so the cost they name is
+// bounded: nothing weaker than version 1, nothing that would hang the tab
+const MAX_ITERATIONS = 10000000;
+
+export interface EncryptionEnvelope {
+  v: number;
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  alg: "AES-GCM-256";
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
   const enc = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     "raw", enc.encode(passphrase), "PBKDF2", false, ["deriveKey"]
   );
   return crypto.subtle.deriveKey(
-    { name: "PBKDF2", salt: salt as unknown as ArrayBuffer, iterations: 100000, hash: "SHA-256" },
+    { name: "PBKDF2", salt: salt as unknown as ArrayBuffer, iterations, hash: "SHA-256" },
     keyMaterial,
     { name: "AES-GCM", length: 256 },
     false,
@@ -17,30 +40,107 @@ async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKe
   );
 }
 
-export async function encrypt(data: string, passphrase: string): Promise<string> {
+export async function encrypt(data: string, passphrase: string, iterations = KDF_ITERATIONS): Promise<string> {
   const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-  const key = await deriveKey(passphrase, salt);
+  const key = await deriveKey(passphrase, salt, iterations);
   const enc = new TextEncoder();
   const encrypted = await crypto.subtle.encrypt(
     { name: "AES-GCM", iv }, key, enc.encode(data)
   );
-  // Combine salt + iv + ciphertext → base64
-  const combined = new Uint8Array(salt.length + iv.length + new Uint8Array(encrypted).length);
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encrypted), salt.length + iv.length);
-  return btoa(String.fromCharCode(...combined));
+  const envelope: EncryptionEnvelope = {
+    v: ENVELOPE_VERSION,
+    kdf: "PBKDF2-SHA256",
+    iterations,
+    alg: "AES-GCM-256",
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(encrypted)),
+  };
+  return JSON.stringify(envelope);
 }
 
 export async function decrypt(encoded: string, passphrase: string): Promise<string> {
-  const combined = new Uint8Array(atob(encoded).split("").map(c => c.charCodeAt(0)));
-  const salt = combined.slice(0, SALT_LENGTH);
-  const iv = combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-  const ciphertext = combined.slice(SALT_LENGTH + IV_LENGTH);
-  const key = await deriveKey(passphrase, salt);
+  const envelope = parseEnvelope(encoded);
+  const key = await deriveKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
   const decrypted = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv }, key, ciphertext
+    { name: "AES-GCM", iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.ciphertext)
   );
   return new TextDecoder().decode(decrypted);
 }
+
+// Bulk data (schema history) is sealed under a random AES key instead, so
+// frequent writes don't each pay for PBKDF2. That key is itself stored with
+// `encrypt` under the passphrase.
+
+/** A fresh data key and its raw bytes in base64, for wrapping */
+export async function generateDataKey(): Promise<{ key: CryptoKey; raw: string }> {
+  const raw = crypto.getRandomValues(new Uint8Array(32));
+  return { key: await importDataKey(toBase64(raw)), raw: toBase64(raw) };
+}
+
+/** Load a data key unwrapped from storage; the CryptoKey itself can't be exported again */
+export function importDataKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromBase64(raw) as unknown as ArrayBuffer, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+export async function encryptWithKey(data: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(data));
+  return JSON.stringify({ v: ENVELOPE_VERSION, alg: "AES-GCM-256", iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(encrypted)) });
+}
+
+export async function decryptWithKey(encoded: string, key: CryptoKey): Promise<string> {
+  const { alg, iv, ciphertext } = JSON.parse(encoded);
+  if (alg !== "AES-GCM-256" || typeof iv !== "string" || typeof ciphertext !== "string") {
+    throw new Error("Malformed encrypted data");
+  }
+  const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(decrypted);
+}
+
+/** True when `encoded` was made with an older format or a lower KDF cost than today's */
+export function needsUpgrade(encoded: string): boolean {
+  const envelope = parseEnvelope(encoded);
+  return envelope.v < ENVELOPE_VERSION || envelope.iterations < KDF_ITERATIONS;
+}
+
+/** Read either an envelope or a version-1 blob into envelope form */
+function parseEnvelope(encoded: string): EncryptionEnvelope {
+  if (!encoded.trimStart().startsWith("{")) {
+    const combined = fromBase64(encoded);
+    return {
+      v: 1,
+      kdf: "PBKDF2-SHA256",
+      iterations: LEGACY_ITERATIONS,
+      alg: "AES-GCM-256",
+      salt: toBase64(combined.slice(0, SALT_LENGTH)),
+      iv: toBase64(combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH)),
+      ciphertext: toBase64(combined.slice(SALT_LENGTH + IV_LENGTH)),
+    };
+  }
+
+  const envelope = JSON.parse(encoded) as EncryptionEnvelope;
+  if (envelope.v > ENVELOPE_VERSION) {
+    throw new Error("Encrypted with a newer version of the app");
+  }
+  if (envelope.kdf !== "PBKDF2-SHA256" || envelope.alg !== "AES-GCM-256") {
+    throw new Error(`Unsupported encryption: ${envelope.kdf} / ${envelope.alg}`);
+  }
+  const { iterations } = envelope;
+  if (!Number.isInteger(iterations) || iterations < LEGACY_ITERATIONS || iterations > MAX_ITERATIONS) {
+    throw new Error(`Refusing a key derivation cost of ${iterations} rounds`);
+  }
+  if (typeof envelope.salt !== "string" || typeof envelope.iv !== "string" || typeof envelope.ciphertext !== "string") {
+    throw new Error("Malformed encrypted data");
+  }
+  return envelope;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  return new Uint8Array(atob(encoded).split("").map(c => c.charCodeAt(0)));
+}
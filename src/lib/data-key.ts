@@ -0,0 +1,46 @@
+import { decrypt, encrypt, generateDataKey, importDataKey } from "./crypto";
+import { idbDelete, idbGet, idbPut, hasIndexedDb } from "./idb";
+
+// The key schema history is encrypted with. It is stored next to the vault,
+// wrapped under the vault passphrase, and only exists for a vault the user
+// asked us to remember: a session-only vault leaves nothing else on disk.
+// Unwrapped it lives in memory until the vault locks.
+
+const RECORD_KEY = "data-key";
+
+let sessionKey: CryptoKey | null = null;
+
+/** The unwrapped key, or null while locked or when the vault isn't remembered */
+export function getDataKey(): CryptoKey | null {
+  return sessionKey;
+}
+
+/** Unwrap the stored key with `passphrase`, creating one on first use; true when it was just created */
+export async function unlockDataKey(passphrase: string): Promise<boolean> {
+  if (!hasIndexedDb()) return false;
+  const wrapped = await idbGet<string>("vault", RECORD_KEY);
+  if (wrapped) {
+    sessionKey = await importDataKey(await decrypt(wrapped, passphrase));
+    return false;
+  }
+  const { key, raw } = await generateDataKey();
+  await idbPut("vault", RECORD_KEY, await encrypt(raw, passphrase));
+  sessionKey = key;
+  return true;
+}
+
+/** Re-wrap the stored key when the vault passphrase changes */
+export async function rewrapDataKey(current: string, next: string): Promise<void> {
+  const wrapped = await idbGet<string>("vault", RECORD_KEY);
+  if (wrapped) await idbPut("vault", RECORD_KEY, await encrypt(await decrypt(wrapped, current), next));
+}
+
+export function forgetDataKey(): void {
+  sessionKey = null;
+}
+
+/** Drop the key for good; whatever it encrypted becomes unreadable */
+export async function deleteDataKey(): Promise<void> {
+  sessionKey = null;
+  await idbDelete("vault", RECORD_KEY);
+}
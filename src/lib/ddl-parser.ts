@@ -0,0 +1,682 @@
+import { typeFamily } from "./pg-types";
+import { tableId, compareColumns, type SchemaData, type TableInfo, type ColumnInfo, type ForeignKey, type EnumInfo, type PolicyInfo, type PolicyCommand } from "./schema-types";
+
+// Builds SchemaData from SQL DDL — a single script or a supabase/migrations
+// folder. Only the statements that shape the diagram are understood:
+// CREATE / DROP TABLE; ALTER TABLE ... ADD, DROP, RENAME, ALTER COLUMN and
+// ROW LEVEL SECURITY; CREATE / ALTER / DROP TYPE for enums; CREATE UNIQUE
+// INDEX; CREATE / DROP POLICY and COMMENT ON. Everything else is skipped.
+
+export interface SqlFile {
+  name: string;
+  content: string;
+}
+
+interface DraftForeignKey {
+  constraintName: string;
+  sourceId: string;
+  sourceColumns: string[];
+  targetSchema: string;
+  targetTable: string;
+  /** Empty when the REFERENCES clause relies on the target's primary key */
+  targetColumns: string[];
+}
+
+interface ParseState {
+  tables: Map<string, TableInfo>;
+  enums: Map<string, EnumInfo>;
+  foreignKeys: DraftForeignKey[];
+  schemas: string[];
+}
+
+const IDENT = `(?:"(?:[^"]|"")+"|[\\w$]+)`;
+const QNAME = `${IDENT}(?:\\s*\\.\\s*${IDENT})?`;
+
+// Words that end a column's type and start its constraint list
+const COLUMN_KEYWORDS = new Set([
+  "constraint", "not", "null", "default", "primary", "unique",
+  "references", "check", "generated", "collate",
+]);
+
+/**
+ * Parse one or more SQL files. Files are applied in filename order, which is
+ * how Supabase orders timestamped migrations.
+ */
+export function parseDdl(files: SqlFile[]): SchemaData {
+  const state: ParseState = { tables: new Map(), enums: new Map(), foreignKeys: [], schemas: [] };
+
+  [...files]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(file => {
+      splitTopLevel(stripComments(file.content), ";")
+        .map(s => s.trim())
+        .filter(Boolean)
+        .forEach(statement => applyStatement(state, statement));
+    });
+
+  if (state.tables.size === 0) {
+    throw new Error("No CREATE TABLE statements found");
+  }
+
+  return finalize(state);
+}
+
+function applyStatement(state: ParseState, statement: string) {
+  let m: RegExpMatchArray | null;
+
+  if ((m = statement.match(new RegExp(`^create\\s+(?:(?:global|local)\\s+)?(?:(?:temp|temporary|unlogged)\\s+)?table\\s+(if\\s+not\\s+exists\\s+)?(${QNAME})\\s*\\(`, "i")))) {
+    createTable(state, m[2], statement.slice(m[0].length - 1), !!m[1]);
+  } else if ((m = statement.match(new RegExp(`^alter\\s+table\\s+(?:if\\s+exists\\s+)?(?:only\\s+)?(${QNAME})\\s+([\\s\\S]+)$`, "i")))) {
+    alterTable(state, m[1], m[2]);
+  } else if ((m = statement.match(new RegExp(`^create\\s+type\\s+(${QNAME})\\s+as\\s+enum\\s*\\(([\\s\\S]*)\\)$`, "i")))) {
+    createEnum(state, m[1], m[2]);
+  } else if ((m = statement.match(new RegExp(`^alter\\s+type\\s+(${QNAME})\\s+([\\s\\S]+)$`, "i")))) {
+    alterEnum(state, m[1], tokenize(m[2]));
+  } else if ((m = statement.match(/^drop\s+type\s+(?:if\s+exists\s+)?([\s\S]+?)(?:\s+(?:cascade|restrict))?$/i))) {
+    splitTopLevel(m[1], ",").forEach(name => {
+      const { schema, name: type } = parseQualifiedName(name.trim());
+      state.enums.delete(tableId(schema, type));
+    });
+  } else if ((m = statement.match(new RegExp(`^create\\s+unique\\s+index\\s+(?:concurrently\\s+)?(?:if\\s+not\\s+exists\\s+)?(?:${IDENT}\\s+)?on\\s+(?:only\\s+)?(${QNAME})\\s*(?:using\\s+\\w+\\s*)?\\(`, "i")))) {
+    createUniqueIndex(state, m[1], readParens(statement, m[0].length - 1));
+  } else if ((m = statement.match(new RegExp(`^comment\\s+on\\s+(table|column)\\s+(${QNAME}(?:\\s*\\.\\s*${IDENT})?)\\s+is\\s+('(?:[^']|'')*'|null)$`, "i")))) {
+    applyComment(state, m[1].toLowerCase() === "column", m[2], m[3]);
+  } else if ((m = statement.match(new RegExp(`^create\\s+policy\\s+(${IDENT})\\s+on\\s+(${QNAME})\\s*([\\s\\S]*)$`, "i")))) {
+    createPolicy(state, unquote(m[1]), m[2], m[3]);
+  } else if ((m = statement.match(new RegExp(`^drop\\s+policy\\s+(?:if\\s+exists\\s+)?(${IDENT})\\s+on\\s+(${QNAME})`, "i")))) {
+    dropPolicy(state, unquote(m[1]), m[2]);
+  } else if ((m = statement.match(/^drop\s+table\s+(?:if\s+exists\s+)?([\s\S]+?)(?:\s+(?:cascade|restrict))?$/i))) {
+    splitTopLevel(m[1], ",").forEach(name => {
+      const { schema, name: table } = parseQualifiedName(name.trim());
+      state.tables.delete(tableId(schema, table));
+    });
+  }
+}
+
+function createTable(state: ParseState, rawName: string, rest: string, ifNotExists: boolean) {
+  const { schema, name } = parseQualifiedName(rawName);
+  const id = tableId(schema, name);
+  if (ifNotExists && state.tables.has(id)) return;
+
+  // A dump states RLS outright: no ENABLE statement means it's off
+  const table: TableInfo = { id, name, schema, kind: "table", columns: [], primaryKey: [], rlsEnabled: false, rlsForced: false, policies: [] };
+  state.tables.set(id, table);
+  state.foreignKeys = state.foreignKeys.filter(fk => fk.sourceId !== id);
+  if (!state.schemas.includes(schema)) state.schemas.push(schema);
+
+  splitTopLevel(readParens(rest, 0), ",").map(d => d.trim()).filter(Boolean).forEach(def => {
+    const words = tokenize(def);
+    const first = words[0]?.toLowerCase();
+    if (["constraint", "primary", "unique", "foreign", "check", "exclude", "like"].includes(first)) {
+      applyTableConstraint(state, table, words);
+    } else {
+      addColumn(state, table, words);
+    }
+  });
+}
+
+function alterTable(state: ParseState, rawName: string, actions: string) {
+  const { schema, name } = parseQualifiedName(rawName);
+  const table = state.tables.get(tableId(schema, name));
+  if (!table) return;
+
+  splitTopLevel(actions, ",").forEach(action => {
+    const words = tokenize(action.trim());
+    const rls = words.join(" ").toLowerCase().match(/^(enable|disable|force|no force) row level security$/);
+    if (rls) {
+      if (rls[1] === "enable" || rls[1] === "disable") table.rlsEnabled = rls[1] === "enable";
+      else table.rlsForced = rls[1] === "force";
+      return;
+    }
+    const verb = words[0]?.toLowerCase();
+    if (verb === "drop") dropFromTable(state, table, words.slice(1));
+    else if (verb === "rename") renameInTable(state, table, words.slice(1));
+    else if (verb === "alter") alterColumn(table, words.slice(1));
+    if (verb !== "add") return;
+    const rest = words.slice(1);
+    if (rest[0]?.toLowerCase() === "column") rest.shift();
+    const first = rest[0]?.toLowerCase();
+    if (["constraint", "primary", "unique", "foreign", "check", "exclude"].includes(first)) {
+      applyTableConstraint(state, table, rest);
+    } else {
+      if (rest[0]?.toLowerCase() === "if") rest.splice(0, 3); // IF NOT EXISTS
+      addColumn(state, table, rest);
+    }
+  });
+}
+
+/** `DROP [COLUMN] [IF EXISTS] name` and `DROP CONSTRAINT [IF EXISTS] name` */
+function dropFromTable(state: ParseState, table: TableInfo, words: string[]) {
+  const rest = skipIfExists(words[0]?.toLowerCase() === "column" || words[0]?.toLowerCase() === "constraint" ? words.slice(1) : words);
+  const name = unquote(rest[0] ?? "");
+  if (words[0]?.toLowerCase() === "constraint") {
+    state.foreignKeys = state.foreignKeys.filter(fk => !(fk.sourceId === table.id && fk.constraintName === name));
+    if (name === `${table.name}_pkey`) {
+      table.primaryKey.forEach(col => {
+        const column = table.columns.find(c => c.name === col);
+        if (column) column.isPrimaryKey = false;
+      });
+      table.primaryKey = [];
+    }
+    return;
+  }
+  table.columns = table.columns.filter(c => c.name !== name);
+  if (table.primaryKey.includes(name)) table.primaryKey = [];
+  state.foreignKeys = state.foreignKeys.filter(fk => !(fk.sourceId === table.id && fk.sourceColumns.includes(name)));
+}
+
+/** `RENAME TO new`, `RENAME [COLUMN] old TO new` and `RENAME CONSTRAINT old TO new` */
+function renameInTable(state: ParseState, table: TableInfo, words: string[]) {
+  const first = words[0]?.toLowerCase();
+  if (first === "to") {
+    const name = unquote(words[1] ?? "");
+    const oldName = table.name;
+    state.tables.delete(table.id);
+    table.name = name;
+    table.id = tableId(table.schema, name);
+    state.tables.set(table.id, table);
+    state.foreignKeys.forEach(fk => {
+      if (fk.sourceId === tableId(table.schema, oldName)) fk.sourceId = table.id;
+      if (fk.targetSchema === table.schema && fk.targetTable === oldName) fk.targetTable = name;
+    });
+    return;
+  }
+
+  const rest = first === "column" || first === "constraint" ? words.slice(1) : words;
+  const from = unquote(rest[0] ?? "");
+  const to = unquote(rest[2] ?? "");
+  if (rest[1]?.toLowerCase() !== "to" || !to) return;
+  if (first === "constraint") {
+    state.foreignKeys.forEach(fk => { if (fk.sourceId === table.id && fk.constraintName === from) fk.constraintName = to; });
+    return;
+  }
+
+  const column = table.columns.find(c => c.name === from);
+  if (!column) return;
+  column.name = to;
+  table.primaryKey = table.primaryKey.map(c => (c === from ? to : c));
+  const rename = (cols: string[]) => cols.map(c => (c === from ? to : c));
+  state.foreignKeys.forEach(fk => {
+    if (fk.sourceId === table.id) fk.sourceColumns = rename(fk.sourceColumns);
+    if (fk.targetSchema === table.schema && fk.targetTable === table.name) fk.targetColumns = rename(fk.targetColumns);
+  });
+}
+
+/** `ALTER [COLUMN] name [SET DATA] TYPE t`, `SET / DROP NOT NULL` and `SET / DROP DEFAULT` */
+function alterColumn(table: TableInfo, words: string[]) {
+  const rest = words[0]?.toLowerCase() === "column" ? words.slice(1) : words;
+  const column = table.columns.find(c => c.name === unquote(rest[0] ?? ""));
+  if (!column) return;
+  const action = rest.slice(1).map(w => w.toLowerCase());
+  const typeAt = action[0] === "type" ? 1 : action.slice(0, 3).join(" ") === "set data type" ? 3 : -1;
+
+  if (typeAt !== -1) {
+    const typeWords = rest.slice(1 + typeAt);
+    const end = typeWords.findIndex(w => ["using", "collate"].includes(w.toLowerCase()));
+    setColumnType(column, typeWords.slice(0, end === -1 ? undefined : end));
+  } else if (action.join(" ") === "set not null") {
+    column.isNullable = false;
+  } else if (action.join(" ") === "drop not null") {
+    column.isNullable = true;
+  } else if (action[0] === "set" && action[1] === "default") {
+    column.defaultValue = rest.slice(3).join(" ");
+  } else if (action.join(" ") === "drop default") {
+    column.defaultValue = null;
+  }
+}
+
+function setColumnType(column: ColumnInfo, typeWords: string[]) {
+  const type = normalizeType(typeWords);
+  column.dataType = type.replace(/\s*\([^)]*\)/g, "");
+  column.rawType = type;
+  // Settled in finalize() once every CREATE TYPE has been seen
+  column.typeFamily = "other";
+  column.enumName = undefined;
+}
+
+function addColumn(state: ParseState, table: TableInfo, words: string[]) {
+  const name = unquote(words[0]);
+  let i = 1;
+  const typeWords: string[] = [];
+  while (i < words.length && !COLUMN_KEYWORDS.has(words[i].toLowerCase())) typeWords.push(words[i++]);
+
+  const column: ColumnInfo = {
+    name,
+    dataType: "",
+    rawType: "",
+    typeFamily: "other",
+    isNullable: true,
+    defaultValue: null,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    isUnique: false,
+  };
+  setColumnType(column, typeWords);
+  table.columns = [...table.columns.filter(c => c.name !== name), column];
+
+  let constraintName: string | null = null;
+  while (i < words.length) {
+    const word = words[i++].toLowerCase();
+    if (word === "constraint") {
+      constraintName = unquote(words[i++] ?? "");
+      continue;
+    }
+    if (word === "not" && words[i]?.toLowerCase() === "null") {
+      column.isNullable = false;
+      i++;
+    } else if (word === "default") {
+      const expr: string[] = [];
+      while (i < words.length && !COLUMN_KEYWORDS.has(words[i].toLowerCase())) expr.push(words[i++]);
+      column.defaultValue = expr.join(" ");
+    } else if (word === "primary") {
+      i++; // KEY
+      column.isPrimaryKey = true;
+      column.isNullable = false;
+      table.primaryKey = [name];
+    } else if (word === "unique") {
+      column.isUnique = true;
+    } else if (word === "references") {
+      const { target, columns } = splitReference(words, i);
+      i += columns.consumed;
+      state.foreignKeys.push({
+        constraintName: constraintName ?? `${table.name}_${name}_fkey`,
+        sourceId: table.id,
+        sourceColumns: [name],
+        ...target,
+        targetColumns: columns.names,
+      });
+      i = skipReferenceOptions(words, i);
+    } else if (word === "collate") {
+      i++;
+    } else {
+      // CHECK (...), GENERATED ..., NULL: nothing the diagram shows
+      while (i < words.length && !COLUMN_KEYWORDS.has(words[i].toLowerCase())) i++;
+    }
+    constraintName = null;
+  }
+}
+
+function applyTableConstraint(state: ParseState, table: TableInfo, words: string[]) {
+  let i = 0;
+  let constraintName: string | null = null;
+  if (words[0].toLowerCase() === "constraint") {
+    constraintName = unquote(words[1]);
+    i = 2;
+  }
+
+  const kind = words[i]?.toLowerCase();
+  if (kind === "primary") {
+    const columns = parseColumnList(words[i + 2]);
+    table.primaryKey = columns;
+    table.columns.forEach(c => {
+      if (columns.includes(c.name)) {
+        c.isPrimaryKey = true;
+        c.isNullable = false;
+      }
+    });
+  } else if (kind === "unique") {
+    const columns = parseColumnList(words.slice(i + 1).find(w => w.startsWith("(")));
+    // A multi-column UNIQUE doesn't make any single column unique
+    if (columns.length === 1) {
+      const column = table.columns.find(c => c.name === columns[0]);
+      if (column) column.isUnique = true;
+    }
+  } else if (kind === "foreign") {
+    const sourceColumns = parseColumnList(words[i + 2]);
+    const refIndex = words.findIndex((w, idx) => idx > i && w.toLowerCase() === "references");
+    if (refIndex === -1) return;
+    const { target, columns } = splitReference(words, refIndex + 1);
+    state.foreignKeys.push({
+      constraintName: constraintName ?? `${table.name}_${sourceColumns.join("_")}_fkey`,
+      sourceId: table.id,
+      sourceColumns,
+      ...target,
+      targetColumns: columns.names,
+    });
+  }
+}
+
+function applyComment(state: ParseState, onColumn: boolean, target: string, literal: string) {
+  const parts = (target.match(new RegExp(IDENT, "g")) ?? []).map(unquote);
+  const columnName = onColumn ? parts.pop() : undefined;
+  const [schema, name] = parts.length > 1 ? parts : ["public", parts[0]];
+  const table = state.tables.get(tableId(schema, name));
+  if (!table) return;
+
+  const text = literal.toLowerCase() === "null" ? undefined : literal.slice(1, -1).replace(/''/g, "'") || undefined;
+  if (!onColumn) {
+    table.description = text;
+    return;
+  }
+  const column = table.columns.find(c => c.name === columnName);
+  if (column) column.description = text;
+}
+
+/** `[AS PERMISSIVE|RESTRICTIVE] [FOR cmd] [TO roles] [USING (...)] [WITH CHECK (...)]` */
+function createPolicy(state: ParseState, policyName: string, rawTable: string, clauses: string) {
+  const { schema, name } = parseQualifiedName(rawTable);
+  const table = state.tables.get(tableId(schema, name));
+  if (!table) return;
+
+  const policy: PolicyInfo = { name: policyName, command: "ALL", permissive: true, roles: ["public"], using: null, withCheck: null };
+  const words = tokenize(clauses);
+  const expr = (word: string | undefined) => (word?.startsWith("(") ? word.slice(1, -1).trim() : null);
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].toLowerCase();
+    if (word === "as") {
+      policy.permissive = words[++i]?.toLowerCase() !== "restrictive";
+    } else if (word === "for") {
+      policy.command = (words[++i]?.toUpperCase() ?? "ALL") as PolicyCommand;
+    } else if (word === "to") {
+      const roles: string[] = [];
+      while (i + 1 < words.length && !["using", "with"].includes(words[i + 1].toLowerCase())) {
+        roles.push(...words[++i].split(",").map(r => unquote(r.trim())).filter(Boolean));
+      }
+      policy.roles = roles;
+    } else if (word === "using") {
+      policy.using = expr(words[++i]);
+    } else if (word === "with" && words[i + 1]?.toLowerCase() === "check") {
+      i++;
+      policy.withCheck = expr(words[++i]);
+    }
+  }
+  table.policies = [...(table.policies ?? []).filter(p => p.name !== policyName), policy];
+}
+
+function dropPolicy(state: ParseState, policyName: string, rawTable: string) {
+  const { schema, name } = parseQualifiedName(rawTable);
+  const table = state.tables.get(tableId(schema, name));
+  if (table) table.policies = table.policies?.filter(p => p.name !== policyName);
+}
+
+function createEnum(state: ParseState, rawName: string, body: string) {
+  const { schema, name } = parseQualifiedName(rawName);
+  const values = splitTopLevel(body, ",")
+    .map(v => v.trim())
+    .filter(Boolean)
+    .map(v => v.replace(/^'|'$/g, "").replace(/''/g, "'"));
+  state.enums.set(tableId(schema, name), { name, schema, values });
+}
+
+/** `ADD VALUE [IF NOT EXISTS] 'v' [BEFORE | AFTER 'w']` and `RENAME VALUE 'a' TO 'b'` */
+function alterEnum(state: ParseState, rawName: string, words: string[]) {
+  const { schema, name } = parseQualifiedName(rawName);
+  const info = state.enums.get(tableId(schema, name));
+  if (!info) return;
+  const literal = (word: string | undefined) => (word ?? "").replace(/^'|'$/g, "").replace(/''/g, "'");
+  const action = words.slice(0, 2).map(w => w.toLowerCase()).join(" ");
+
+  if (action === "add value") {
+    const rest = skipIfExists(words.slice(2), "not exists");
+    const value = literal(rest[0]);
+    if (info.values.includes(value)) return;
+    const anchor = info.values.indexOf(literal(rest[2]));
+    const position = rest[1]?.toLowerCase();
+    if (anchor !== -1 && position === "before") info.values.splice(anchor, 0, value);
+    else if (anchor !== -1 && position === "after") info.values.splice(anchor + 1, 0, value);
+    else info.values.push(value);
+  } else if (action === "rename value" && words[3]?.toLowerCase() === "to") {
+    const from = literal(words[2]);
+    info.values = info.values.map(v => (v === from ? literal(words[4]) : v));
+  }
+}
+
+function createUniqueIndex(state: ParseState, rawName: string, body: string) {
+  const { schema, name } = parseQualifiedName(rawName);
+  const table = state.tables.get(tableId(schema, name));
+  const parts = splitTopLevel(body, ",").map(p => p.trim());
+  // Expression indexes and multi-column indexes don't mark a column unique
+  if (!table || parts.length !== 1 || parts[0].includes("(")) return;
+  const column = table.columns.find(c => c.name === unquote(tokenize(parts[0])[0]));
+  if (column) column.isUnique = true;
+}
+
+/** Resolve FK targets, enum-typed columns and ordering once every file has been applied */
+function finalize(state: ParseState): SchemaData {
+  const tables = [...state.tables.values()];
+  const enums = [...state.enums.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+  tables.forEach(table => table.columns.forEach(column => {
+    const isArray = column.dataType.endsWith("[]");
+    const base = column.dataType.replace(/\[\]$/, "");
+    const { schema, name } = parseQualifiedName(base, table.schema);
+    const enumInfo = state.enums.get(tableId(schema, name)) ??
+      (base.includes(".") ? undefined : state.enums.get(tableId("public", name)));
+    if (enumInfo) {
+      column.enumName = enumInfo.name;
+      column.dataType = isArray ? `${enumInfo.name}[]` : enumInfo.name;
+      column.rawType = column.dataType;
+    }
+    column.typeFamily = typeFamily(column.rawType, column.enumName);
+  }));
+
+  const foreignKeys: ForeignKey[] = [];
+  state.foreignKeys.forEach(draft => {
+    const source = state.tables.get(draft.sourceId);
+    const target = state.tables.get(tableId(draft.targetSchema, draft.targetTable));
+    if (!source) return;
+
+    const targetColumns = draft.targetColumns.length > 0 ? draft.targetColumns : target?.primaryKey ?? [];
+    draft.sourceColumns.forEach((col, idx) => {
+      const column = source.columns.find(c => c.name === col);
+      if (!column) return;
+      column.isForeignKey = true;
+      column.references = { schema: draft.targetSchema, table: draft.targetTable, column: targetColumns[idx] ?? "id" };
+    });
+
+    // References into schemas the script never creates (auth.users, say) have nothing to draw to
+    if (!target) return;
+    foreignKeys.push({
+      constraintName: draft.constraintName,
+      sourceId: source.id,
+      sourceTable: source.name,
+      targetId: target.id,
+      targetTable: target.name,
+      columns: draft.sourceColumns.map((col, idx) => ({ source: col, target: targetColumns[idx] ?? "id" })),
+    });
+  });
+
+  tables.forEach(table => table.columns.sort(compareColumns));
+  tables.sort((a, b) =>
+    state.schemas.indexOf(a.schema) - state.schemas.indexOf(b.schema) || a.name.localeCompare(b.name)
+  );
+
+  return { tables, foreignKeys, functions: [], enums, schemas: state.schemas };
+}
+
+// ─── Lexing helpers ─────────────────────────────────────────────────
+
+/** Drop `--` and block comments while leaving string and dollar-quoted bodies intact */
+function stripComments(sql: string): string {
+  let out = "";
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "'" || ch === '"' || ch === "$") {
+      const end = skipQuoted(sql, i);
+      out += sql.slice(i, end);
+      i = end;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+/** Index just past the quoted/dollar-quoted literal starting at `start` */
+function skipQuoted(sql: string, start: number): number {
+  const ch = sql[start];
+  if (ch === "$") {
+    const tag = sql.slice(start).match(/^\$[\w]*\$/)?.[0];
+    if (!tag) return start + 1;
+    const end = sql.indexOf(tag, start + tag.length);
+    return end === -1 ? sql.length : end + tag.length;
+  }
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === ch) {
+      if (sql[i + 1] === ch) { i += 2; continue; }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+/** Split on `sep` outside parentheses, quotes and dollar-quoted bodies */
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"' || ch === "$") {
+      i = skipQuoted(text, i);
+      continue;
+    }
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === sep && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+    i++;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/** Contents of the balanced parenthesis group opening at or after `from` */
+function readParens(text: string, from: number): string {
+  const open = text.indexOf("(", from);
+  if (open === -1) return "";
+  let depth = 0;
+  let i = open;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"' || ch === "$") {
+      i = skipQuoted(text, i);
+      continue;
+    }
+    if (ch === "(") depth++;
+    else if (ch === ")" && --depth === 0) return text.slice(open + 1, i);
+    i++;
+  }
+  return text.slice(open + 1);
+}
+
+/**
+ * Whitespace-separated words, keeping quoted text and parenthesised groups
+ * whole. A group glued to a word (`varchar(255)`, `users(id)`) stays part of it.
+ */
+function tokenize(text: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"' || ch === "$") {
+      const end = skipQuoted(text, i);
+      current += text.slice(i, end);
+      i = end;
+    } else if (ch === "(") {
+      const inner = readParens(text, i);
+      current += `(${inner})`;
+      i += inner.length + 2;
+    } else if (/\s/.test(ch)) {
+      if (current) words.push(current);
+      current = "";
+      i++;
+    } else {
+      current += ch;
+      i++;
+    }
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+/** Drops a leading `IF EXISTS` (or `IF NOT EXISTS`) */
+function skipIfExists(words: string[], phrase = "exists"): string[] {
+  const length = phrase.split(" ").length + 1;
+  return words.slice(0, length).join(" ").toLowerCase() === `if ${phrase}` ? words.slice(length) : words;
+}
+
+function unquote(ident: string): string {
+  const trimmed = ident.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) return trimmed.slice(1, -1).replace(/""/g, '"');
+  return trimmed.toLowerCase();
+}
+
+function parseQualifiedName(raw: string, defaultSchema = "public"): { schema: string; name: string } {
+  const parts = raw.match(new RegExp(IDENT, "g")) ?? [raw];
+  return parts.length > 1
+    ? { schema: unquote(parts[0]), name: unquote(parts[1]) }
+    : { schema: defaultSchema, name: unquote(parts[0]) };
+}
+
+function parseColumnList(group: string | undefined): string[] {
+  if (!group) return [];
+  return splitTopLevel(readParens(group, 0), ",").map(c => unquote(c)).filter(Boolean);
+}
+
+/** `REFERENCES target [(cols)]`, where the column list may be glued to the name or stand alone */
+function splitReference(words: string[], index: number) {
+  const word = words[index] ?? "";
+  const paren = word.indexOf("(");
+  const rawTarget = paren === -1 ? word : word.slice(0, paren);
+  const { schema, name } = parseQualifiedName(rawTarget);
+  let names: string[] = [];
+  let consumed = 1;
+  if (paren !== -1) {
+    names = parseColumnList(word.slice(paren));
+  } else if (words[index + 1]?.startsWith("(")) {
+    names = parseColumnList(words[index + 1]);
+    consumed = 2;
+  }
+  return { target: { targetSchema: schema, targetTable: name }, columns: { names, consumed } };
+}
+
+/**
+ * Index past the ON DELETE / ON UPDATE, MATCH and DEFERRABLE clauses that
+ * follow a REFERENCES target. Actions are read word by word because
+ * `SET DEFAULT` and `SET NULL` would otherwise pass for column constraints.
+ */
+function skipReferenceOptions(words: string[], index: number): number {
+  let i = index;
+  for (;;) {
+    const word = words[i]?.toLowerCase();
+    const next = words[i + 1]?.toLowerCase();
+    if (word === "on" && (next === "delete" || next === "update")) {
+      const action = words[i + 2]?.toLowerCase();
+      if (action === "set") {
+        // SET NULL | SET DEFAULT, optionally limited to some columns
+        i += 4;
+        if (words[i]?.startsWith("(")) i++;
+      } else {
+        // NO ACTION, or CASCADE | RESTRICT
+        i += action === "no" ? 4 : 3;
+      }
+    } else if (word === "match" || word === "initially" || (word === "not" && next === "deferrable")) {
+      i += 2;
+    } else if (word === "deferrable") {
+      i++;
+    } else {
+      return i;
+    }
+  }
+}
+
+function normalizeType(words: string[]): string {
+  return words
+    .map(w => (w.startsWith('"') ? w.replace(/"/g, "") : w.toLowerCase()))
+    .join(" ")
+    .replace(/\s*\[\s*\]/g, "[]") || "unknown";
+}
@@ -0,0 +1,59 @@
+// Promise wrapper over the app's one IndexedDB database. Every object store
+// is declared here so the database version has a single owner: adding a store
+// means adding it to STORES and bumping DB_VERSION.
+
+const DB_NAME = "schema-viz";
+const DB_VERSION = 2;
+
+/** vault: the encrypted connection list and wrapped data key; snapshots: encrypted schema history per connection */
+export type StoreName = "vault" | "snapshots";
+const STORES: StoreName[] = ["vault", "snapshots"];
+
+export function hasIndexedDb(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      STORES.forEach(name => {
+        if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(storeName: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function idbGet<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  if (!hasIndexedDb()) return undefined;
+  return withStore(storeName, "readonly", store => store.get(key));
+}
+
+export async function idbPut<T>(storeName: StoreName, key: string, value: T): Promise<void> {
+  await withStore(storeName, "readwrite", store => store.put(value, key));
+}
+
+export async function idbDelete(storeName: StoreName, key: string): Promise<void> {
+  if (!hasIndexedDb()) return;
+  await withStore(storeName, "readwrite", store => store.delete(key));
+}
+
+export async function idbClear(storeName: StoreName): Promise<void> {
+  if (!hasIndexedDb()) return;
+  await withStore(storeName, "readwrite", store => store.clear());
+}
@@ -0,0 +1,100 @@
+// Read what a Supabase API key grants without verifying it. Legacy keys are
+// JWTs whose payload names the Postgres role and project; the newer opaque
+// keys only say publishable or secret in their prefix.
+
+export interface ApiKeyInfo {
+  /** Postgres role the key runs as: anon, authenticated, service_role, ... */
+  role: string | null;
+  /** Project ref the key was issued for */
+  ref: string | null;
+  /** Expiry in ms since epoch */
+  expiresAt: number | null;
+  /** Opaque `sb_publishable_` / `sb_secret_` key rather than a JWT */
+  opaque: boolean;
+}
+
+interface JwtPayload {
+  role?: string;
+  ref?: string;
+  exp?: number;
+  /** User id, on access tokens issued by Supabase Auth */
+  sub?: string;
+  email?: string;
+}
+
+export interface AccessTokenInfo {
+  role: string | null;
+  /** Auth user id */
+  subject: string | null;
+  email: string | null;
+  /** Expiry in ms since epoch */
+  expiresAt: number | null;
+}
+
+/** Null when `key` is neither a JWT nor a recognised opaque key */
+export function inspectApiKey(key: string): ApiKeyInfo | null {
+  const trimmed = key.trim();
+  if (trimmed.startsWith("sb_publishable_")) return { role: "anon", ref: null, expiresAt: null, opaque: true };
+  if (trimmed.startsWith("sb_secret_")) return { role: "service_role", ref: null, expiresAt: null, opaque: true };
+
+  const payload = decodeJwtPayload(trimmed);
+  if (!payload) return null;
+  return {
+    role: payload.role ?? null,
+    ref: payload.ref ?? null,
+    expiresAt: typeof payload.exp === "number" ? payload.exp * 1000 : null,
+    opaque: false,
+  };
+}
+
+/** Who a user access token speaks for; null when `token` isn't a JWT */
+export function inspectAccessToken(token: string): AccessTokenInfo | null {
+  const payload = decodeJwtPayload(token.trim());
+  if (!payload) return null;
+  return {
+    role: payload.role ?? null,
+    subject: payload.sub ?? null,
+    email: payload.email ?? null,
+    expiresAt: typeof payload.exp === "number" ? payload.exp * 1000 : null,
+  };
+}
+
+/** Keys that bypass Row Level Security */
+export function isServiceRoleKey(key: string): boolean {
+  return inspectApiKey(key)?.role === "service_role";
+}
+
+/** `abcd1234` from `https://abcd1234.supabase.co`; null for custom domains and self-hosting */
+export function projectRefFromUrl(url: string): string | null {
+  try {
+    return new URL(url.trim()).hostname.match(/^([a-z0-9]+)\.supabase\.(co|in)$/i)?.[1].toLowerCase() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Things worth telling the user about a key before they save it */
+export function apiKeyWarnings(url: string, info: ApiKeyInfo): string[] {
+  const warnings: string[] = [];
+  const urlRef = projectRefFromUrl(url);
+  if (info.ref && urlRef && info.ref !== urlRef) {
+    warnings.push(`Key was issued for project "${info.ref}", but the URL points at "${urlRef}".`);
+  }
+  if (info.expiresAt && info.expiresAt < Date.now()) {
+    warnings.push(`Key expired on ${new Date(info.expiresAt).toLocaleDateString()}.`);
+  }
+  return warnings;
+}
+
+function decodeJwtPayload(token: string): JwtPayload | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const json = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+    const payload = JSON.parse(json);
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,215 @@
+import { diffSchemas, type SchemaDiff, type TableDiff } from "./schema-diff";
+import { dependencyLevels, type ColumnInfo, type EnumInfo, type ForeignKey, type SchemaData, type TableInfo } from "./schema-types";
+
+// Postgres DDL that turns `base` into `target`, built from `diffSchemas`.
+// It is a starting point to review, not something to run blind: introspection
+// doesn't expose view definitions, generated-column expressions or renames,
+// so those come out as comments, and a rename reads as a drop plus an add.
+//
+// Statements run in this order so each one finds what it needs:
+//   1. new enums and enum values
+//   2. drop foreign keys that go away or change
+//   3. create tables, parents before children
+//   4. add and alter columns on existing tables
+//   5. add foreign keys
+//   6. drop tables (children before parents), then columns, then enums
+
+export interface MigrationStatement {
+  sql: string;
+  /** Loses data, or can fail on data the target never had to hold */
+  destructive: boolean;
+  /** Why it's destructive, or what has to be written by hand */
+  note?: string;
+  /** A comment standing in for a step introspection can't produce */
+  manual?: boolean;
+}
+
+export function generateMigration(base: SchemaData, target: SchemaData, diff: SchemaDiff = diffSchemas(base, target)): MigrationStatement[] {
+  const statements: MigrationStatement[] = [];
+  const add = (sql: string, destructive = false, note?: string) => statements.push({ sql, destructive, note });
+  const manual = (note: string, destructive = false) => statements.push({ sql: `-- TODO: ${note}`, destructive, note, manual: true });
+
+  const targetOrder = levelOrder(target);
+  const baseOrder = levelOrder(base);
+  const byTarget = (a: TableDiff, b: TableDiff) => (targetOrder.get(a.id) ?? 0) - (targetOrder.get(b.id) ?? 0);
+  const byBaseReversed = (a: TableDiff, b: TableDiff) => (baseOrder.get(b.id) ?? 0) - (baseOrder.get(a.id) ?? 0);
+
+  // 1. Enums — values can be added in place but never removed
+  const baseEnums = new Map(base.enums.map(e => [enumKey(e), e]));
+  const targetEnums = new Map(target.enums.map(e => [enumKey(e), e]));
+  target.enums.forEach(e => {
+    const before = baseEnums.get(enumKey(e));
+    if (!before) {
+      add(`CREATE TYPE ${qualified(e.schema, e.name)} AS ENUM (${e.values.map(literal).join(", ")});`);
+      return;
+    }
+    e.values.forEach((value, i) => {
+      if (before.values.includes(value)) return;
+      const position = i > 0 ? ` AFTER ${literal(e.values[i - 1])}` : e.values.length > 1 ? ` BEFORE ${literal(e.values[1])}` : "";
+      add(`ALTER TYPE ${qualified(e.schema, e.name)} ADD VALUE ${literal(value)}${position};`);
+    });
+    const dropped = before.values.filter(v => !e.values.includes(v));
+    if (dropped.length > 0) {
+      manual(`${qualified(e.schema, e.name)} no longer has ${dropped.map(literal).join(", ")}. Postgres can't drop enum values; recreate the type and move its columns over.`, true);
+    }
+  });
+
+  // 2. Keys that are going away, or changing, before anything they point at moves
+  diff.tables.filter(t => t.kind === "changed").forEach(t => {
+    t.foreignKeys.filter(fk => fk.kind !== "added").forEach(fk => {
+      add(`ALTER TABLE ${qualified(t.schema, t.name)} DROP CONSTRAINT ${ident(fk.before!.constraintName)};`);
+    });
+  });
+
+  // 3. New tables; their keys come in step 5 so cycles need no special casing
+  diff.tables.filter(t => t.kind === "added").sort(byTarget).forEach(t => {
+    const table = t.after!;
+    if (table.kind === "view") {
+      manual(`create view ${qualified(t.schema, t.name)}; its definition isn't introspected.`);
+      return;
+    }
+    add(createTable(table));
+    table.columns.filter(c => c.isGenerated).forEach(c => manual(`${qualified(t.schema, t.name)}.${ident(c.name)} is generated; add its GENERATED ALWAYS AS (...) STORED expression.`));
+  });
+
+  // 4. Columns on tables both sides have
+  const changed = diff.tables.filter(t => t.kind === "changed").sort(byTarget);
+  changed.forEach(t => {
+    const table = qualified(t.schema, t.name);
+    if (t.after!.kind === "view") {
+      if (t.columns.length > 0) manual(`replace view ${table}; its columns changed and its definition isn't introspected.`);
+      return;
+    }
+    t.columns.forEach(col => {
+      if (col.kind === "added") {
+        const c = col.after!;
+        const failsOnRows = !c.isNullable && !c.defaultValue && !c.identity;
+        add(
+          `ALTER TABLE ${table} ADD COLUMN ${columnDefinition(c)};`,
+          failsOnRows,
+          failsOnRows ? "NOT NULL without a default fails if the table has rows" : undefined,
+        );
+        if (c.isGenerated) manual(`${table}.${ident(c.name)} is generated; add its GENERATED ALWAYS AS (...) STORED expression.`);
+        return;
+      }
+      if (col.kind !== "changed") return;
+      const c = col.after!;
+      const column = `ALTER TABLE ${table} ALTER COLUMN ${ident(c.name)}`;
+      col.changes.forEach(change => {
+        if (change.field === "type") {
+          add(`${column} TYPE ${c.rawType} USING ${ident(c.name)}::${c.rawType};`, true, `rewrites ${change.before} values as ${change.after}; fails on any that don't cast`);
+        } else if (change.field === "nullable") {
+          if (c.isNullable) add(`${column} DROP NOT NULL;`);
+          else add(`${column} SET NOT NULL;`, true, "fails if any row holds NULL");
+        } else if (c.defaultValue) {
+          add(`${column} SET DEFAULT ${c.defaultValue};`);
+        } else {
+          add(`${column} DROP DEFAULT;`);
+        }
+      });
+    });
+  });
+
+  // 5. Keys that are new or changed, once every table and column exists
+  diff.tables.filter(t => t.kind !== "removed").sort(byTarget).forEach(t => {
+    t.foreignKeys.filter(fk => fk.kind !== "removed").forEach(fk => add(addForeignKey(fk.after!)));
+  });
+
+  // 6. Drops last, and children before the parents they reference. Whole
+  // tables go first: one may still hold a key to a column dropped after it
+  diff.tables.filter(t => t.kind === "removed").sort(byBaseReversed).forEach(t => {
+    if (t.before!.kind === "view") {
+      add(`DROP VIEW ${qualified(t.schema, t.name)};`, true, "drops the view definition");
+    } else {
+      add(`DROP TABLE ${qualified(t.schema, t.name)};`, true, "drops the table and every row in it");
+    }
+  });
+  [...changed].sort(byBaseReversed).forEach(t => {
+    if (t.before!.kind === "view") return;
+    t.columns.filter(c => c.kind === "removed").forEach(c => {
+      add(`ALTER TABLE ${qualified(t.schema, t.name)} DROP COLUMN ${ident(c.name)};`, true, "drops the column and its data");
+    });
+  });
+  base.enums.filter(e => !targetEnums.has(enumKey(e))).forEach(e => {
+    add(`DROP TYPE ${qualified(e.schema, e.name)};`, true, "fails while any column still uses it");
+  });
+
+  return statements;
+}
+
+/** The statements as one script, destructive ones called out in comments */
+export function migrationScript(statements: MigrationStatement[], baseName: string, targetName: string): string {
+  const destructive = statements.filter(s => s.destructive).length;
+  const lines = [
+    `-- Migration from ${baseName} to ${targetName}`,
+    `-- ${statements.length} statement${statements.length === 1 ? "" : "s"}, ${destructive} destructive. Review before running.`,
+    "",
+  ];
+  if (statements.length === 0) lines.push("-- No structural differences");
+  statements.forEach(s => {
+    if (s.destructive && !s.manual) lines.push(`-- DESTRUCTIVE: ${s.note}`);
+    lines.push(s.sql);
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function createTable(table: TableInfo): string {
+  const lines = table.columns.map(c => `  ${columnDefinition(c, table.primaryKey.length > 0)}`);
+  if (table.primaryKey.length > 0) lines.push(`  PRIMARY KEY (${table.primaryKey.map(ident).join(", ")})`);
+  return `CREATE TABLE ${qualified(table.schema, table.name)} (\n${lines.join(",\n")}\n);`;
+}
+
+function columnDefinition(c: ColumnInfo, keyedByTable = false): string {
+  const parts = [ident(c.name), c.rawType];
+  if (c.identity) parts.push(`GENERATED ${c.identity} AS IDENTITY`);
+  else if (c.defaultValue && !c.isGenerated) parts.push(`DEFAULT ${c.defaultValue}`);
+  if (!c.isNullable && !(keyedByTable && c.isPrimaryKey)) parts.push("NOT NULL");
+  if (c.isUnique && !c.isPrimaryKey) parts.push("UNIQUE");
+  if (c.check) parts.push(`CHECK (${c.check})`);
+  return parts.join(" ");
+}
+
+function addForeignKey(fk: ForeignKey): string {
+  const schemaOf = (id: string) => id.split(".")[0];
+  let sql = `ALTER TABLE ${qualified(schemaOf(fk.sourceId), fk.sourceTable)} ADD CONSTRAINT ${ident(fk.constraintName)}`
+    + ` FOREIGN KEY (${fk.columns.map(c => ident(c.source)).join(", ")})`
+    + ` REFERENCES ${qualified(schemaOf(fk.targetId), fk.targetTable)} (${fk.columns.map(c => ident(c.target)).join(", ")})`;
+  if (fk.onDelete && fk.onDelete !== "NO ACTION") sql += ` ON DELETE ${fk.onDelete}`;
+  if (fk.onUpdate && fk.onUpdate !== "NO ACTION") sql += ` ON UPDATE ${fk.onUpdate}`;
+  return `${sql};`;
+}
+
+/** Table id → its dependency level, for ordering creates and drops */
+function levelOrder(schema: SchemaData): Map<string, number> {
+  const order = new Map<string, number>();
+  dependencyLevels(schema).forEach((level, i) => level.forEach(t => order.set(t.id, i)));
+  return order;
+}
+
+function enumKey(e: EnumInfo): string {
+  return `${e.schema}.${e.name}`;
+}
+
+// Words Postgres won't take as a bare column or table name
+const RESERVED = new Set([
+  "all", "analyse", "analyze", "and", "any", "array", "as", "asc", "asymmetric", "both", "case", "cast",
+  "check", "collate", "column", "constraint", "create", "current_catalog", "current_date", "current_role",
+  "current_time", "current_timestamp", "current_user", "default", "deferrable", "desc", "distinct", "do",
+  "else", "end", "except", "false", "fetch", "for", "foreign", "from", "grant", "group", "having", "in",
+  "initially", "intersect", "into", "lateral", "leading", "limit", "localtime", "localtimestamp", "not",
+  "null", "offset", "on", "only", "or", "order", "placing", "primary", "references", "returning", "select",
+  "session_user", "some", "symmetric", "table", "then", "to", "trailing", "true", "union", "unique", "user",
+  "using", "variadic", "when", "where", "window", "with",
+]);
+
+function ident(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) && !RESERVED.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function qualified(schema: string, name: string): string {
+  return `${ident(schema)}.${ident(name)}`;
+}
+
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,66 @@
+import type { TypeFamily } from "./schema-types";
+
+// Maps precise Postgres types — including aliases like `int8` or `timestamptz`
+// and modifiers like `(255)` — onto a coarse family for grouping and checks.
+
+const FAMILIES: [TypeFamily, RegExp][] = [
+  ["integer", /^(smallint|integer|bigint|int|int[248]|smallserial|serial|bigserial|serial[248])$/],
+  ["decimal", /^(numeric|decimal|real|double precision|float|float[48]|money)$/],
+  ["text", /^(text|character varying|varchar|character|char|bpchar|citext|name)$/],
+  ["boolean", /^(boolean|bool)$/],
+  ["temporal", /^(date|time|timetz|timestamp|timestamptz|interval|(time|timestamp) with(out)? time zone)$/],
+  ["json", /^(json|jsonb)$/],
+  ["uuid", /^uuid$/],
+  ["binary", /^bytea$/],
+  ["network", /^(inet|cidr|macaddr|macaddr8)$/],
+  ["geometric", /^(point|line|lseg|box|path|polygon|circle|geometry|geography)$/],
+  ["range", /^(int4range|int8range|numrange|tsrange|tstzrange|daterange|int4multirange|int8multirange|nummultirange|tsmultirange|tstzmultirange|datemultirange)$/],
+];
+
+export function typeFamily(rawType: string, enumName?: string): TypeFamily {
+  if (rawType.endsWith("[]")) return "array";
+  if (enumName) return "enum";
+  const base = baseTypeName(rawType);
+  return FAMILIES.find(([, pattern]) => pattern.test(base))?.[0] ?? "other";
+}
+
+/** The type name without modifiers, schema or quoting: `varchar(255)` → `varchar` */
+export function baseTypeName(rawType: string): string {
+  return rawType
+    .toLowerCase()
+    .replace(/\s*\([^)]*\)/g, "")   // varchar(255), timestamp(3) with time zone
+    .replace(/^.*\./, "")          // extensions.geometry
+    .replace(/"/g, "")
+    .trim();
+}
+
+// Aliases folded onto the catalog's own names so `int` and `integer` compare equal
+const ALIASES: Record<string, string> = {
+  smallint: "int2", smallserial: "int2", serial2: "int2",
+  integer: "int4", int: "int4", serial: "int4", serial4: "int4",
+  bigint: "int8", bigserial: "int8", serial8: "int8",
+  real: "float4", "double precision": "float8", float: "float8",
+  decimal: "numeric",
+  "character varying": "varchar", character: "bpchar", char: "bpchar",
+  boolean: "bool",
+  "timestamp without time zone": "timestamp", "timestamp with time zone": "timestamptz",
+  "time without time zone": "time", "time with time zone": "timetz",
+};
+
+/** `integer`, `int` and `serial` → `int4`, `varchar(40)[]` → `varchar[]`; other names pass through */
+export function canonicalTypeName(rawType: string): string {
+  const isArray = rawType.endsWith("[]");
+  const base = baseTypeName(isArray ? rawType.slice(0, -2) : rawType);
+  return `${ALIASES[base] ?? base}${isArray ? "[]" : ""}`;
+}
+
+/** Numeric modifiers of a type: `numeric(10, 2)` → [10, 2], `text` → [] */
+export function typeModifiers(rawType: string): number[] {
+  const match = rawType.match(/\(([^)]*)\)/);
+  return match ? match[1].split(",").map(n => Number(n.trim())).filter(n => !Number.isNaN(n)) : [];
+}
+
+/** Whether two spellings name the same type: `character varying(255)` and `varchar(255)` do */
+export function sameType(a: string, b: string): boolean {
+  return canonicalTypeName(a) === canonicalTypeName(b) && typeModifiers(a).join(",") === typeModifiers(b).join(",");
+}
@@ -0,0 +1,380 @@
+import { typeFamily } from "./pg-types";
+import { tableId, compareColumns, type SchemaData, type TableInfo, type ColumnInfo, type ForeignKey, type FunctionInfo, type FunctionParameter, type EnumInfo, type IndexInfo, type PolicyInfo, type PolicyCommand, type ReferentialAction, type TableKind } from "./schema-types";
+
+// Introspection through a postgres-meta style HTTP API. Unlike PostgREST's
+// OpenAPI document it reads the catalog directly, so indexes, CHECK and UNIQUE
+// constraints, comments, identity/generated columns, referential actions,
+// Row Level Security policies and the real relation kind all survive.
+
+// Just the fields we read from each endpoint
+interface MetaTable {
+  id: number;
+  schema: string;
+  name: string;
+  comment: string | null;
+  live_rows_estimate?: number;
+  primary_keys?: { name: string }[];
+  rls_enabled?: boolean;
+  rls_forced?: boolean;
+}
+
+/** Views and materialized views; their columns come from `/columns` like a table's */
+type MetaView = Pick<MetaTable, "id" | "schema" | "name" | "comment">;
+
+interface MetaColumn {
+  table_id: number;
+  schema: string;
+  table: string;
+  name: string;
+  ordinal_position: number;
+  /** `format_type` without the typmod: `character varying`, `numeric` */
+  data_type: string;
+  format: string;
+  character_maximum_length?: number | null;
+  numeric_precision?: number | null;
+  numeric_scale?: number | null;
+  is_nullable: boolean;
+  is_unique: boolean;
+  is_identity: boolean;
+  identity_generation: "ALWAYS" | "BY DEFAULT" | null;
+  is_generated: boolean;
+  default_value: string | null;
+  comment: string | null;
+  check: string | null;
+  enums: string[];
+}
+
+/** One row per column pair; composite constraints share a constraint name */
+interface MetaRelationship {
+  constraint_name: string;
+  source_schema: string;
+  source_table_name: string;
+  source_column_name: string;
+  target_table_schema: string;
+  target_table_name: string;
+  target_column_name: string;
+  on_delete?: string;
+  on_update?: string;
+}
+
+interface MetaType {
+  name: string;
+  schema: string;
+  enums: string[];
+}
+
+interface MetaIndex {
+  table_id: number;
+  schema: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  access_method: string;
+  index_definition: string;
+  index_attributes: { attribute_name: string }[];
+}
+
+interface MetaFunction {
+  schema: string;
+  name: string;
+  /** Every argument, including OUT and TABLE columns; types are only oids */
+  args: { mode: "in" | "out" | "inout" | "variadic" | "table"; name: string; has_default: boolean }[];
+  /** `pg_get_function_arguments`: the same arguments spelled out, minus TABLE columns */
+  argument_types: string;
+  /** `pg_get_function_result`: `bigint`, `SETOF orders`, `TABLE(id bigint, ...)` */
+  return_type: string;
+  is_set_returning_function: boolean;
+  behavior: "IMMUTABLE" | "STABLE" | "VOLATILE";
+}
+
+interface MetaPolicy {
+  table_id: number;
+  name: string;
+  action: "PERMISSIVE" | "RESTRICTIVE";
+  roles: string[];
+  command: PolicyCommand;
+  definition: string | null;
+  check: string | null;
+}
+
+// pg_constraint stores actions as single letters; some servers pass them through
+const ACTION_CODES: Record<string, ReferentialAction> = {
+  a: "NO ACTION",
+  r: "RESTRICT",
+  c: "CASCADE",
+  n: "SET NULL",
+  d: "SET DEFAULT",
+};
+
+/**
+ * Fetch the schema from a postgres-meta API at `baseUrl`. Schemas are limited
+ * to `schemas` when given, otherwise every non-system schema is read.
+ */
+export async function fetchPostgresMetaSchema(baseUrl: string, key: string, schemas?: string[]): Promise<SchemaData> {
+  const base = baseUrl.replace(/\/+$/, "");
+  const query = schemas && schemas.length > 0
+    ? `?included_schemas=${encodeURIComponent(schemas.join(","))}`
+    : "?include_system_schemas=false";
+
+  const get = async <T,>(path: string): Promise<T> => {
+    const res = await fetch(`${base}${path}${query}`, {
+      headers: {
+        apikey: key,
+        Authorization: `Bearer ${key}`,
+        Accept: "application/json",
+      },
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to fetch ${path} from postgres-meta: ${res.status} ${res.statusText}`);
+    }
+    return res.json();
+  };
+
+  const [tables, views, materializedViews, columns, relationships, types, functions, indexes, policies] = await Promise.all([
+    get<MetaTable[]>("/tables"),
+    get<MetaView[]>("/views"),
+    // Only newer postgres-meta builds list materialized views separately
+    get<MetaView[]>("/materialized_views").catch(() => [] as MetaView[]),
+    get<MetaColumn[]>("/columns"),
+    get<MetaRelationship[]>("/relationships"),
+    get<MetaType[]>("/types"),
+    get<MetaFunction[]>("/functions"),
+    // Older postgres-meta builds don't serve /indexes; the diagram doesn't need them
+    get<MetaIndex[]>("/indexes").catch(() => [] as MetaIndex[]),
+    // Null leaves policies unknown rather than claiming there are none
+    get<MetaPolicy[]>("/policies").catch(() => null),
+  ]);
+
+  return mapPostgresMeta(
+    { tables, views: [...views, ...materializedViews], columns, relationships, types, functions, indexes, policies },
+    schemas,
+  );
+}
+
+function mapPostgresMeta(
+  meta: {
+    tables: MetaTable[];
+    views: MetaView[];
+    columns: MetaColumn[];
+    relationships: MetaRelationship[];
+    types: MetaType[];
+    functions: MetaFunction[];
+    indexes: MetaIndex[];
+    policies?: MetaPolicy[] | null;
+  },
+  requested?: string[],
+): SchemaData {
+  const inScope = (schema: string) => !requested || requested.length === 0 || requested.includes(schema);
+
+  const enums: EnumInfo[] = meta.types
+    .filter(t => t.enums.length > 0 && inScope(t.schema))
+    .map(t => ({ name: t.name, schema: t.schema, values: t.enums }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Relationships grouped into constraints, keyed by source table + constraint name
+  const constraints = new Map<string, MetaRelationship[]>();
+  meta.relationships.forEach(r => {
+    const key = `${tableId(r.source_schema, r.source_table_name)}:${r.constraint_name}`;
+    constraints.set(key, [...(constraints.get(key) || []), r]);
+  });
+  const outgoing = new Map<string, MetaRelationship>();
+  meta.relationships.forEach(r => outgoing.set(`${tableId(r.source_schema, r.source_table_name)}.${r.source_column_name}`, r));
+
+  const columnsByTable = new Map<number, MetaColumn[]>();
+  meta.columns.forEach(c => columnsByTable.set(c.table_id, [...(columnsByTable.get(c.table_id) || []), c]));
+  const indexesByTable = new Map<number, MetaIndex[]>();
+  meta.indexes.forEach(i => indexesByTable.set(i.table_id, [...(indexesByTable.get(i.table_id) || []), i]));
+  const policiesByTable = new Map<number, MetaPolicy[]>();
+  meta.policies?.forEach(p => policiesByTable.set(p.table_id, [...(policiesByTable.get(p.table_id) || []), p]));
+
+  const relations: (MetaTable & { kind: TableKind })[] = [
+    ...meta.tables.map(t => ({ ...t, kind: "table" as const })),
+    ...meta.views.map(v => ({ ...v, kind: "view" as const })),
+  ];
+  const tables: TableInfo[] = relations.filter(t => inScope(t.schema)).map(t => {
+    const id = tableId(t.schema, t.name);
+    const metaColumns = [...(columnsByTable.get(t.id) || [])].sort((a, b) => a.ordinal_position - b.ordinal_position);
+    const primaryKey = (t.primary_keys || []).map(pk => pk.name);
+
+    const columns: ColumnInfo[] = metaColumns.map(c => {
+      const ref = outgoing.get(`${id}.${c.name}`);
+      const enumName = c.enums.length > 0 ? c.format.replace(/^_/, "") : undefined;
+      const dataType = columnType(c);
+      const rawType = withModifiers(dataType, c);
+      return {
+        name: c.name,
+        dataType,
+        rawType,
+        typeFamily: typeFamily(rawType, enumName),
+        isNullable: c.is_nullable,
+        defaultValue: c.default_value,
+        isPrimaryKey: primaryKey.includes(c.name),
+        isForeignKey: !!ref,
+        isUnique: c.is_unique,
+        enumName,
+        description: c.comment || undefined,
+        identity: c.is_identity && c.identity_generation ? c.identity_generation : undefined,
+        isGenerated: c.is_generated || undefined,
+        check: c.check || undefined,
+        references: ref
+          ? { schema: ref.target_table_schema, table: ref.target_table_name, column: ref.target_column_name }
+          : undefined,
+      };
+    });
+    columns.sort(compareColumns);
+
+    return {
+      id,
+      name: t.name,
+      schema: t.schema,
+      kind: t.kind,
+      columns,
+      primaryKey,
+      description: t.comment || undefined,
+      rowCount: t.live_rows_estimate,
+      indexes: (indexesByTable.get(t.id) || []).map(toIndexInfo),
+      rlsEnabled: t.rls_enabled,
+      rlsForced: t.rls_forced,
+      policies: meta.policies && t.kind === "table" ? (policiesByTable.get(t.id) || []).map(toPolicyInfo) : undefined,
+    };
+  });
+  tables.sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+
+  const tableIds = new Set(tables.map(t => t.id));
+  const foreignKeys: ForeignKey[] = [];
+  constraints.forEach(rows => {
+    const [first] = rows;
+    const sourceId = tableId(first.source_schema, first.source_table_name);
+    const targetId = tableId(first.target_table_schema, first.target_table_name);
+    // Edges into schemas we didn't load (auth.users, say) have nowhere to land
+    if (!tableIds.has(sourceId) || !tableIds.has(targetId)) return;
+    foreignKeys.push({
+      constraintName: first.constraint_name,
+      sourceId,
+      sourceTable: first.source_table_name,
+      targetId,
+      targetTable: first.target_table_name,
+      columns: rows.map(r => ({ source: r.source_column_name, target: r.target_column_name })),
+      onDelete: referentialAction(first.on_delete),
+      onUpdate: referentialAction(first.on_update),
+    });
+  });
+
+  const schemas = requested && requested.length > 0
+    ? requested
+    : [...new Set(tables.map(t => t.schema))];
+
+  const functions = meta.functions
+    .filter(f => inScope(f.schema) && isRpc(f))
+    .map(toFunctionInfo)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { tables, foreignKeys, functions, enums, schemas };
+}
+
+/** PostgREST doesn't expose trigger functions, and the OpenAPI route hides `_`-prefixed ones */
+function isRpc(f: MetaFunction): boolean {
+  return !f.name.startsWith("_") && !/^(trigger|event_trigger)$/.test(f.return_type);
+}
+
+/**
+ * Shape a function like the OpenAPI route does: input arguments only, with
+ * types read from `argument_types` since `args` only carries oids.
+ */
+function toFunctionInfo(f: MetaFunction): FunctionInfo {
+  const declared = splitArguments(f.argument_types);
+  const parameters: FunctionParameter[] = [];
+  f.args.filter(a => a.mode !== "table").forEach((arg, i) => {
+    if (arg.mode === "out") return;
+    parameters.push({ name: arg.name, dataType: argumentType(declared[i] ?? "", arg.name), isRequired: !arg.has_default });
+  });
+
+  const result = f.return_type.replace(/^SETOF\s+/i, "");
+  return {
+    name: f.name,
+    schema: f.schema,
+    parameters,
+    // TABLE(...) results and void have no single type to point at
+    returnType: /^table\s*\(/i.test(result) || result === "void" ? null : result.replace(/^.*\./, ""),
+    returnsSet: f.is_set_returning_function,
+    isReadOnly: f.behavior !== "VOLATILE",
+  };
+}
+
+/** Split `pg_get_function_arguments` output on commas outside parentheses and string defaults */
+function splitArguments(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const ch of text) {
+    if (ch === "'") quoted = !quoted;
+    else if (!quoted && ch === "(") depth++;
+    else if (!quoted && ch === ")") depth--;
+    if (ch === "," && depth === 0 && !quoted) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** `INOUT p_id bigint DEFAULT 1` → `bigint` */
+function argumentType(declared: string, name: string): string {
+  let rest = declared.replace(/\s+DEFAULT\s+[\s\S]*$/i, "").replace(/^(IN|OUT|INOUT|VARIADIC)\s+/i, "");
+  const quoted = `"${name.replace(/"/g, '""')}"`;
+  if (name && rest.startsWith(`${quoted} `)) rest = rest.slice(quoted.length + 1);
+  else if (name && rest.startsWith(`${name} `)) rest = rest.slice(name.length + 1);
+  return rest.trim() || "unknown";
+}
+
+/** Match the OpenAPI route's naming: enums by name, arrays as `element[]` */
+function columnType(c: MetaColumn): string {
+  if (c.data_type === "ARRAY") return `${c.format.replace(/^_/, "")}[]`;
+  if (c.data_type === "USER-DEFINED") return c.format;
+  return c.data_type;
+}
+
+/**
+ * Put back the length or precision `data_type` leaves out: `character
+ * varying(255)`, `numeric(12,2)`. Integer columns report a precision too, so
+ * only types that take the modifier get one.
+ */
+function withModifiers(dataType: string, c: MetaColumn): string {
+  if (/^(character varying|character|bit varying|bit)$/.test(dataType) && c.character_maximum_length) {
+    return `${dataType}(${c.character_maximum_length})`;
+  }
+  if (dataType === "numeric" && c.numeric_precision) {
+    return c.numeric_scale ? `numeric(${c.numeric_precision},${c.numeric_scale})` : `numeric(${c.numeric_precision})`;
+  }
+  return dataType;
+}
+
+function toIndexInfo(i: MetaIndex): IndexInfo {
+  return {
+    name: i.index_definition.match(/INDEX\s+(?:CONCURRENTLY\s+)?("(?:[^"]|"")+"|\S+)/i)?.[1].replace(/"/g, "") ?? "",
+    columns: i.index_attributes.map(a => a.attribute_name),
+    isUnique: i.is_unique,
+    isPrimary: i.is_primary,
+    method: i.access_method,
+    definition: i.index_definition,
+  };
+}
+
+function toPolicyInfo(p: MetaPolicy): PolicyInfo {
+  return {
+    name: p.name,
+    command: p.command,
+    permissive: p.action !== "RESTRICTIVE",
+    roles: p.roles,
+    using: p.definition,
+    withCheck: p.check,
+  };
+}
+
+function referentialAction(value: string | undefined): ReferentialAction | undefined {
+  if (!value) return undefined;
+  return ACTION_CODES[value] ?? (value.toUpperCase() as ReferentialAction);
+}
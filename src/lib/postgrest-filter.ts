@@ -0,0 +1,93 @@
+import type { ColumnInfo, TableInfo } from "./schema-types";
+
+// Row filters for the table data browser, written out as PostgREST's
+// `column=operator.value` query parameters.
+
+export type FilterOperator = "eq" | "neq" | "gt" | "lt" | "like" | "ilike" | "is.null" | "in" | "cs" | "fts";
+
+export interface RowFilter {
+  column: string;
+  operator: FilterOperator;
+  /** Raw input; lists for `in` and `cs` are comma-separated */
+  value: string;
+}
+
+export const FILTER_OPERATORS: Record<FilterOperator, { label: string; placeholder?: string }> = {
+  eq: { label: "=", placeholder: "value" },
+  neq: { label: "≠", placeholder: "value" },
+  gt: { label: ">", placeholder: "value" },
+  lt: { label: "<", placeholder: "value" },
+  like: { label: "like", placeholder: "%pattern%" },
+  ilike: { label: "ilike", placeholder: "%pattern%" },
+  "is.null": { label: "is null" },
+  in: { label: "in", placeholder: "a, b, c" },
+  cs: { label: "contains", placeholder: "a, b" },
+  fts: { label: "full-text", placeholder: "words & more" },
+};
+
+/** Operators that make sense for the column's type; `is.null` only when it can be null */
+export function operatorsFor(column: ColumnInfo): FilterOperator[] {
+  const ops = ((): FilterOperator[] => {
+    if (column.dataType === "tsvector") return ["fts"];
+    switch (column.typeFamily) {
+      case "text": return ["eq", "neq", "like", "ilike", "in", "fts"];
+      case "integer":
+      case "decimal":
+      case "temporal": return ["eq", "neq", "gt", "lt", "in"];
+      case "boolean": return ["eq", "neq"];
+      case "uuid":
+      case "enum": return ["eq", "neq", "in"];
+      case "array": return ["cs"];
+      // json has no equality and the rest compare as text at best
+      case "json": return [];
+      default: return ["eq", "neq"];
+    }
+  })();
+  return column.isNullable ? [...ops, "is.null"] : ops;
+}
+
+/** Whether `filter` has everything its operator needs */
+export function isComplete(filter: RowFilter): boolean {
+  return filter.operator === "is.null" || filter.value.trim() !== "";
+}
+
+// PostgREST reserves these inside lists; such items go in double quotes
+const RESERVED = /[,.:(){}"\\\s]/;
+
+function listItems(value: string): string {
+  return value
+    .split(",")
+    .map(v => v.trim())
+    .filter(Boolean)
+    .map(v => (RESERVED.test(v) ? `"${v.replace(/["\\]/g, "\\$&")}"` : v))
+    .join(",");
+}
+
+/** The `operator.value` half of a filter parameter */
+export function filterValue(filter: RowFilter): string {
+  const value = filter.value.trim();
+  switch (filter.operator) {
+    case "is.null": return "is.null";
+    case "in": return `in.(${listItems(value)})`;
+    case "cs": return `cs.{${listItems(value)}}`;
+    default: return `${filter.operator}.${value}`;
+  }
+}
+
+export interface RowsQuery {
+  filters: RowFilter[];
+  limit: number;
+  offset: number;
+}
+
+/** Request URL for a page of `table`'s rows; incomplete filters are left out */
+export function rowsUrl(baseUrl: string, table: TableInfo, { filters, limit, offset }: RowsQuery): string {
+  const params = [
+    "select=*",
+    ...filters.filter(isComplete).map(f => `${encodeURIComponent(f.column)}=${encodeURIComponent(filterValue(f))}`),
+    `order=${encodeURIComponent(table.columns[0]?.name || "id")}`,
+    `limit=${limit}`,
+    `offset=${offset}`,
+  ];
+  return `${baseUrl}/rest/v1/${encodeURIComponent(table.name)}?${params.join("&")}`;
+}
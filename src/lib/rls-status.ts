@@ -0,0 +1,9 @@
+import type { RlsStatus, TableInfo } from "./schema-types";
+
+/** Restrictive policies only narrow what permissive ones allow, so on their own a table stays closed */
+export function rlsStatus(table: TableInfo): RlsStatus {
+  if (table.rlsEnabled === undefined) return "unknown";
+  if (!table.rlsEnabled) return "disabled";
+  if (!table.policies) return "unknown";
+  return table.policies.some(p => p.permissive) ? "policies" : "no-policies";
+}
@@ -0,0 +1,37 @@
+import { fetchSchemaForConnection } from "./schema-introspection";
+import { listSnapshots, recordSnapshot } from "./schema-history";
+import type { ProjectConnection, SchemaData } from "./schema-types";
+
+// Schema snapshots are kept per connection in the react-query cache (see
+// App.tsx), so switching projects reopens the last snapshot at once while a
+// fresh copy loads behind it. Locking the vault drops every cached snapshot
+// along with the decrypted connections. Across reloads the newest entry of
+// the encrypted schema history (schema-history.ts) stands in, so that only
+// works for a remembered vault; a session-only vault fetches again.
+
+/** Snapshots younger than this are reused without a background refetch */
+export const SCHEMA_STALE_MS = 30_000;
+
+export const schemaQueryKey = (connectionId: string) => ["schema", connectionId] as const;
+export const ALL_SCHEMAS_KEY = ["schema"] as const;
+
+/** Query options shared by the first load and background refreshes; every fetch lands in the history */
+export function schemaQueryOptions(connection: ProjectConnection) {
+  return {
+    queryKey: schemaQueryKey(connection.id),
+    queryFn: async () => {
+      const schema = await fetchSchemaForConnection(connection);
+      // History is a convenience; a full disk shouldn't fail the load
+      recordSnapshot(connection.id, schema).catch(() => { /* ignore */ });
+      return schema;
+    },
+    staleTime: SCHEMA_STALE_MS,
+  };
+}
+
+/** The newest persisted schema for `connectionId` and when it was last fetched, or null */
+export async function persistedSchema(connectionId: string): Promise<{ schema: SchemaData; fetchedAt: number } | null> {
+  const snapshots = await listSnapshots(connectionId).catch(() => []);
+  const latest = snapshots[snapshots.length - 1];
+  return latest ? { schema: latest.schema, fetchedAt: latest.lastSeenAt } : null;
+}
@@ -0,0 +1,8 @@
+// Hues picked to stay clear of the PK (warning) / FK (info) / RPC accents
+const SCHEMA_HUES = [250, 160, 35, 190, 280, 95, 0, 210];
+
+/** Stable per-schema accent, indexed by the schema's position in `schemas` */
+export function schemaColor(schema: string, schemas: string[], alpha = 1): string {
+  const index = Math.max(0, schemas.indexOf(schema));
+  return `hsla(${SCHEMA_HUES[index % SCHEMA_HUES.length]}, 65%, 62%, ${alpha})`;
+}
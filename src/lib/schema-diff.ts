@@ -0,0 +1,229 @@
+import { sameType } from "./pg-types";
+import { fkColumnList, type ColumnInfo, type ForeignKey, type SchemaData, type TableInfo } from "./schema-types";
+
+// Structural diff between two schemas, e.g. prod (`base`) against staging
+// (`target`). "added" means present only in `target`. Tables match on
+// `schema.name`, columns on name, and foreign keys on their source columns:
+// constraint names are generated per database and routinely differ between
+// environments that are otherwise identical.
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  field: "type" | "nullable" | "default";
+  before: string;
+  after: string;
+}
+
+export interface ColumnDiff {
+  name: string;
+  kind: ChangeKind;
+  before?: ColumnInfo;
+  after?: ColumnInfo;
+  /** Empty unless `kind` is "changed" */
+  changes: FieldChange[];
+}
+
+export interface ForeignKeyDiff {
+  kind: ChangeKind;
+  before?: ForeignKey;
+  after?: ForeignKey;
+  /** Human-readable differences for a changed key */
+  changes: string[];
+}
+
+export interface TableDiff {
+  id: string;
+  schema: string;
+  name: string;
+  kind: ChangeKind;
+  before?: TableInfo;
+  after?: TableInfo;
+  /** Only columns that differ */
+  columns: ColumnDiff[];
+  /** Keys whose source column is in this table */
+  foreignKeys: ForeignKeyDiff[];
+}
+
+export interface SchemaDiff {
+  /** Only tables with a difference, sorted by id */
+  tables: TableDiff[];
+  summary: Record<ChangeKind, number>;
+}
+
+export function diffSchemas(base: SchemaData, target: SchemaData): SchemaDiff {
+  const baseTables = new Map(base.tables.map(t => [t.id, t]));
+  const targetTables = new Map(target.tables.map(t => [t.id, t]));
+  const ids = [...new Set([...baseTables.keys(), ...targetTables.keys()])].sort();
+
+  const tables: TableDiff[] = [];
+  ids.forEach(id => {
+    const before = baseTables.get(id);
+    const after = targetTables.get(id);
+    const table = (after ?? before)!;
+    const columns = diffColumns(before?.columns ?? [], after?.columns ?? []);
+    const foreignKeys = diffForeignKeys(
+      base.foreignKeys.filter(fk => fk.sourceId === id),
+      target.foreignKeys.filter(fk => fk.sourceId === id),
+    );
+
+    const kind: ChangeKind | null = !before ? "added"
+      : !after ? "removed"
+      : columns.length > 0 || foreignKeys.length > 0 ? "changed"
+      : null;
+    if (kind) tables.push({ id, schema: table.schema, name: table.name, kind, before, after, columns, foreignKeys });
+  });
+
+  const summary = { added: 0, removed: 0, changed: 0 };
+  tables.forEach(t => summary[t.kind]++);
+  return { tables, summary };
+}
+
+function diffColumns(before: ColumnInfo[], after: ColumnInfo[]): ColumnDiff[] {
+  const beforeByName = new Map(before.map(c => [c.name, c]));
+  const afterByName = new Map(after.map(c => [c.name, c]));
+  const diffs: ColumnDiff[] = [];
+
+  before.forEach(b => {
+    const a = afterByName.get(b.name);
+    if (!a) {
+      diffs.push({ name: b.name, kind: "removed", before: b, changes: [] });
+      return;
+    }
+    const changes: FieldChange[] = [];
+    if (!sameType(b.rawType, a.rawType)) changes.push({ field: "type", before: b.rawType, after: a.rawType });
+    if (b.isNullable !== a.isNullable) {
+      changes.push({ field: "nullable", before: nullability(b), after: nullability(a) });
+    }
+    if ((b.defaultValue ?? "") !== (a.defaultValue ?? "")) {
+      changes.push({ field: "default", before: b.defaultValue ?? "none", after: a.defaultValue ?? "none" });
+    }
+    if (changes.length > 0) diffs.push({ name: b.name, kind: "changed", before: b, after: a, changes });
+  });
+  after.forEach(a => {
+    if (!beforeByName.has(a.name)) diffs.push({ name: a.name, kind: "added", after: a, changes: [] });
+  });
+  return diffs;
+}
+
+function diffForeignKeys(before: ForeignKey[], after: ForeignKey[]): ForeignKeyDiff[] {
+  const key = (fk: ForeignKey) => fkColumnList(fk, "source");
+  const afterByKey = new Map(after.map(fk => [key(fk), fk]));
+  const beforeKeys = new Set(before.map(key));
+  const diffs: ForeignKeyDiff[] = [];
+
+  before.forEach(b => {
+    const a = afterByKey.get(key(b));
+    if (!a) {
+      diffs.push({ kind: "removed", before: b, changes: [] });
+      return;
+    }
+    const changes: string[] = [];
+    const bRef = `${b.targetId}.${fkColumnList(b, "target")}`;
+    const aRef = `${a.targetId}.${fkColumnList(a, "target")}`;
+    if (bRef !== aRef) changes.push(`references ${bRef} → ${aRef}`);
+    // Actions are only known from catalog introspection; don't flag one side missing them
+    if (b.onDelete && a.onDelete && b.onDelete !== a.onDelete) changes.push(`on delete ${b.onDelete} → ${a.onDelete}`);
+    if (b.onUpdate && a.onUpdate && b.onUpdate !== a.onUpdate) changes.push(`on update ${b.onUpdate} → ${a.onUpdate}`);
+    if (changes.length > 0) diffs.push({ kind: "changed", before: b, after: a, changes });
+  });
+  after.forEach(a => {
+    if (!beforeKeys.has(key(a))) diffs.push({ kind: "added", after: a, changes: [] });
+  });
+  return diffs;
+}
+
+function nullability(c: ColumnInfo): string {
+  return c.isNullable ? "NULL" : "NOT NULL";
+}
+
+/** Per-element change kinds for drawing a diff over a diagram */
+export interface DiffStatus {
+  tables: Map<string, ChangeKind>;
+  /** Keyed `tableId.column` */
+  columns: Map<string, ChangeKind>;
+  /** Keyed `sourceId:constraintName` of the key as drawn */
+  foreignKeys: Map<string, ChangeKind>;
+}
+
+/**
+ * One schema holding both sides, for the diagram overlay: everything in
+ * `target`, plus the tables, columns and keys that only `base` has. Pair it
+ * with `diffStatus` to color what changed.
+ */
+export function overlaySchema(base: SchemaData, target: SchemaData, diff: SchemaDiff): SchemaData {
+  const byId = new Map(diff.tables.map(t => [t.id, t]));
+  const tables = target.tables.map(t => {
+    const removed = byId.get(t.id)?.columns.filter(c => c.kind === "removed").map(c => c.before!) ?? [];
+    return removed.length > 0 ? { ...t, columns: [...t.columns, ...removed] } : t;
+  });
+  diff.tables.filter(t => t.kind === "removed").forEach(t => tables.push(t.before!));
+
+  const removedKeys = diff.tables.flatMap(t => t.foreignKeys.filter(fk => fk.kind === "removed").map(fk => fk.before!));
+  const ids = new Set(tables.map(t => t.id));
+  return {
+    ...target,
+    tables,
+    foreignKeys: [
+      ...target.foreignKeys,
+      ...removedKeys.filter(fk => ids.has(fk.sourceId) && ids.has(fk.targetId)),
+    ],
+    enums: [...target.enums, ...base.enums.filter(e => !target.enums.some(t => t.schema === e.schema && t.name === e.name))],
+    schemas: [...new Set([...target.schemas, ...base.schemas])],
+  };
+}
+
+export function diffStatus(diff: SchemaDiff): DiffStatus {
+  const status: DiffStatus = { tables: new Map(), columns: new Map(), foreignKeys: new Map() };
+  diff.tables.forEach(t => {
+    status.tables.set(t.id, t.kind);
+    t.columns.forEach(c => status.columns.set(`${t.id}.${c.name}`, c.kind));
+    t.foreignKeys.forEach(fk => {
+      const drawn = (fk.after ?? fk.before)!;
+      status.foreignKeys.set(`${drawn.sourceId}:${drawn.constraintName}`, fk.kind);
+    });
+  });
+  return status;
+}
+
+/**
+ * A short digest of the structure the views draw. Row counts and estimates
+ * are left out so a busy table doesn't read as a schema change.
+ */
+export function schemaFingerprint(schema: SchemaData): string {
+  const structure = {
+    tables: schema.tables.map(t => [
+      t.id,
+      t.kind,
+      t.description ?? "",
+      t.columns.map(c => [c.name, c.rawType, c.isNullable, c.defaultValue, c.isPrimaryKey, c.isForeignKey, c.isUnique, c.description ?? ""]),
+      (t.indexes ?? []).map(i => i.definition),
+      // Only when the source knows, so other sources keep their fingerprints
+      ...(t.rlsEnabled === undefined ? [] : [[t.rlsEnabled, t.rlsForced ?? false, (t.policies ?? []).map(p => [p.name, p.command, p.permissive, p.roles, p.using, p.withCheck])]]),
+    ]),
+    foreignKeys: schema.foreignKeys.map(fk => [fk.sourceId, fk.targetId, fk.constraintName, fk.columns, fk.onDelete ?? "", fk.onUpdate ?? ""]),
+    functions: schema.functions.map(fn => [fn.schema, fn.name, fn.parameters.map(p => [p.name, p.dataType]), fn.returnType]),
+    enums: schema.enums.map(e => [e.schema, e.name, e.values]),
+  };
+  return fnv1a(JSON.stringify(structure, sortedReplacer));
+}
+
+// Arrays of tables/functions come back in whatever order the source lists them
+function sortedReplacer(_key: string, value: unknown): unknown {
+  if (Array.isArray(value) && value.every(Array.isArray)) {
+    return value
+      .map(item => [JSON.stringify(item), item] as const)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([, item]) => item);
+  }
+  return value;
+}
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,68 @@
+import { decryptWithKey, encryptWithKey } from "./crypto";
+import { getDataKey } from "./data-key";
+import { idbGet, idbPut, idbDelete, idbClear, hasIndexedDb } from "./idb";
+import { schemaFingerprint } from "./schema-diff";
+import type { SchemaData } from "./schema-types";
+
+// How each connection's schema looked over time. A snapshot is only added
+// when the structure differs from the newest one; refetching an unchanged
+// schema just moves that snapshot's `lastSeenAt` forward. Kept in IndexedDB,
+// encrypted under the data key (data-key.ts), so the timeline survives reloads
+// of a remembered vault; without the key nothing is read or written.
+
+/** Snapshots kept per connection; the oldest are dropped first */
+export const MAX_SNAPSHOTS = 30;
+
+export interface SchemaSnapshot {
+  /** When this structure was first seen */
+  takenAt: number;
+  /** When a fetch last returned this same structure */
+  lastSeenAt: number;
+  fingerprint: string;
+  schema: SchemaData;
+}
+
+interface HistoryRecord {
+  connectionId: string;
+  /** Encrypted JSON of the snapshots, oldest first */
+  data: string;
+}
+
+/** Oldest first; empty while locked, for session-only vaults, or when the record can't be decrypted */
+export async function listSnapshots(connectionId: string): Promise<SchemaSnapshot[]> {
+  const key = getDataKey();
+  if (!key) return [];
+  const record = await idbGet<Partial<HistoryRecord>>("snapshots", connectionId);
+  // Early builds stored history in the clear; that is cleared when the key is created
+  if (typeof record?.data !== "string") return [];
+  try {
+    return JSON.parse(await decryptWithKey(record.data, key)) as SchemaSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+export async function recordSnapshot(connectionId: string, schema: SchemaData): Promise<void> {
+  const key = getDataKey();
+  if (!key || !hasIndexedDb()) return;
+  const snapshots = await listSnapshots(connectionId);
+  const fingerprint = schemaFingerprint(schema);
+  const now = Date.now();
+  const latest = snapshots[snapshots.length - 1];
+
+  if (latest?.fingerprint === fingerprint) {
+    latest.lastSeenAt = now;
+  } else {
+    snapshots.push({ takenAt: now, lastSeenAt: now, fingerprint, schema });
+  }
+  const data = await encryptWithKey(JSON.stringify(snapshots.slice(-MAX_SNAPSHOTS)), key);
+  await idbPut<HistoryRecord>("snapshots", connectionId, { connectionId, data });
+}
+
+export async function deleteHistory(connectionId: string): Promise<void> {
+  await idbDelete("snapshots", connectionId);
+}
+
+export async function clearHistory(): Promise<void> {
+  await idbClear("snapshots");
+}
@@ -1,60 +1,176 @@
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import type { SchemaData, TableInfo, ColumnInfo, ForeignKey } from "./schema-types";
-
-export function createSupabaseClient(url: string, key: string): SupabaseClient {
-  return createClient(url, key);
-}
-
-export async function testConnection(client: SupabaseClient): Promise<boolean> {
-  try {
-    const { error } = await client.from("_dummy_test_").select("*").limit(0);
-    // A 404 / PGRST error is fine — it means connection works, table just doesn't exist
-    if (error && !error.message.includes("does not exist") && !error.code?.startsWith("PGRST")) {
-      // Last resort — just check if we can reach the API
-      const url = (client as any).supabaseUrl || "";
-      const key = (client as any).supabaseKey || "";
-      const res = await fetch(`${url}/rest/v1/`, {
-        headers: { apikey: key },
-      });
-      return res.ok;
-    }
-    return true;
-  } catch {
-    return false;
-  }
+import { createClient, SupabaseClient, type SupabaseClientOptions } from "@supabase/supabase-js";
+import { fetchPostgresMetaSchema } from "./postgres-meta";
+import { typeFamily } from "./pg-types";
+import { tableId, compareColumns, type ProjectConnection, type SchemaData, type TableInfo, type ColumnInfo, type ForeignKey, type FunctionInfo, type FunctionParameter, type EnumInfo } from "./schema-types";
+
+// Just the parts of PostgREST's OpenAPI (Swagger 2.0) output we read
+interface OpenApiSchema {
+  type?: string;
+  format?: string;
+  maxLength?: number;
+  $ref?: string;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+}
+
+interface OpenApiParameter {
+  name?: string;
+  in?: string;
+  type?: string;
+  format?: string;
+  items?: OpenApiSchema;
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiOperation {
+  parameters?: OpenApiParameter[];
+  responses?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+interface OpenApiPathItem {
+  get?: OpenApiOperation;
+  post?: OpenApiOperation;
+  patch?: OpenApiOperation;
+  delete?: OpenApiOperation;
+}
+
+export function createSupabaseClient(url: string, key: string, options?: SupabaseClientOptions<"public">): SupabaseClient {
+  return createClient(url, key, options);
 }
 
 /**
  * Fetch schema using Supabase's OpenAPI spec endpoint.
  * Every Supabase project exposes GET /rest/v1/ which returns an OpenAPI JSON
- * document describing all public tables, columns, types, and relationships.
+ * document describing the tables, views, functions, and relationships of one
+ * schema. PostgREST picks that schema from the `Accept-Profile` header, so each
+ * requested schema is fetched separately and the results merged.
  */
-export async function fetchSchema(client: SupabaseClient): Promise<SchemaData> {
+export async function fetchSchema(client: SupabaseClient, schemas?: string[]): Promise<SchemaData> {
   const url = (client as any).supabaseUrl || "";
   const key = (client as any).supabaseKey || "";
 
-  const res = await fetch(`${url}/rest/v1/`, {
-    headers: {
-      apikey: key,
-      Authorization: `Bearer ${key}`,
-      Accept: "application/openapi+json",
-    },
-  });
+  const fetchProfile = async (profile?: string) => {
+    const res = await fetch(`${url}/rest/v1/`, {
+      headers: {
+        apikey: key,
+        Authorization: `Bearer ${key}`,
+        Accept: "application/openapi+json",
+        ...(profile ? { "Accept-Profile": profile } : {}),
+      },
+    });
+
+    if (!res.ok) {
+      const target = profile ? ` for schema "${profile}"` : "";
+      throw new Error(`Failed to fetch schema${target}: ${res.status} ${res.statusText}`);
+    }
+
+    return parseOpenApiSpec(await res.json(), profile);
+  };
+
+  if (!schemas || schemas.length === 0) {
+    return fetchProfile();
+  }
+
+  const parts = await Promise.all(schemas.map(s => fetchProfile(s)));
+  return mergeSchemas(parts);
+}
 
-  if (!res.ok) {
-    throw new Error(`Failed to fetch schema: ${res.status} ${res.statusText}`);
+/**
+ * Introspect a saved connection with the strategy it was set up for. Supabase
+ * routes postgres-meta through `/pg`, which is the default base URL.
+ */
+export async function fetchSchemaForConnection(conn: ProjectConnection): Promise<SchemaData> {
+  if (conn.strategy === "pg-meta") {
+    return fetchPostgresMetaSchema(conn.metaUrl || `${conn.url.replace(/\/+$/, "")}/pg`, conn.anonKey, conn.schemas);
   }
+  return fetchSchema(createSupabaseClient(conn.url, conn.anonKey), conn.schemas);
+}
 
-  const spec = await res.json();
-  return parseOpenApiSpec(spec);
+/**
+ * Combine per-profile results. PostgREST's FK hints only carry a bare table
+ * name, so a reference that doesn't exist in its own schema is re-pointed at
+ * the one other schema that has a table by that name.
+ */
+function mergeSchemas(parts: SchemaData[]): SchemaData {
+  const tables = parts.flatMap(p => p.tables);
+  const tableById = new Map(tables.map(t => [t.id, t]));
+  const schemasByName = new Map<string, string[]>();
+  tables.forEach(t => schemasByName.set(t.name, [...(schemasByName.get(t.name) || []), t.schema]));
+
+  const resolve = (schema: string, table: string) => {
+    if (tableById.has(tableId(schema, table))) return schema;
+    const candidates = schemasByName.get(table) || [];
+    return candidates.length === 1 ? candidates[0] : schema;
+  };
+
+  const foreignKeys = parts.flatMap(p => p.foreignKeys).map(fk => {
+    const targetSchema = resolve(tableById.get(fk.sourceId)?.schema ?? "public", fk.targetTable);
+    return { ...fk, targetId: tableId(targetSchema, fk.targetTable) };
+  });
+  tables.forEach(t => t.columns.forEach(c => {
+    if (c.references) c.references.schema = resolve(c.references.schema, c.references.table);
+  }));
+
+  const enums = new Map<string, EnumInfo>();
+  parts.flatMap(p => p.enums).forEach(e => {
+    const existing = enums.get(`${e.schema}.${e.name}`);
+    if (existing) {
+      e.values.forEach(v => { if (!existing.values.includes(v)) existing.values.push(v); });
+    } else {
+      enums.set(`${e.schema}.${e.name}`, { ...e, values: [...e.values] });
+    }
+  });
+
+  return {
+    tables,
+    foreignKeys,
+    functions: parts.flatMap(p => p.functions),
+    enums: [...enums.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    schemas: parts.flatMap(p => p.schemas),
+  };
+}
+
+/**
+ * The `COMMENT ON` text in a PostgREST description. PostgREST appends its own
+ * "Note:" block with `<pk/>`/`<fk .../>` markers after the comment; that part
+ * is dropped.
+ */
+function commentText(description: unknown): string | undefined {
+  if (typeof description !== "string") return undefined;
+  const text = description
+    .replace(/<(?:pk|fk)\b[^>]*>/g, "")
+    .replace(/^This is a (?:Primary Key|Foreign Key to `[^`]*`)\.$/gm, "")
+    .trimEnd()
+    .replace(/(?:^|\n)Note:$/, "")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * The declared column type. PostgREST's `format` is the Postgres type name
+ * (`character varying`, `timestamp with time zone`, `jsonb`, `text[]`) and
+ * `maxLength` carries a varchar/char length. Numeric precision isn't exposed.
+ */
+function openApiRawType(colDef: OpenApiSchema): string {
+  let raw = colDef.format
+    || (colDef.type === "array" && colDef.items ? `${colDef.items.format || colDef.items.type || "unknown"}[]` : colDef.type)
+    || "unknown";
+  const length = colDef.maxLength ?? colDef.items?.maxLength;
+  if (length && !raw.includes("(")) {
+    raw = raw.endsWith("[]") ? `${raw.slice(0, -2)}(${length})[]` : `${raw}(${length})`;
+  }
+  return raw;
 }
 
-function parseOpenApiSpec(spec: any): SchemaData {
+export function parseOpenApiSpec(spec: any, schemaName = "public"): SchemaData {
   const definitions = spec.definitions || {};
   const paths = spec.paths || {};
   const tables: TableInfo[] = [];
-  const foreignKeys: ForeignKey[] = [];
+  const fkLinks: ForeignKeyLink[] = [];
   const fkSet = new Set<string>();
+  const enums = new Map<string, EnumInfo>();
 
   // Parse each definition as a table
   for (const [tableName, def] of Object.entries<any>(definitions)) {
@@ -64,24 +180,21 @@ function parseOpenApiSpec(spec: any): SchemaData {
     const properties = def.properties || {};
     const requiredFields = new Set(def.required || []);
     const columns: ColumnInfo[] = [];
+    const primaryKey: string[] = [];
 
     for (const [colName, colDef] of Object.entries<any>(properties)) {
       const isPk = colDef.description?.includes("<pk") || false;
       const fkMatch = colDef.description?.match(/<fk\s+table='([^']+)'\s+column='([^']+)'/);
       const isFk = !!fkMatch;
 
+      if (isPk) primaryKey.push(colName);
+
       if (isFk) {
-        const fk: ForeignKey = {
-          constraintName: `${tableName}_${colName}_fkey`,
-          sourceTable: tableName,
-          sourceColumn: colName,
-          targetTable: fkMatch[1],
-          targetColumn: fkMatch[2],
-        };
-        const fkKey = `${fk.sourceTable}.${fk.sourceColumn}->${fk.targetTable}.${fk.targetColumn}`;
+        const link = { sourceTable: tableName, sourceColumn: colName, targetTable: fkMatch[1], targetColumn: fkMatch[2] };
+        const fkKey = `${link.sourceTable}.${link.sourceColumn}->${link.targetTable}.${link.targetColumn}`;
         if (!fkSet.has(fkKey)) {
           fkSet.add(fkKey);
-          foreignKeys.push(fk);
+          fkLinks.push(link);
         }
       }
 
@@ -95,36 +208,214 @@ function parseOpenApiSpec(spec: any): SchemaData {
         dataType = `${colDef.items.type || colDef.items.format || "unknown"}[]`;
       }
 
+      const enumDef = colDef.enum ? colDef : colDef.items?.enum ? colDef.items : null;
+      const enumInfo = enumDef ? collectEnum(enums, enumDef, schemaName, `${tableName}_${colName}`) : undefined;
+      if (enumInfo) {
+        dataType = colDef.enum ? enumInfo.name : `${enumInfo.name}[]`;
+      }
+      const rawType = enumInfo ? dataType : openApiRawType(colDef);
+
       columns.push({
         name: colName,
+        description: commentText(colDef.description),
         dataType,
+        rawType,
+        typeFamily: typeFamily(rawType, enumInfo?.name),
         isNullable: !requiredFields.has(colName),
         defaultValue: colDef.default ?? null,
         isPrimaryKey: isPk,
         isForeignKey: isFk,
         isUnique: false,
-        references: isFk ? { table: fkMatch[1], column: fkMatch[2] } : undefined,
+        enumName: enumInfo?.name,
+        references: isFk ? { schema: schemaName, table: fkMatch[1], column: fkMatch[2] } : undefined,
       });
     }
 
-    // Sort: PKs first, then FKs, then rest alphabetically
-    columns.sort((a, b) => {
-      if (a.isPrimaryKey && !b.isPrimaryKey) return -1;
-      if (!a.isPrimaryKey && b.isPrimaryKey) return 1;
-      if (a.isForeignKey && !b.isForeignKey) return -1;
-      if (!a.isForeignKey && b.isForeignKey) return 1;
-      return a.name.localeCompare(b.name);
-    });
+    columns.sort(compareColumns);
 
     tables.push({
+      id: tableId(schemaName, tableName),
       name: tableName,
-      schema: "public",
+      schema: schemaName,
+      kind: isReadOnlyPath(paths[`/${tableName}`]) ? "view" : "table",
       columns,
+      primaryKey,
+      description: commentText(def.description),
     });
   }
 
   // Sort tables alphabetically
   tables.sort((a, b) => a.name.localeCompare(b.name));
 
-  return { tables, foreignKeys, enums: [] };
+  const foreignKeys = groupForeignKeys(fkLinks, tables, schemaName);
+
+  const functions = parseRpcPaths(paths, schemaName);
+
+  const enumList = [...enums.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+  return { tables, foreignKeys, functions, enums: enumList, schemas: [schemaName] };
+}
+
+interface ForeignKeyLink {
+  sourceTable: string;
+  sourceColumn: string;
+  targetTable: string;
+  targetColumn: string;
+}
+
+/**
+ * PostgREST annotates each FK column on its own, without the constraint it
+ * belongs to. Columns of one table that point at distinct columns of the same
+ * target and together cover its composite primary key are folded into a single
+ * constraint; anything more ambiguous (say, two composite FKs to one table)
+ * stays one constraint per column. Names follow Postgres' `<table>_<cols>_fkey`.
+ */
+function groupForeignKeys(links: ForeignKeyLink[], tables: TableInfo[], schemaName: string): ForeignKey[] {
+  const pkByTable = new Map(tables.map(t => [t.name, t.primaryKey]));
+  const groups = new Map<string, ForeignKeyLink[]>();
+  links.forEach(link => {
+    const key = `${link.sourceTable}->${link.targetTable}`;
+    groups.set(key, [...(groups.get(key) || []), link]);
+  });
+
+  const foreignKeys: ForeignKey[] = [];
+  for (const group of groups.values()) {
+    const targetPk = pkByTable.get(group[0].targetTable) ?? [];
+    const targets = new Set(group.map(l => l.targetColumn));
+    const isComposite = targetPk.length > 1 && group.length === targetPk.length &&
+      targets.size === group.length && targetPk.every(c => targets.has(c));
+
+    const constraints = isComposite
+      ? [[...group].sort((a, b) => targetPk.indexOf(a.targetColumn) - targetPk.indexOf(b.targetColumn))]
+      : group.map(link => [link]);
+
+    constraints.forEach(cols => {
+      const { sourceTable, targetTable } = cols[0];
+      foreignKeys.push({
+        constraintName: `${sourceTable}_${cols.map(c => c.sourceColumn).join("_")}_fkey`,
+        sourceId: tableId(schemaName, sourceTable),
+        sourceTable,
+        targetId: tableId(schemaName, targetTable),
+        targetTable,
+        columns: cols.map(c => ({ source: c.sourceColumn, target: c.targetColumn })),
+      });
+    });
+  }
+  return foreignKeys;
+}
+
+/**
+ * PostgREST emits enum columns as `{ type: "string", format: "<type>", enum: [...] }`
+ * where the format is the Postgres type name (schema-qualified when it isn't on
+ * the search path). Older versions omit the format, so fall back to a value-set
+ * match before inventing a name from the column.
+ */
+function collectEnum(
+  enums: Map<string, EnumInfo>,
+  def: { format?: string; enum: string[] },
+  defaultSchema: string,
+  fallbackName: string
+): EnumInfo {
+  const values: string[] = def.enum.map(String);
+  let schema = defaultSchema;
+  let name: string | undefined;
+  if (def.format && def.format !== "text" && def.format !== "character varying") {
+    const parts = def.format.replace(/"/g, "").split(".");
+    name = parts.pop();
+    if (parts.length > 0) schema = parts.join(".");
+  }
+
+  if (!name) {
+    const signature = [...values].sort().join("|");
+    const existing = [...enums.values()].find(e => [...e.values].sort().join("|") === signature);
+    if (existing) return existing;
+    name = fallbackName;
+  }
+
+  const key = `${schema}.${name}`;
+  const existing = enums.get(key);
+  if (existing) {
+    values.forEach(v => { if (!existing.values.includes(v)) existing.values.push(v); });
+    return existing;
+  }
+  const info: EnumInfo = { name, schema, values };
+  enums.set(key, info);
+  return info;
+}
+
+/**
+ * PostgREST documents POST/PATCH/DELETE for whatever it can write to, so a
+ * path exposing nothing but GET is taken for a view or materialized view.
+ * That is a guess, not a catalog fact: auto-updatable views accept writes and
+ * come out as tables, and tables the current role may only SELECT from come
+ * out as views.
+ */
+function isReadOnlyPath(pathItem: OpenApiPathItem | undefined): boolean {
+  if (!pathItem) return false;
+  return !pathItem.post && !pathItem.patch && !pathItem.delete;
+}
+
+function parseRpcPaths(paths: Record<string, OpenApiPathItem>, schemaName: string): FunctionInfo[] {
+  const functions: FunctionInfo[] = [];
+
+  for (const [path, item] of Object.entries(paths)) {
+    const match = path.match(/^\/rpc\/(.+)$/);
+    if (!match) continue;
+    const name = match[1];
+    if (name.startsWith("_")) continue;
+
+    // POST carries the arguments as a single JSON body schema; GET lists them
+    // as query params (and is only present for non-volatile functions).
+    const parameters: FunctionParameter[] = [];
+    const body = item.post?.parameters?.find(p => p.in === "body")?.schema;
+    if (body?.properties) {
+      const required = new Set<string>(body.required || []);
+      for (const [paramName, paramDef] of Object.entries(body.properties)) {
+        parameters.push({
+          name: paramName,
+          dataType: parseParamType(paramDef),
+          isRequired: required.has(paramName),
+        });
+      }
+    } else if (item.get?.parameters) {
+      for (const param of item.get.parameters) {
+        if (param.in !== "query" || !param.name) continue;
+        parameters.push({
+          name: param.name,
+          dataType: parseParamType(param),
+          isRequired: !!param.required,
+        });
+      }
+    }
+
+    const { returnType, returnsSet } = parseReturnType(item.post || item.get);
+
+    functions.push({
+      name,
+      schema: schemaName,
+      parameters,
+      returnType,
+      returnsSet,
+      isReadOnly: !!item.get,
+    });
+  }
+
+  return functions.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function parseParamType(def: OpenApiSchema | OpenApiParameter): string {
+  if (def.type === "array" && def.items) {
+    return `${def.items.format || def.items.type || "unknown"}[]`;
+  }
+  return def.format || def.type || "unknown";
+}
+
+function parseReturnType(op: OpenApiOperation | undefined): { returnType: string | null; returnsSet: boolean } {
+  const schema = op?.responses?.["200"]?.schema;
+  if (!schema) return { returnType: null, returnsSet: false };
+  const refName = (ref?: string) => ref?.split("/").pop() ?? null;
+  if (schema.type === "array") {
+    return { returnType: refName(schema.items?.$ref) ?? schema.items?.format ?? schema.items?.type ?? null, returnsSet: true };
+  }
+  return { returnType: refName(schema.$ref) ?? schema.format ?? schema.type ?? null, returnsSet: false };
 }
@@ -0,0 +1,190 @@
+import { canonicalTypeName } from "./pg-types";
+import type { SchemaData, TableInfo } from "./schema-types";
+
+// Repeatable schema review: each rule looks at the whole `SchemaData` and
+// reports findings against a table (and a column, where one is to blame).
+// Rules can be switched off per browser; severity is fixed by the rule.
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export const LINT_SEVERITIES: LintSeverity[] = ["error", "warning", "info"];
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  /** `TableInfo.id` to click through to */
+  tableId: string;
+  column?: string;
+  message: string;
+}
+
+export interface LintRule {
+  id: string;
+  title: string;
+  description: string;
+  severity: LintSeverity;
+  check: (schema: SchemaData) => Omit<LintFinding, "ruleId" | "severity">[];
+}
+
+const tablesOnly = (schema: SchemaData) => schema.tables.filter(t => t.kind === "table");
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "missing-primary-key",
+    title: "Missing primary key",
+    description: "Tables without a primary key can't be updated or deleted by row through the API, and replicate poorly.",
+    severity: "error",
+    check: schema => tablesOnly(schema)
+      .filter(t => t.primaryKey.length === 0)
+      .map(t => ({ tableId: t.id, message: `${t.name} has no primary key` })),
+  },
+  {
+    id: "fk-type-mismatch",
+    title: "Foreign key type mismatch",
+    description: "A foreign key column should have exactly the type of the column it references; mismatches force casts on every join.",
+    severity: "error",
+    check: schema => {
+      const byId = new Map(schema.tables.map(t => [t.id, t]));
+      return schema.foreignKeys.flatMap(fk => fk.columns.flatMap(pair => {
+        const source = byId.get(fk.sourceId)?.columns.find(c => c.name === pair.source);
+        const target = byId.get(fk.targetId)?.columns.find(c => c.name === pair.target);
+        if (!source || !target || canonicalTypeName(source.rawType) === canonicalTypeName(target.rawType)) return [];
+        return [{
+          tableId: fk.sourceId,
+          column: pair.source,
+          message: `${fk.sourceTable}.${pair.source} is ${source.rawType} but ${fk.targetTable}.${pair.target} is ${target.rawType}`,
+        }];
+      }));
+    },
+  },
+  {
+    id: "nullable-foreign-key",
+    title: "Nullable foreign key",
+    description: "A nullable foreign key makes the relationship optional. Fine when intended, but often a forgotten NOT NULL.",
+    severity: "info",
+    check: schema => {
+      const byId = new Map(schema.tables.map(t => [t.id, t]));
+      return schema.foreignKeys.flatMap(fk => fk.columns
+        .filter(pair => byId.get(fk.sourceId)?.columns.find(c => c.name === pair.source)?.isNullable)
+        .map(pair => ({ tableId: fk.sourceId, column: pair.source, message: `${fk.sourceTable}.${pair.source} → ${fk.targetTable} is nullable` })));
+    },
+  },
+  {
+    id: "orphan-table",
+    title: "Orphan table",
+    description: "Tables with no foreign keys in or out are often leftovers, or relationships that were never declared.",
+    severity: "info",
+    check: schema => {
+      const linked = new Set(schema.foreignKeys.flatMap(fk => [fk.sourceId, fk.targetId]));
+      return tablesOnly(schema)
+        .filter(t => !linked.has(t.id))
+        .map(t => ({ tableId: t.id, message: `${t.name} has no relationships` }));
+    },
+  },
+  {
+    id: "mixed-naming",
+    title: "Inconsistent naming",
+    description: "camelCase names mixed with snake_case ones; the minority style is flagged. camelCase also has to be double-quoted in SQL.",
+    severity: "warning",
+    check: schema => {
+      const names = schema.tables.flatMap(t => [
+        { table: t, name: t.name, column: undefined as string | undefined },
+        ...t.columns.map(c => ({ table: t, name: c.name, column: c.name as string | undefined })),
+      ]);
+      const camel = names.filter(n => isCamelCase(n.name));
+      const snake = names.filter(n => isSnakeCase(n.name));
+      if (camel.length === 0 || snake.length === 0) return [];
+      const [odd, usual] = camel.length <= snake.length ? [camel, "snake_case"] : [snake, "camelCase"];
+      return odd.map(n => ({
+        tableId: n.table.id,
+        column: n.column,
+        message: `${n.column ? `${n.table.name}.${n.column}` : n.name} breaks the ${usual} used elsewhere`,
+      }));
+    },
+  },
+  {
+    id: "missing-timestamps",
+    title: "Missing created_at / updated_at",
+    description: "Audit timestamps make debugging and incremental sync possible.",
+    severity: "info",
+    check: schema => tablesOnly(schema).flatMap(t => {
+      const missing = ["created_at", "updated_at"].filter(name => !t.columns.some(c => c.name.toLowerCase() === name || c.name === camelize(name)));
+      return missing.length > 0 ? [{ tableId: t.id, message: `${t.name} has no ${missing.join(" or ")}` }] : [];
+    }),
+  },
+  {
+    id: "circular-foreign-keys",
+    title: "Circular foreign keys",
+    description: "Tables that reference each other in a loop can't be inserted in any order without deferred constraints. Self-references are allowed.",
+    severity: "warning",
+    check: schema => foreignKeyCycles(schema).map(cycle => ({
+      tableId: cycle[0].id,
+      message: [...cycle, cycle[0]].map(t => t.name).join(" → "),
+    })),
+  },
+];
+
+/** Findings from every enabled rule, most severe first */
+export function lintSchema(schema: SchemaData, disabled: ReadonlySet<string> = new Set()): LintFinding[] {
+  return LINT_RULES
+    .filter(rule => !disabled.has(rule.id))
+    .flatMap(rule => rule.check(schema).map(f => ({ ...f, ruleId: rule.id, severity: rule.severity })))
+    .sort((a, b) => LINT_SEVERITIES.indexOf(a.severity) - LINT_SEVERITIES.indexOf(b.severity));
+}
+
+function isCamelCase(name: string): boolean {
+  return /^[a-z][a-z0-9]*[A-Z]/.test(name) && !name.includes("_");
+}
+
+function isSnakeCase(name: string): boolean {
+  return name.includes("_") && name === name.toLowerCase();
+}
+
+function camelize(snake: string): string {
+  return snake.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Groups of tables joined in a foreign key loop (Tarjan's strongly connected
+ * components), each in an order that walks the loop when it is a simple one.
+ */
+function foreignKeyCycles(schema: SchemaData): TableInfo[][] {
+  const edges = new Map<string, string[]>();
+  schema.foreignKeys.forEach(fk => {
+    if (fk.sourceId === fk.targetId) return;
+    edges.set(fk.sourceId, [...(edges.get(fk.sourceId) ?? []), fk.targetId]);
+  });
+  const byId = new Map(schema.tables.map(t => [t.id, t]));
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: TableInfo[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    low.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    (edges.get(id) ?? []).forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    });
+    if (low.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1) cycles.push(component.reverse().map(m => byId.get(m)).filter((t): t is TableInfo => !!t));
+  };
+
+  schema.tables.forEach(t => { if (!index.has(t.id)) visit(t.id); });
+  return cycles;
+}
@@ -1,36 +1,151 @@
 export interface ColumnInfo {
   name: string;
+  /** Short type name — the OpenAPI `format`, or the enum name for enum columns */
   dataType: string;
+  /** Type as declared, with modifiers: `character varying(255)`, `timestamp with time zone`, `jsonb[]` */
+  rawType: string;
+  typeFamily: TypeFamily;
   isNullable: boolean;
   defaultValue: string | null;
   isPrimaryKey: boolean;
   isForeignKey: boolean;
   isUnique: boolean;
+  /** Name of the Postgres enum this column (or its array elements) draws from */
+  enumName?: string;
+  /** `COMMENT ON COLUMN` text, when the introspection source exposes it */
+  description?: string;
+  /** Set on identity columns — whether Postgres always generates the value or only by default */
+  identity?: "ALWAYS" | "BY DEFAULT";
+  /** `GENERATED ALWAYS AS (...) STORED` columns */
+  isGenerated?: boolean;
+  /** Column-level CHECK expression */
+  check?: string;
   references?: {
+    schema: string;
     table: string;
     column: string;
   };
 }
 
+export type TypeFamily =
+  | "text"
+  | "integer"
+  | "decimal"
+  | "boolean"
+  | "temporal"
+  | "json"
+  | "uuid"
+  | "enum"
+  | "array"
+  | "binary"
+  | "network"
+  | "geometric"
+  | "range"
+  | "other";
+
+export type TableKind = "table" | "view";
+
 export interface TableInfo {
+  /** Schema-qualified identity (`schema.name`) — names alone collide across schemas */
+  id: string;
   name: string;
   schema: string;
+  kind: TableKind;
   columns: ColumnInfo[];
+  /** Primary key columns in key order; more than one means a composite key */
+  primaryKey: string[];
   rowCount?: number;
+  /** `COMMENT ON TABLE` text, when the introspection source exposes it */
+  description?: string;
+  /** Only known when introspected through postgres-meta */
+  indexes?: IndexInfo[];
+  /** Row Level Security; only known from postgres-meta or a SQL dump */
+  rlsEnabled?: boolean;
+  /** RLS applies to the table owner too */
+  rlsForced?: boolean;
+  /** Undefined when the source can't list policies, even if `rlsEnabled` is known */
+  policies?: PolicyInfo[];
 }
 
+export type PolicyCommand = "ALL" | "SELECT" | "INSERT" | "UPDATE" | "DELETE";
+
+export interface PolicyInfo {
+  name: string;
+  command: PolicyCommand;
+  /** Permissive policies are OR-ed together; restrictive ones must all pass as well */
+  permissive: boolean;
+  /** `public` means every role */
+  roles: string[];
+  /** USING expression: which existing rows are visible */
+  using: string | null;
+  /** WITH CHECK expression: which new rows may be written */
+  withCheck: string | null;
+}
+
+/** How exposed a table is through the API, as far as the introspection source can tell */
+export type RlsStatus = "unknown" | "disabled" | "no-policies" | "policies";
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  isUnique: boolean;
+  isPrimary: boolean;
+  /** Access method — btree, gin, gist, ... */
+  method: string;
+  definition: string;
+}
+
+export type ReferentialAction = "NO ACTION" | "RESTRICT" | "CASCADE" | "SET NULL" | "SET DEFAULT";
+
 export interface ForeignKey {
   constraintName: string;
+  /** `TableInfo.id` of each end; the plain names below are for display */
+  sourceId: string;
   sourceTable: string;
-  sourceColumn: string;
+  targetId: string;
   targetTable: string;
-  targetColumn: string;
+  /** Column pairs in constraint order — several for a composite key */
+  columns: ForeignKeyColumn[];
+  /** Only known when the introspection source reads the catalog directly */
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+export interface ForeignKeyColumn {
+  source: string;
+  target: string;
+}
+
+export interface FunctionParameter {
+  name: string;
+  dataType: string;
+  isRequired: boolean;
+}
+
+export interface FunctionInfo {
+  name: string;
+  schema: string;
+  parameters: FunctionParameter[];
+  /** Table/type name or scalar type; null when the spec doesn't describe the result */
+  returnType: string | null;
+  returnsSet: boolean;
+  /** Only functions marked STABLE/IMMUTABLE are callable via GET */
+  isReadOnly: boolean;
+}
+
+export interface EnumInfo {
+  name: string;
+  schema: string;
+  values: string[];
 }
 
 export interface SchemaData {
   tables: TableInfo[];
   foreignKeys: ForeignKey[];
-  enums: { name: string; values: string[] }[];
+  functions: FunctionInfo[];
+  enums: EnumInfo[];
+  /** Schemas that were introspected, in the order they were requested */
+  schemas: string[];
 }
 
 export interface ProjectConnection {
@@ -38,9 +153,88 @@ export interface ProjectConnection {
   name: string;
   url: string;
   anonKey: string;
+  /** PostgREST profiles to introspect; the API's default profile when omitted */
+  schemas?: string[];
+  /** "file" marks a schema imported from disk — no URL or key, never persisted */
+  source?: "api" | "file";
+  /** How the schema is read; PostgREST's OpenAPI document when omitted */
+  strategy?: IntrospectionStrategy;
+  /** Base URL of the postgres-meta API used by the "pg-meta" strategy */
+  metaUrl?: string;
   createdAt: number;
 }
 
+export type IntrospectionStrategy = "openapi" | "pg-meta";
+
+export function tableId(schema: string, name: string): string {
+  return `${schema}.${name}`;
+}
+
+/**
+ * The enum a column draws from. Columns only carry the enum's name, so it is
+ * looked up like an unqualified type: the table's own schema, then public,
+ * then the one schema that has an enum by that name.
+ */
+export function columnEnum(enums: EnumInfo[], table: TableInfo, column: ColumnInfo): EnumInfo | undefined {
+  if (!column.enumName) return undefined;
+  const named = enums.filter(e => e.name === column.enumName);
+  return named.find(e => e.schema === table.schema)
+    ?? named.find(e => e.schema === "public")
+    ?? (named.length === 1 ? named[0] : undefined);
+}
+
+/** One side of a foreign key: `a`, or `(a, b)` for a composite key */
+export function fkColumnList(fk: ForeignKey, side: "source" | "target"): string {
+  const names = fk.columns.map(c => c[side]);
+  return names.length > 1 ? `(${names.join(", ")})` : names[0];
+}
+
+/** `a → x` for single-column keys, `(a, b) → (x, y)` for composite ones */
+export function formatFkColumns(fk: ForeignKey): string {
+  return `${fkColumnList(fk, "source")} → ${fkColumnList(fk, "target")}`;
+}
+
+/**
+ * Tables grouped by foreign key depth: level 0 references nothing, and each
+ * later level only references tables in earlier ones (self-references don't
+ * count). Tables caught in a cycle land together in the level where the
+ * cycle is first reached.
+ */
+export function dependencyLevels(schema: SchemaData): TableInfo[][] {
+  const deps: Record<string, Set<string>> = {};
+  schema.tables.forEach(t => { deps[t.id] = new Set(); });
+  schema.foreignKeys.forEach(fk => {
+    if (deps[fk.sourceId] && fk.sourceId !== fk.targetId) deps[fk.sourceId].add(fk.targetId);
+  });
+
+  const levels: TableInfo[][] = [];
+  const placed = new Set<string>();
+
+  while (placed.size < schema.tables.length) {
+    const level: TableInfo[] = [];
+    schema.tables.forEach(t => {
+      if (placed.has(t.id)) return;
+      const unmet = [...(deps[t.id] || [])].filter(d => !placed.has(d));
+      if (unmet.length === 0) level.push(t);
+    });
+    if (level.length === 0) {
+      schema.tables.forEach(t => { if (!placed.has(t.id)) level.push(t); });
+    }
+    level.forEach(t => placed.add(t.id));
+    levels.push(level);
+  }
+  return levels;
+}
+
+/** Display order for a table's columns: PKs first, then FKs, then the rest alphabetically */
+export function compareColumns(a: ColumnInfo, b: ColumnInfo): number {
+  if (a.isPrimaryKey && !b.isPrimaryKey) return -1;
+  if (!a.isPrimaryKey && b.isPrimaryKey) return 1;
+  if (a.isForeignKey && !b.isForeignKey) return -1;
+  if (!a.isForeignKey && b.isForeignKey) return 1;
+  return a.name.localeCompare(b.name);
+}
+
 export type ViewMode =
   | "er-diagram"
   | "uml"
@@ -55,7 +249,8 @@ export type ViewMode =
   | "story-driven"
   | "data-correlation"
   | "grouped"
-  | "schema-explorer";
+  | "schema-explorer"
+  | "rls-coverage";
 
 export interface ViewConfig {
   id: ViewMode;
@@ -79,4 +274,5 @@ export const VIEW_CONFIGS: ViewConfig[] = [
   { id: "data-correlation", label: "Correlation", icon: "Grid3X3", description: "Heatmap showing connection strength between tables" },
   { id: "grouped", label: "Grouped", icon: "Group", description: "Auto-clustered related tables with expandable groups" },
   { id: "schema-explorer", label: "Explorer", icon: "Search", description: "Click-to-expand tree with search and filters" },
+  { id: "rls-coverage", label: "RLS Coverage", icon: "ShieldCheck", description: "Tables colored by Row Level Security: off, on without policies, or guarded by policies" },
 ];
@@ -0,0 +1,74 @@
+import type { TableInfo } from "./schema-types";
+
+// Row counts via PostgREST: a HEAD request with `Prefer: count=<mode>` returns
+// no body, just a `Content-Range: */<total>` header.
+
+/** "exact" runs count(*); "planned" reads the planner estimate; "estimated" switches between them by size */
+export type CountMode = "exact" | "planned" | "estimated";
+
+interface RowCountOptions {
+  mode?: CountMode;
+  /** Requests in flight at once */
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** A user's JWT to count as instead of `key`, so RLS filters what is counted */
+  accessToken?: string;
+  /** Called as each count arrives, so the UI can fill in progressively */
+  onCount?: (tableId: string, count: number) => void;
+}
+
+/**
+ * Count rows for each table. Tables the key can't read are left out of the
+ * result rather than failing the whole pass; aborting `signal` rejects.
+ */
+export async function fetchRowCounts(
+  url: string,
+  key: string,
+  tables: TableInfo[],
+  { mode = "estimated", concurrency = 4, signal, accessToken, onCount }: RowCountOptions = {},
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  const queue = [...tables];
+
+  const worker = async () => {
+    for (let table = queue.shift(); table; table = queue.shift()) {
+      signal?.throwIfAborted();
+      const count = await countRows(url, key, accessToken ?? key, table, mode, signal);
+      if (count === null) continue;
+      counts[table.id] = count;
+      onCount?.(table.id, count);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, tables.length) }, worker));
+  return counts;
+}
+
+async function countRows(url: string, key: string, bearer: string, table: TableInfo, mode: CountMode, signal?: AbortSignal): Promise<number | null> {
+  try {
+    const res = await fetch(`${url}/rest/v1/${encodeURIComponent(table.name)}?select=*`, {
+      method: "HEAD",
+      signal,
+      headers: {
+        apikey: key,
+        Authorization: `Bearer ${bearer}`,
+        Prefer: `count=${mode}`,
+        "Accept-Profile": table.schema,
+      },
+    });
+    const total = res.headers.get("content-range")?.split("/")[1];
+    if (!res.ok || !total || total === "*") return null;
+    return parseInt(total, 10);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return null;
+  }
+}
+
+/** 950, 12.3k, 4.1M */
+export function formatCount(n: number): string {
+  if (n < 1000) return String(n);
+  if (n < 1_000_000) return `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k`;
+  if (n < 1_000_000_000) return `${(n / 1_000_000).toFixed(n < 10_000_000 ? 1 : 0)}M`;
+  return `${(n / 1_000_000_000).toFixed(1)}B`;
+}
@@ -0,0 +1,74 @@
+// Where the encrypted connection list lives. A vault the user asked us to
+// remember goes to IndexedDB and survives the browser closing; otherwise it
+// stays in sessionStorage and dies with the tab. Either way only ciphertext
+// from crypto.ts is stored.
+
+import { hasIndexedDb, idbGet, idbPut, idbDelete } from "./idb";
+
+export const VAULT_VERSION = 1;
+
+export interface VaultRecord {
+  version: number;
+  /** Encrypted JSON of the ProjectConnection list */
+  data: string;
+  /** True when stored in IndexedDB rather than sessionStorage */
+  persistent: boolean;
+  updatedAt: number;
+}
+
+const RECORD_KEY = "connections";
+const SESSION_KEY = "schema-viz-vault";
+// Pre-vault builds kept the bare encrypted string here
+const LEGACY_SESSION_KEY = "schema-viz-connections";
+
+/**
+ * The current vault, or null when nothing is saved. A blob left by older
+ * builds is wrapped into a session record on first read.
+ */
+export async function readVault(): Promise<VaultRecord | null> {
+  const stored = await idbGet<Partial<VaultRecord>>("vault", RECORD_KEY);
+  if (stored) return upgradeRecord(stored, true);
+
+  const session = sessionStorage.getItem(SESSION_KEY);
+  if (session) return upgradeRecord(JSON.parse(session), false);
+
+  const legacy = sessionStorage.getItem(LEGACY_SESSION_KEY);
+  if (legacy) {
+    await writeVault(legacy, false);
+    sessionStorage.removeItem(LEGACY_SESSION_KEY);
+    return readVault();
+  }
+  return null;
+}
+
+export async function writeVault(data: string, persistent: boolean): Promise<void> {
+  const record: VaultRecord = { version: VAULT_VERSION, data, persistent, updatedAt: Date.now() };
+  if (persistent && hasIndexedDb()) {
+    await idbPut("vault", RECORD_KEY, record);
+    sessionStorage.removeItem(SESSION_KEY);
+  } else {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ ...record, persistent: false }));
+    await idbDelete("vault", RECORD_KEY);
+  }
+}
+
+/** Move the existing vault between IndexedDB and sessionStorage without re-encrypting it */
+export async function setVaultPersistence(persistent: boolean): Promise<void> {
+  const record = await readVault();
+  if (record && record.persistent !== persistent) await writeVault(record.data, persistent);
+}
+
+export async function clearVault(): Promise<void> {
+  sessionStorage.removeItem(SESSION_KEY);
+  sessionStorage.removeItem(LEGACY_SESSION_KEY);
+  await idbDelete("vault", RECORD_KEY);
+}
+
+/** Bring older record shapes up to VAULT_VERSION; nothing to migrate yet beyond v1 */
+function upgradeRecord(raw: Partial<VaultRecord>, persistent: boolean): VaultRecord {
+  if (typeof raw.data !== "string") throw new Error("Unreadable connection vault");
+  if ((raw.version ?? 1) > VAULT_VERSION) {
+    throw new Error("This vault was saved by a newer version of the app");
+  }
+  return { version: VAULT_VERSION, data: raw.data, persistent, updatedAt: raw.updatedAt ?? 0 };
+}
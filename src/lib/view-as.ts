@@ -0,0 +1,45 @@
+import { inspectAccessToken } from "./jwt";
+import { createSupabaseClient } from "./schema-introspection";
+
+// Browsing as a signed-in user instead of the connection's key: requests keep
+// the key as `apikey` but carry the user's access token as the bearer, so
+// PostgREST applies RLS for that user. Tokens live in memory only; they are
+// never saved with the connection.
+
+export interface ViewAsIdentity {
+  /** Email when the token carries one, otherwise the user id or role */
+  label: string;
+  role: string | null;
+  accessToken: string;
+  expiresAt: number | null;
+}
+
+/** Use a pasted access token; throws when it isn't a usable JWT */
+export function identityFromJwt(token: string): ViewAsIdentity {
+  const trimmed = token.trim().replace(/^Bearer\s+/i, "");
+  const info = inspectAccessToken(trimmed);
+  if (!info) throw new Error("That isn't a JWT");
+  if (info.expiresAt && info.expiresAt < Date.now()) {
+    throw new Error(`Token expired ${new Date(info.expiresAt).toLocaleString()}`);
+  }
+  return {
+    label: info.email ?? info.subject ?? info.role ?? "custom token",
+    role: info.role,
+    accessToken: trimmed,
+    expiresAt: info.expiresAt,
+  };
+}
+
+/** Sign in through Supabase Auth with email and password, without touching the app's own session storage */
+export async function signInAs(url: string, key: string, email: string, password: string): Promise<ViewAsIdentity> {
+  const client = createSupabaseClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  });
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+  if (!data.session) throw new Error("Sign-in returned no session; the account may need confirming first");
+  return {
+    ...identityFromJwt(data.session.access_token),
+    label: data.user?.email ?? email,
+  };
+}
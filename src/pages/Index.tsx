@@ -1,44 +1,133 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
 import { ConnectionScreen } from "@/components/ConnectionScreen";
 import { SchemaLayout } from "@/components/SchemaLayout";
 import { useConnectionStore } from "@/stores/connection-store";
-import { createSupabaseClient, fetchSchema, testConnection } from "@/lib/schema-introspection";
-import type { SchemaData } from "@/lib/schema-types";
+import { useIdleTimer } from "@/hooks/use-idle-timer";
+import { parseOpenApiSpec } from "@/lib/schema-introspection";
+import { probeConnection } from "@/lib/connection-health";
+import { ALL_SCHEMAS_KEY, persistedSchema, schemaQueryKey, schemaQueryOptions } from "@/lib/schema-cache";
+import { clearHistory, deleteHistory } from "@/lib/schema-history";
+import { parseDdl, type SqlFile } from "@/lib/ddl-parser";
+import type { ProjectConnection, SchemaData, ViewMode } from "@/lib/schema-types";
 
 const Index = () => {
   const store = useConnectionStore();
+  const queryClient = useQueryClient();
   const [showAddForm, setShowAddForm] = useState(false);
+  // Outlives SchemaLayout so a lock (or reconnect) comes back to the same view
+  const viewModeRef = useRef<ViewMode>("er-diagram");
+
+  /**
+   * The cached snapshot if there is one, then the persisted one from an
+   * earlier session, otherwise a fetch. SchemaLayout refreshes whichever
+   * opened in the background.
+   */
+  const loadSchema = useCallback(async (conn: ProjectConnection): Promise<SchemaData> => {
+    const cached = queryClient.getQueryData<SchemaData>(schemaQueryKey(conn.id));
+    if (cached) return cached;
+    const persisted = await persistedSchema(conn.id);
+    if (persisted) {
+      // Dated by its last fetch so it is stale and refetched straight away
+      queryClient.setQueryData(schemaQueryKey(conn.id), persisted.schema, { updatedAt: persisted.fetchedAt });
+      return persisted.schema;
+    }
+    return queryClient.fetchQuery(schemaQueryOptions(conn));
+  }, [queryClient]);
+
+  // Cached snapshots are decrypted-connection data too; they go when the vault locks
+  const handleLock = useCallback(() => {
+    queryClient.removeQueries({ queryKey: ALL_SCHEMAS_KEY });
+    store.lock();
+  }, [queryClient, store]);
+
+  const handleRemoveConnection = useCallback(async (id: string) => {
+    await store.removeConnection(id);
+    queryClient.removeQueries({ queryKey: schemaQueryKey(id) });
+    await deleteHistory(id);
+  }, [queryClient, store]);
+
+  const handleClearAll = useCallback(async () => {
+    queryClient.removeQueries({ queryKey: ALL_SCHEMAS_KEY });
+    await store.clearAll();
+    await clearHistory();
+  }, [queryClient, store]);
+
+  useIdleTimer(
+    store.passphrase && store.autoLockMinutes > 0 ? store.autoLockMinutes * 60_000 : null,
+    handleLock,
+  );
 
   const handleUnlock = useCallback(async (passphrase: string) => {
     store.setLoading(true);
     store.setError(null);
     try {
-      await store.loadConnections(passphrase);
+      const connections = await store.loadConnections(passphrase);
+      // Reopen whatever was on screen when the vault locked itself
+      const resume = connections.find(c => c.id === store.resumeConnectionId);
+      store.clearResume();
+      if (resume) {
+        store.setSchema(await loadSchema(resume));
+        store.setActiveConnection(resume.id);
+      }
     } catch (err: any) {
       store.setError(err.message || "Failed to decrypt");
     } finally {
       store.setLoading(false);
     }
+  }, [store, loadSchema]);
+
+  const handleChangePassphrase = useCallback(async (current: string, next: string) => {
+    store.setLoading(true);
+    store.setError(null);
+    try {
+      await store.changePassphrase(current, next);
+    } catch (err) {
+      store.setError(err instanceof Error ? err.message : "Couldn't change the passphrase");
+      throw err;
+    } finally {
+      store.setLoading(false);
+    }
   }, [store]);
 
-  const handleSetupNew = useCallback((passphrase: string) => {
-    store.setPassphrase(passphrase);
+  /** Moves the vault between IndexedDB and sessionStorage; the checkbox only flips once that worked */
+  const handleRememberChange = useCallback(async (remember: boolean) => {
+    store.setError(null);
+    try {
+      await store.setRemember(remember);
+    } catch (err) {
+      store.setError(err instanceof Error ? err.message : "Couldn't change where the vault is kept");
+    }
   }, [store]);
 
-  const handleAddConnection = useCallback(async (name: string, url: string, key: string) => {
+  const handleSetupNew = useCallback(async (passphrase: string, remember: boolean) => {
+    store.setPassphrase(passphrase);
+    await handleRememberChange(remember);
+  }, [store, handleRememberChange]);
+
+  const handleAddConnection = useCallback(async (
+    name: string,
+    url: string,
+    key: string,
+    options: Pick<ProjectConnection, "schemas" | "strategy" | "metaUrl"> = {},
+  ) => {
     store.setLoading(true);
     store.setError(null);
     try {
-      const client = createSupabaseClient(url, key);
-      const ok = await testConnection(client);
-      if (!ok) {
-        store.setError("Could not connect. Check your URL and API key.");
-        store.setLoading(false);
-        return;
+      // postgres-meta may sit behind a different gateway; fetching the schema is its test
+      if (options.strategy !== "pg-meta") {
+        const health = await probeConnection(url, key);
+        if (health.status !== "ok") {
+          store.setError(health.status === "auth-error"
+            ? `API key rejected: ${health.reason}`
+            : `Could not connect (${health.reason}). Check your URL.`);
+          store.setLoading(false);
+          return;
+        }
       }
-      const conn = await store.addConnection({ name, url, anonKey: key });
-      // Fetch schema
-      const schema = await fetchSchema(client);
+      const conn = await store.addConnection({ name, url, anonKey: key, ...options });
+      const schema = await loadSchema(conn);
       store.setSchema(schema);
       store.setActiveConnection(conn.id);
       setShowAddForm(false);
@@ -47,7 +136,7 @@ const Index = () => {
     } finally {
       store.setLoading(false);
     }
-  }, [store]);
+  }, [store, loadSchema]);
 
   const handleConnect = useCallback(async (id: string) => {
     const conn = store.connections.find(c => c.id === id);
@@ -55,8 +144,7 @@ const Index = () => {
     store.setLoading(true);
     store.setError(null);
     try {
-      const client = createSupabaseClient(conn.url, conn.anonKey);
-      const schema = await fetchSchema(client);
+      const schema = await loadSchema(conn);
       store.setSchema(schema);
       store.setActiveConnection(id);
     } catch (err: any) {
@@ -64,6 +152,35 @@ const Index = () => {
     } finally {
       store.setLoading(false);
     }
+  }, [store, loadSchema]);
+
+  const handleImportSpec = useCallback((name: string, specText: string) => {
+    store.setError(null);
+    let spec: { definitions?: unknown; paths?: unknown } | null;
+    try {
+      spec = JSON.parse(specText);
+    } catch {
+      store.setError("That file isn't valid JSON.");
+      return;
+    }
+    if (!spec || typeof spec !== "object" || (!spec.definitions && !spec.paths)) {
+      store.setError("Not a PostgREST OpenAPI document — expected \"definitions\" or \"paths\".");
+      return;
+    }
+    try {
+      store.openImportedSchema(name, parseOpenApiSpec(spec));
+    } catch (err) {
+      store.setError(err instanceof Error ? `Couldn't read that document: ${err.message}` : "Couldn't read that document.");
+    }
+  }, [store]);
+
+  const handleImportSql = useCallback((name: string, files: SqlFile[]) => {
+    store.setError(null);
+    try {
+      store.openImportedSchema(name, parseDdl(files));
+    } catch (err) {
+      store.setError(err instanceof Error ? err.message : "Couldn't read any tables from that SQL.");
+    }
   }, [store]);
 
   const handleSwitchConnection = useCallback(async (id: string) => {
@@ -86,23 +203,48 @@ const Index = () => {
           connections={store.connections}
           onSwitchConnection={handleSwitchConnection}
           onAddConnection={() => handleDisconnect()}
-          onRemoveConnection={store.removeConnection}
+          onRemoveConnection={handleRemoveConnection}
           onDisconnect={handleDisconnect}
+          onSchemaUpdate={store.setSchema}
+          onLoadSchema={loadSchema}
+          initialViewMode={viewModeRef.current}
+          onViewModeChange={mode => { viewModeRef.current = mode; }}
+          autoLockMinutes={store.autoLockMinutes}
+          onAutoLockChange={store.setAutoLockMinutes}
+          onLock={store.passphrase ? handleLock : undefined}
         />
       );
     }
   }
 
+  // The vault lives in async storage; wait for it before picking unlock vs. setup
+  if (store.hasStoredData === null) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   return (
     <ConnectionScreen
-      hasStoredData={store.hasStoredData()}
+      // A lock while the list is showing has to start over at "unlock"
+      key={store.lockedAt ?? 0}
+      lockedAt={store.lockedAt}
+      hasStoredData={store.hasStoredData}
       connections={store.connections}
+      remember={store.remember}
+      onRememberChange={handleRememberChange}
       onUnlock={handleUnlock}
       onSetupNew={handleSetupNew}
+      onChangePassphrase={handleChangePassphrase}
       onAddConnection={handleAddConnection}
+      onImportSpec={handleImportSpec}
+      onImportSql={handleImportSql}
+      onImportConnections={store.importConnections}
       onConnect={handleConnect}
-      onRemove={store.removeConnection}
-      onClearAll={store.clearAll}
+      onRemove={handleRemoveConnection}
+      onClearAll={handleClearAll}
       isLoading={store.isLoading}
       error={store.error}
     />
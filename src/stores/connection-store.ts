@@ -1,51 +1,110 @@
-import { useState, useCallback } from "react";
-import { encrypt, decrypt } from "@/lib/crypto";
+import { useState, useCallback, useEffect } from "react";
+import { encrypt, decrypt, needsUpgrade } from "@/lib/crypto";
+import { readVault, writeVault, setVaultPersistence, clearVault } from "@/lib/vault-storage";
+import { deleteDataKey, forgetDataKey, getDataKey, rewrapDataKey, unlockDataKey } from "@/lib/data-key";
+import { clearHistory } from "@/lib/schema-history";
+import type { BundleConflict, SharedConnection } from "@/lib/connection-bundle";
 import type { ProjectConnection, SchemaData } from "@/lib/schema-types";
 
-const STORAGE_KEY = "schema-viz-connections";
+// Not secret, so it lives outside the vault and applies before unlocking
+const AUTO_LOCK_KEY = "schema-viz-auto-lock-minutes";
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
 
 interface ConnectionState {
   connections: ProjectConnection[];
+  /** Pseudo-connection for an imported spec; lives outside the encrypted list */
+  fileConnection: ProjectConnection | null;
   activeConnectionId: string | null;
   schema: SchemaData | null;
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
   passphrase: string | null;
+  /** Whether a vault exists; null until storage has been checked */
+  hasStoredData: boolean | null;
+  /** Keep the vault across browser sessions (IndexedDB) instead of just this tab */
+  remember: boolean;
+  /** Minutes of inactivity before the vault locks itself; 0 disables */
+  autoLockMinutes: number;
+  /** Set when the vault was locked mid-session, so the unlock screen can say so */
+  lockedAt: number | null;
+  /** Connection that was open when the vault locked, to reopen after unlocking */
+  resumeConnectionId: string | null;
+}
+
+function readAutoLockMinutes(): number {
+  const stored = localStorage.getItem(AUTO_LOCK_KEY);
+  const minutes = stored === null ? NaN : Number(stored);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+/**
+ * Schema history is only kept, encrypted, for a remembered vault. A
+ * session-only vault gets no data key and whatever history is on disk goes.
+ * History is a convenience, so a broken key doesn't block unlocking.
+ */
+async function openHistory(passphrase: string, persistent: boolean) {
+  try {
+    if (!persistent) {
+      await deleteDataKey();
+      await clearHistory();
+    } else if (await unlockDataKey(passphrase)) {
+      // A new key can't read anything already there, including plaintext from older builds
+      await clearHistory();
+    }
+  } catch {
+    forgetDataKey();
+  }
 }
 
 export function useConnectionStore() {
   const [state, setState] = useState<ConnectionState>({
     connections: [],
+    fileConnection: null,
     activeConnectionId: null,
     schema: null,
     isConnected: false,
     isLoading: false,
     error: null,
     passphrase: null,
+    hasStoredData: null,
+    remember: false,
+    autoLockMinutes: readAutoLockMinutes(),
+    lockedAt: null,
+    resumeConnectionId: null,
   });
 
-  const hasStoredData = useCallback((): boolean => {
-    return !!sessionStorage.getItem(STORAGE_KEY);
+  useEffect(() => {
+    readVault()
+      .then(record => setState(s => ({ ...s, hasStoredData: !!record, remember: record?.persistent ?? false })))
+      .catch(() => setState(s => ({ ...s, hasStoredData: false })));
   }, []);
 
   const loadConnections = useCallback(async (passphrase: string): Promise<ProjectConnection[]> => {
-    const stored = sessionStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
+    const record = await readVault();
+    if (!record) return [];
+    let connections: ProjectConnection[];
     try {
-      const decrypted = await decrypt(stored, passphrase);
-      const connections = JSON.parse(decrypted) as ProjectConnection[];
-      setState(s => ({ ...s, connections, passphrase }));
-      return connections;
+      connections = JSON.parse(await decrypt(record.data, passphrase)) as ProjectConnection[];
     } catch {
       throw new Error("Invalid passphrase");
     }
+    // Re-seal blobs from older builds with the current envelope while we hold the passphrase
+    if (needsUpgrade(record.data)) {
+      await writeVault(await encrypt(JSON.stringify(connections), passphrase), record.persistent);
+    }
+    await openHistory(passphrase, record.persistent);
+    setState(s => ({ ...s, connections, passphrase, remember: record.persistent }));
+    return connections;
   }, []);
 
   const saveConnections = useCallback(async (connections: ProjectConnection[], passphrase: string) => {
     const encrypted = await encrypt(JSON.stringify(connections), passphrase);
-    sessionStorage.setItem(STORAGE_KEY, encrypted);
-  }, []);
+    await writeVault(encrypted, state.remember);
+    // The first save of a new remembered vault is where its data key is made
+    if (state.remember && !getDataKey()) await openHistory(passphrase, true);
+    setState(s => ({ ...s, hasStoredData: true }));
+  }, [state.remember]);
 
   const addConnection = useCallback(async (conn: Omit<ProjectConnection, "id" | "createdAt">) => {
     if (!state.passphrase) throw new Error("No passphrase set");
@@ -60,6 +119,22 @@ export function useConnectionStore() {
     return newConn;
   }, [state.connections, state.passphrase, saveConnections]);
 
+  /** Add connections from a bundle and overwrite the saved side of each conflict in `replace` */
+  const importConnections = useCallback(async (added: SharedConnection[], replace: BundleConflict[]) => {
+    if (!state.passphrase) throw new Error("No passphrase set");
+    const replacements = new Map(replace.map(c => [c.existing.id, c.incoming]));
+    const now = Date.now();
+    // Only the bundle's fields: settings it leaves out go back to their defaults
+    const fromBundle = ({ name, url, anonKey, schemas, strategy, metaUrl }: SharedConnection, id: string, createdAt: number): ProjectConnection =>
+      ({ id, name, url, anonKey, schemas, strategy, metaUrl, createdAt });
+    const updated: ProjectConnection[] = [
+      ...state.connections.map(c => (replacements.has(c.id) ? fromBundle(replacements.get(c.id)!, c.id, c.createdAt) : c)),
+      ...added.map(c => fromBundle(c, crypto.randomUUID(), now)),
+    ];
+    await saveConnections(updated, state.passphrase);
+    setState(s => ({ ...s, connections: updated }));
+  }, [state.connections, state.passphrase, saveConnections]);
+
   const removeConnection = useCallback(async (id: string) => {
     if (!state.passphrase) return;
     const updated = state.connections.filter(c => c.id !== id);
@@ -93,34 +168,120 @@ export function useConnectionStore() {
     setState(s => ({ ...s, passphrase }));
   }, []);
 
-  const clearAll = useCallback(() => {
-    sessionStorage.removeItem(STORAGE_KEY);
-    setState({
+  /** Re-encrypt the vault under `next`; `current` must unlock what's stored */
+  const changePassphrase = useCallback(async (current: string, next: string) => {
+    const record = await readVault();
+    let connections: ProjectConnection[] = [];
+    if (record) {
+      try {
+        connections = JSON.parse(await decrypt(record.data, current)) as ProjectConnection[];
+      } catch {
+        throw new Error("Current passphrase is incorrect");
+      }
+    }
+    await writeVault(await encrypt(JSON.stringify(connections), next), record?.persistent ?? state.remember);
+    await rewrapDataKey(current, next);
+    setState(s => ({ ...s, connections, passphrase: next, hasStoredData: true }));
+  }, [state.remember]);
+
+  const setRemember = useCallback(async (remember: boolean) => {
+    await setVaultPersistence(remember);
+    if (!remember || state.passphrase) await openHistory(state.passphrase ?? "", remember);
+    setState(s => ({ ...s, remember }));
+  }, [state.passphrase]);
+
+  const clearAll = useCallback(async () => {
+    await clearVault();
+    await deleteDataKey();
+    setState(s => ({
       connections: [],
+      fileConnection: null,
       activeConnectionId: null,
       schema: null,
       isConnected: false,
       isLoading: false,
       error: null,
       passphrase: null,
-    });
+      hasStoredData: false,
+      remember: false,
+      autoLockMinutes: s.autoLockMinutes,
+      lockedAt: null,
+      resumeConnectionId: null,
+    }));
+  }, []);
+
+  /**
+   * Forget everything decrypted: passphrase, connections, the loaded schema
+   * and the history data key. Only the ciphertext in storage survives. An imported file has no
+   * vault entry to reconnect from, so it isn't resumed.
+   */
+  const lock = useCallback(() => {
+    forgetDataKey();
+    setState(s => ({
+      ...s,
+      connections: [],
+      fileConnection: null,
+      activeConnectionId: null,
+      schema: null,
+      isConnected: false,
+      isLoading: false,
+      error: null,
+      passphrase: null,
+      lockedAt: Date.now(),
+      resumeConnectionId: s.activeConnectionId !== s.fileConnection?.id ? s.activeConnectionId : null,
+    }));
+  }, []);
+
+  const clearResume = useCallback(() => {
+    setState(s => ({ ...s, resumeConnectionId: null }));
+  }, []);
+
+  const setAutoLockMinutes = useCallback((autoLockMinutes: number) => {
+    localStorage.setItem(AUTO_LOCK_KEY, String(autoLockMinutes));
+    setState(s => ({ ...s, autoLockMinutes }));
+  }, []);
+
+  const openImportedSchema = useCallback((name: string, schema: SchemaData) => {
+    const fileConnection: ProjectConnection = {
+      id: `file:${crypto.randomUUID()}`,
+      name,
+      url: "",
+      anonKey: "",
+      source: "file",
+      createdAt: Date.now(),
+    };
+    setState(s => ({
+      ...s,
+      fileConnection,
+      activeConnectionId: fileConnection.id,
+      schema,
+      isConnected: true,
+      error: null,
+    }));
   }, []);
 
   const getActiveConnection = useCallback((): ProjectConnection | null => {
+    if (state.fileConnection?.id === state.activeConnectionId) return state.fileConnection;
     return state.connections.find(c => c.id === state.activeConnectionId) ?? null;
-  }, [state.connections, state.activeConnectionId]);
+  }, [state.connections, state.fileConnection, state.activeConnectionId]);
 
   return {
     ...state,
-    hasStoredData,
     loadConnections,
     addConnection,
+    importConnections,
     removeConnection,
+    openImportedSchema,
     setActiveConnection,
     setSchema,
     setLoading,
     setError,
     setPassphrase,
+    changePassphrase,
+    setRemember,
+    setAutoLockMinutes,
+    lock,
+    clearResume,
     clearAll,
     getActiveConnection,
   };
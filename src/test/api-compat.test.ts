@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { checkCompatibility, compatReportMarkdown } from "@/lib/api-compat";
+import type { SchemaData } from "@/lib/schema-types";
+
+const v1 = parseDdl([{
+  name: "v1.sql",
+  content: `
+    create table customers (id uuid primary key, email text, nickname varchar(40), legacy_code text);
+    create table orders (id bigint primary key, customer_id uuid references customers, qty integer, total numeric(12, 2));
+    create table audit_log (id bigint primary key, note text);
+  `,
+}]);
+
+const v2 = parseDdl([{
+  name: "v2.sql",
+  content: `
+    create table customers (id uuid primary key, email text not null, nickname text, created_at timestamptz default now());
+    create table orders (id bigint primary key, customer_id uuid references customers, qty bigint, total numeric(8, 2), channel text not null);
+    create table audit_events (id bigint primary key, note text);
+  `,
+}]);
+
+const findings = (base: SchemaData, target: SchemaData) =>
+  checkCompatibility(base, target).findings.map(f => [f.severity, f.object, f.change]);
+
+describe("checkCompatibility", () => {
+  it("classifies table and column changes by client impact", () => {
+    expect(findings(v1, v2)).toEqual([
+      ["breaking", "public.audit_log", "renamed to public.audit_events"],
+      ["breaking", "public.customers.email", "now NOT NULL without a default"],
+      ["breaking", "public.customers.legacy_code", "column dropped"],
+      ["breaking", "public.orders.channel", "NOT NULL column added without a default"],
+      ["breaking", "public.orders.total", "type changed numeric(12, 2) → numeric(8, 2)"],
+      ["safe", "public.customers.created_at", "column added"],
+      ["safe", "public.customers.nickname", "type widened varchar(40) → text"],
+      ["safe", "public.orders.qty", "type widened integer → bigint"],
+    ]);
+  });
+
+  it("flags removed RPC parameters and new required ones", () => {
+    const fn = (params: [string, boolean][]) => ({
+      ...v1,
+      functions: [{ name: "checkout", schema: "public", parameters: params.map(([name, isRequired]) => ({ name, dataType: "text", isRequired })), returnType: "json", returnsSet: false, isReadOnly: false }],
+    });
+    expect(findings(fn([["cart", true], ["coupon", false]]), fn([["cart", true], ["currency", true]]))).toEqual([
+      ["breaking", "rpc public.checkout", "parameter coupon removed"],
+      ["breaking", "rpc public.checkout", "required parameter currency added"],
+    ]);
+  });
+
+  it("exports Markdown grouped by severity", () => {
+    const md = compatReportMarkdown(checkCompatibility(v1, v2), "v1", "v2");
+    expect(md).toContain("**5 breaking**, 0 warnings, 3 safe");
+    expect(md).toContain("| `public.orders.qty` | type widened integer → bigint |");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { encrypt } from "@/lib/crypto";
+import { exportBundle, planImport, readBundle } from "@/lib/connection-bundle";
+import type { ProjectConnection } from "@/lib/schema-types";
+
+const connection = (id: string, url: string, extra: Partial<ProjectConnection> = {}): ProjectConnection => ({
+  id,
+  name: id,
+  url,
+  anonKey: `${id}-key`,
+  createdAt: 0,
+  ...extra,
+});
+
+describe("connection bundles", () => {
+  it("round-trips connections without ids and refuses the wrong passphrase", async () => {
+    const text = await exportBundle([connection("prod", "https://prod.supabase.co", { schemas: ["public", "billing"] })], "share me");
+    expect(JSON.parse(text)).toMatchObject({ format: "schema-viz/connections", count: 1 });
+    expect(text).not.toContain("prod-key");
+
+    expect(await readBundle(text, "share me")).toEqual([
+      { name: "prod", url: "https://prod.supabase.co", anonKey: "prod-key", schemas: ["public", "billing"], strategy: undefined, metaUrl: undefined },
+    ]);
+    await expect(readBundle(text, "guess")).rejects.toThrow("Wrong share passphrase");
+    await expect(readBundle("{}", "share me")).rejects.toThrow("isn't a connection bundle");
+  });
+
+  it("rejects a validly encrypted payload that isn't a list", async () => {
+    const text = JSON.stringify({ format: "schema-viz/connections", version: 1, payload: await encrypt('{"url":"x"}', "pass", 100000) });
+    await expect(readBundle(text, "pass")).rejects.toThrow("contents are damaged");
+  });
+
+  it("keeps only the known fields of each entry and drops or defaults bad values", async () => {
+    const entries = [
+      { id: "stale", createdAt: 1, source: "file", name: 42, url: "https://a.supabase.co", anonKey: "a-key", schemas: "public", strategy: "sql" },
+      { name: "b", url: "https://b.supabase.co", anonKey: "b-key", schemas: ["public", 7], strategy: "pg-meta", metaUrl: null },
+      { name: "no key", url: "https://c.supabase.co" },
+      "not a connection",
+    ];
+    const text = JSON.stringify({ format: "schema-viz/connections", version: 1, payload: await encrypt(JSON.stringify(entries), "pass", 100000) });
+    const shared = await readBundle(text, "pass");
+
+    expect(shared).toEqual([
+      { name: "https://a.supabase.co", url: "https://a.supabase.co", anonKey: "a-key" },
+      { name: "b", url: "https://b.supabase.co", anonKey: "b-key", schemas: ["public"], strategy: "pg-meta" },
+    ]);
+    expect(Object.keys(shared[0]).sort()).toEqual(["anonKey", "metaUrl", "name", "schemas", "strategy", "url"]);
+  });
+
+  it("plans an import by project URL", () => {
+    const saved = [
+      connection("prod", "https://prod.supabase.co"),
+      connection("staging", "https://staging.supabase.co"),
+    ];
+    const plan = planImport(saved, [
+      { name: "prod", url: "https://PROD.supabase.co/", anonKey: "prod-key" },
+      { name: "staging (new key)", url: "https://staging.supabase.co", anonKey: "rotated" },
+      { name: "dev", url: "https://dev.supabase.co", anonKey: "dev-key" },
+    ]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.added.map(c => c.name)).toEqual(["dev"]);
+    expect(plan.conflicts.map(c => [c.existing.id, c.incoming.anonKey])).toEqual([["staging", "rotated"]]);
+  });
+});
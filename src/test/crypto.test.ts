@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  decrypt,
+  decryptWithKey,
+  encrypt,
+  encryptWithKey,
+  generateDataKey,
+  importDataKey,
+  needsUpgrade,
+  KDF_ITERATIONS,
+  ENVELOPE_VERSION,
+} from "@/lib/crypto";
+
+/** A version-1 blob: bare base64 of salt + iv + ciphertext, 100k PBKDF2 rounds */
+async function legacyEncrypt(data: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  const key = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: 100000, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt"],
+  );
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(data)));
+  return btoa(String.fromCharCode(...salt, ...iv, ...ciphertext));
+}
+
+const withEnvelope = (encoded: string, patch: Record<string, unknown>) => JSON.stringify({ ...JSON.parse(encoded), ...patch });
+
+describe("crypto", () => {
+  it("round-trips through a current envelope", async () => {
+    const encoded = await encrypt("secret", "correct horse");
+    expect(JSON.parse(encoded)).toMatchObject({ v: ENVELOPE_VERSION, iterations: KDF_ITERATIONS });
+    expect(await decrypt(encoded, "correct horse")).toBe("secret");
+    expect(needsUpgrade(encoded)).toBe(false);
+    await expect(decrypt(encoded, "wrong horse")).rejects.toThrow();
+  });
+
+  it("still opens version-1 blobs and flags them and cheaper envelopes for upgrade", async () => {
+    const legacy = await legacyEncrypt("old secret", "pass");
+    expect(await decrypt(legacy, "pass")).toBe("old secret");
+    expect(needsUpgrade(legacy)).toBe(true);
+    expect(needsUpgrade(await encrypt("x", "pass", 200000))).toBe(true);
+  });
+
+  it("rejects tampered ciphertext and out-of-range envelopes", async () => {
+    const encoded = await encrypt("secret", "pass", 100000);
+    const { ciphertext } = JSON.parse(encoded);
+    const flipped = `${ciphertext[0] === "A" ? "B" : "A"}${ciphertext.slice(1)}`;
+    await expect(decrypt(withEnvelope(encoded, { ciphertext: flipped }), "pass")).rejects.toThrow();
+
+    await expect(decrypt(withEnvelope(encoded, { iterations: 1e12 }), "pass")).rejects.toThrow("key derivation cost");
+    await expect(decrypt(withEnvelope(encoded, { iterations: 1 }), "pass")).rejects.toThrow("key derivation cost");
+    await expect(decrypt(withEnvelope(encoded, { alg: "AES-CBC" }), "pass")).rejects.toThrow("Unsupported encryption");
+    await expect(decrypt(withEnvelope(encoded, { v: ENVELOPE_VERSION + 1 }), "pass")).rejects.toThrow("newer version");
+  });
+
+  it("seals bulk data under a data key that only opens with the same raw bytes", async () => {
+    const { key, raw } = await generateDataKey();
+    const sealed = await encryptWithKey("history", key);
+    expect(await decryptWithKey(sealed, await importDataKey(raw))).toBe("history");
+    await expect(decryptWithKey(sealed, (await generateDataKey()).key)).rejects.toThrow();
+  });
+});
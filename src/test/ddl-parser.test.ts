@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+
+describe("parseDdl", () => {
+  it("builds tables, constraints and enums from a single script", () => {
+    const schema = parseDdl([{
+      name: "schema.sql",
+      content: `
+        -- statuses; with a semicolon in the comment
+        create type public.order_status as enum ('pending', 'shipped', 'it''s late');
+
+        create table public.customers (
+          id uuid primary key default gen_random_uuid(),
+          email text not null unique,
+          created_at timestamp with time zone default now()
+        );
+
+        CREATE TABLE "Orders" (
+          id bigint generated always as identity,
+          customer_id uuid not null references customers,
+          status order_status not null default 'pending',
+          total numeric(10, 2) check (total >= 0),
+          CONSTRAINT orders_pkey PRIMARY KEY (id)
+        );
+
+        comment on table public.customers is 'People who buy things';
+        comment on column "Orders".total is 'Includes the customer''s VAT';
+      `,
+    }]);
+
+    expect(schema.schemas).toEqual(["public"]);
+    expect(schema.tables.map(t => t.id)).toEqual(["public.customers", "public.Orders"]);
+    expect(schema.enums).toEqual([
+      { name: "order_status", schema: "public", values: ["pending", "shipped", "it's late"] },
+    ]);
+
+    const customers = schema.tables.find(t => t.name === "customers")!;
+    expect(customers.primaryKey).toEqual(["id"]);
+    expect(customers.columns.find(c => c.name === "email")).toMatchObject({ isUnique: true, isNullable: false });
+    expect(customers.columns.find(c => c.name === "created_at")).toMatchObject({ rawType: "timestamp with time zone", typeFamily: "temporal" });
+
+    const orders = schema.tables.find(t => t.name === "Orders")!;
+    expect(orders.columns.map(c => c.name)).toEqual(["id", "customer_id", "status", "total"]);
+    expect(orders.columns.find(c => c.name === "status")).toMatchObject({ enumName: "order_status", typeFamily: "enum", defaultValue: "'pending'" });
+    expect(orders.columns.find(c => c.name === "total")).toMatchObject({ dataType: "numeric", rawType: "numeric(10, 2)", typeFamily: "decimal" });
+    expect(customers.description).toBe("People who buy things");
+    expect(orders.columns.find(c => c.name === "total")?.description).toBe("Includes the customer's VAT");
+
+    expect(schema.foreignKeys).toEqual([{
+      constraintName: "Orders_customer_id_fkey",
+      sourceId: "public.Orders",
+      sourceTable: "Orders",
+      targetId: "public.customers",
+      targetTable: "customers",
+      columns: [{ source: "customer_id", target: "id" }],
+    }]);
+  });
+
+  it("applies migration files in filename order", () => {
+    const schema = parseDdl([
+      {
+        name: "20240102000000_links.sql",
+        content: `
+          alter table only public.line_items
+            add constraint line_items_order_fk foreign key (order_id, region) references billing.orders (id, region) on delete cascade;
+          create unique index concurrently if not exists line_items_sku_idx on public.line_items using btree (sku);
+          create unique index line_items_pair_idx on public.line_items (order_id, sku);
+          drop table if exists public.scratch;
+        `,
+      },
+      {
+        name: "20240101000000_init.sql",
+        content: `
+          create schema billing;
+          create table billing.orders (id bigint, region text, primary key (id, region));
+          create table public.line_items (order_id bigint, region text, sku text, user_id uuid references auth.users (id));
+          create table public.scratch (id int);
+          create function noop() returns void language plpgsql as $$ begin; end; $$;
+        `,
+      },
+    ]);
+
+    expect(schema.schemas).toEqual(["billing", "public"]);
+    expect(schema.tables.map(t => t.id)).toEqual(["billing.orders", "public.line_items"]);
+    expect(schema.tables[0].primaryKey).toEqual(["id", "region"]);
+
+    const items = schema.tables[1];
+    expect(items.columns.find(c => c.name === "sku")?.isUnique).toBe(true);
+    expect(items.columns.find(c => c.name === "order_id")?.isUnique).toBe(false);
+    // auth.users isn't part of the script, so the column is marked but no edge is drawn
+    expect(items.columns.find(c => c.name === "user_id")?.references).toEqual({ schema: "auth", table: "users", column: "id" });
+
+    expect(schema.foreignKeys).toEqual([{
+      constraintName: "line_items_order_fk",
+      sourceId: "public.line_items",
+      sourceTable: "line_items",
+      targetId: "billing.orders",
+      targetTable: "orders",
+      columns: [{ source: "order_id", target: "id" }, { source: "region", target: "region" }],
+    }]);
+  });
+
+  it("reads row level security and policies", () => {
+    const schema = parseDdl([{
+      name: "rls.sql",
+      content: `
+        create table profiles (id uuid primary key, user_id uuid);
+        create table audit (id bigint primary key);
+        alter table only public.profiles enable row level security;
+        create policy "Read own profile" on profiles for select to authenticated, anon using (auth.uid() = user_id);
+        create policy upd on profiles as restrictive for update to authenticated using (true) with check (auth.uid() = user_id);
+        create policy temp on profiles using (true);
+        drop policy if exists temp on profiles;
+      `,
+    }]);
+
+    const [audit, profiles] = schema.tables;
+    expect(audit).toMatchObject({ rlsEnabled: false, policies: [] });
+    expect(profiles.rlsEnabled).toBe(true);
+    expect(profiles.policies).toEqual([
+      { name: "Read own profile", command: "SELECT", permissive: true, roles: ["authenticated", "anon"], using: "auth.uid() = user_id", withCheck: null },
+      { name: "upd", command: "UPDATE", permissive: false, roles: ["authenticated"], using: "true", withCheck: "auth.uid() = user_id" },
+    ]);
+  });
+
+  it("replays drops, renames and column changes across migrations", () => {
+    const schema = parseDdl([
+      {
+        name: "20240101000000_init.sql",
+        content: `
+          create type status as enum ('draft', 'live');
+          create type mood as enum ('ok');
+          create table a (id bigint primary key, old text, name varchar(20), state status);
+          create table c (id bigint primary key, a_id bigint references a (id), note text);
+        `,
+      },
+      {
+        name: "20240201000000_reshape.sql",
+        content: `
+          alter table a drop column old;
+          alter table a rename column name to title;
+          alter table a alter column title type text using title::text, alter column title set not null;
+          alter table a alter column state set default 'draft';
+          alter table a rename to b;
+          alter table c rename column a_id to b_id;
+          alter table c drop column if exists note;
+          alter type status add value 'archived';
+          alter type status add value if not exists 'review' before 'live';
+          drop type if exists mood;
+        `,
+      },
+    ]);
+
+    expect(schema.tables.map(t => t.id)).toEqual(["public.b", "public.c"]);
+    const [b, c] = schema.tables;
+    expect(b.columns.map(col => [col.name, col.rawType, col.isNullable])).toEqual([
+      ["id", "bigint", false],
+      ["state", "status", true],
+      ["title", "text", false],
+    ]);
+    expect(b.columns[1].defaultValue).toBe("'draft'");
+    expect(c.columns.map(col => col.name)).toEqual(["id", "b_id"]);
+    expect(c.columns[1].references).toEqual({ schema: "public", table: "b", column: "id" });
+    expect(schema.foreignKeys).toMatchObject([{ sourceId: "public.c", targetId: "public.b", columns: [{ source: "b_id", target: "id" }] }]);
+    expect(schema.enums).toEqual([{ name: "status", schema: "public", values: ["draft", "review", "live", "archived"] }]);
+  });
+
+  it("reads past referential actions on inline references", () => {
+    const schema = parseDdl([{
+      name: "actions.sql",
+      content: `
+        create table teams (id bigint primary key);
+        create table members (
+          id bigint primary key,
+          team_id bigint references teams on delete set default on update cascade,
+          backup_team_id bigint references teams (id) on delete set null (backup_team_id) not null,
+          mentor_team_id bigint references teams match simple on delete no action deferrable initially deferred default 1
+        );
+      `,
+    }]);
+
+    const members = schema.tables.find(t => t.name === "members")!;
+    expect(members.columns.find(c => c.name === "team_id")).toMatchObject({ defaultValue: null, isNullable: true, isForeignKey: true });
+    expect(members.columns.find(c => c.name === "backup_team_id")).toMatchObject({ defaultValue: null, isNullable: false });
+    expect(members.columns.find(c => c.name === "mentor_team_id")).toMatchObject({ defaultValue: "1" });
+    expect(schema.foreignKeys.map(fk => fk.constraintName).sort()).toEqual([
+      "members_backup_team_id_fkey",
+      "members_mentor_team_id_fkey",
+      "members_team_id_fkey",
+    ]);
+  });
+
+  it("rejects scripts without tables", () => {
+    expect(() => parseDdl([{ name: "empty.sql", content: "select 1;" }])).toThrow("No CREATE TABLE");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { generateMigration, migrationScript } from "@/lib/migration-sql";
+
+const dev = parseDdl([{
+  name: "dev.sql",
+  content: `
+    create type status as enum ('new', 'pending', 'paid');
+    create table customers (id uuid primary key, email text not null, created_at timestamptz default now());
+    create table orders (id bigint primary key, customer_id uuid references customers, total numeric(12, 2), status status);
+    create table invoices (id bigint primary key, order_id bigint not null references orders, parent_id bigint references invoices);
+  `,
+}]);
+
+const prod = parseDdl([{
+  name: "prod.sql",
+  content: `
+    create type status as enum ('new', 'paid');
+    create type legacy_kind as enum ('a');
+    create table customers (id uuid primary key, email text, "user" text);
+    create table orders (id bigint primary key, customer_id uuid references customers, total numeric(10, 2), status status);
+    create table audit_log (id bigint primary key, order_id bigint references orders);
+  `,
+}]);
+
+describe("generateMigration", () => {
+  it("turns prod into dev, creating before altering and dropping last", () => {
+    const statements = generateMigration(prod, dev);
+
+    expect(statements.map(s => s.sql)).toEqual([
+      "ALTER TYPE public.status ADD VALUE 'pending' AFTER 'new';",
+      "CREATE TABLE public.invoices (\n  id bigint,\n  order_id bigint NOT NULL,\n  parent_id bigint,\n  PRIMARY KEY (id)\n);",
+      "ALTER TABLE public.customers ALTER COLUMN email SET NOT NULL;",
+      "ALTER TABLE public.customers ADD COLUMN created_at timestamptz DEFAULT now();",
+      "ALTER TABLE public.orders ALTER COLUMN total TYPE numeric(12, 2) USING total::numeric(12, 2);",
+      "ALTER TABLE public.invoices ADD CONSTRAINT invoices_order_id_fkey FOREIGN KEY (order_id) REFERENCES public.orders (id);",
+      "ALTER TABLE public.invoices ADD CONSTRAINT invoices_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.invoices (id);",
+      "DROP TABLE public.audit_log;",
+      'ALTER TABLE public.customers DROP COLUMN "user";',
+      "DROP TYPE public.legacy_kind;",
+    ]);
+    expect(statements.filter(s => s.destructive).map(s => s.sql.split(" ").slice(0, 2).join(" "))).toEqual([
+      "ALTER TABLE", "ALTER TABLE", "DROP TABLE", "ALTER TABLE", "DROP TYPE",
+    ]);
+  });
+
+  it("drops dependent tables before the tables they reference", () => {
+    const empty = { tables: [], foreignKeys: [], functions: [], enums: [], schemas: ["public"] };
+    const drops = generateMigration(dev, empty).map(s => s.sql);
+    expect(drops.indexOf("DROP TABLE public.invoices;")).toBeLessThan(drops.indexOf("DROP TABLE public.orders;"));
+    expect(drops.indexOf("DROP TABLE public.orders;")).toBeLessThan(drops.indexOf("DROP TABLE public.customers;"));
+  });
+
+  it("drops a removed table before a column its key references", () => {
+    const before = parseDdl([{
+      name: "before.sql",
+      content: `
+        create table accounts (id bigint primary key, legacy_code text unique);
+        create table legacy_links (id bigint primary key, code text references accounts (legacy_code));
+      `,
+    }]);
+    const after = parseDdl([{ name: "after.sql", content: "create table accounts (id bigint primary key);" }]);
+    const drops = generateMigration(before, after).map(s => s.sql);
+    expect(drops).toEqual([
+      "DROP TABLE public.legacy_links;",
+      "ALTER TABLE public.accounts DROP COLUMN legacy_code;",
+    ]);
+  });
+
+  it("flags enum values Postgres can't remove for a manual step", () => {
+    const statements = generateMigration(dev, prod);
+    const manual = statements.find(s => s.manual)!;
+    expect(manual.destructive).toBe(true);
+    expect(manual.sql).toContain("'pending'");
+    expect(migrationScript(statements, "dev", "prod")).toContain("-- DESTRUCTIVE: drops the table and every row in it\nDROP TABLE public.invoices;");
+  });
+});
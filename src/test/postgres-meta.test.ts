@@ -0,0 +1,231 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { fetchPostgresMetaSchema } from "@/lib/postgres-meta";
+
+const column = (tableId: number, table: string, name: string, position: number, extra: Record<string, unknown> = {}) => ({
+  table_id: tableId,
+  schema: "public",
+  table,
+  name,
+  ordinal_position: position,
+  data_type: "bigint",
+  format: "int8",
+  numeric_precision: 64,
+  is_nullable: false,
+  is_unique: false,
+  is_identity: false,
+  identity_generation: null,
+  is_generated: false,
+  default_value: null,
+  comment: null,
+  check: null,
+  enums: [],
+  ...extra,
+});
+
+const routes: Record<string, unknown> = {
+  "/tables": [
+    { id: 1, schema: "public", name: "customers", comment: "People who buy things", primary_keys: [{ name: "id" }], rls_enabled: true, rls_forced: false },
+    { id: 2, schema: "public", name: "orders", comment: null, primary_keys: [{ name: "id" }], rls_enabled: false, rls_forced: false },
+  ],
+  "/views": [{ id: 3, schema: "public", name: "order_totals", comment: "Spend per customer" }],
+  "/materialized_views": [{ id: 4, schema: "public", name: "daily_sales", comment: null }],
+  "/columns": [
+    column(1, "customers", "id", 1, { is_identity: true, identity_generation: "ALWAYS" }),
+    column(1, "customers", "email", 2, { data_type: "character varying", format: "varchar", character_maximum_length: 255, is_unique: true, comment: "Login address" }),
+    column(2, "orders", "id", 1),
+    column(2, "orders", "customer_id", 2),
+    column(2, "orders", "status", 3, { data_type: "USER-DEFINED", format: "order_status", enums: ["pending", "shipped"] }),
+    column(2, "orders", "tags", 4, { data_type: "ARRAY", format: "_text", is_nullable: true }),
+    column(3, "order_totals", "customer_id", 1, { is_nullable: true }),
+    column(4, "daily_sales", "day", 1, { data_type: "date", format: "date", is_nullable: true }),
+    column(2, "orders", "total", 5, { data_type: "numeric", format: "numeric", numeric_precision: 12, numeric_scale: 2, check: "total >= 0" }),
+  ],
+  "/relationships": [
+    {
+      constraint_name: "orders_customer_id_fkey",
+      source_schema: "public",
+      source_table_name: "orders",
+      source_column_name: "customer_id",
+      target_table_schema: "public",
+      target_table_name: "customers",
+      target_column_name: "id",
+      on_delete: "c",
+    },
+  ],
+  "/types": [
+    { name: "order_status", schema: "public", enums: ["pending", "shipped"] },
+    { name: "money_amount", schema: "public", enums: [] },
+  ],
+  "/functions": [
+    {
+      schema: "public",
+      name: "order_total",
+      args: [
+        { mode: "in", name: "p_order_id", has_default: false },
+        { mode: "in", name: "p_currency", has_default: true },
+        { mode: "out", name: "total", has_default: false },
+      ],
+      argument_types: "p_order_id bigint, p_currency character varying DEFAULT 'EUR, USD'::character varying, OUT total numeric(12,2)",
+      return_type: "numeric",
+      is_set_returning_function: false,
+      behavior: "STABLE",
+    },
+    {
+      schema: "public",
+      name: "recent_orders",
+      args: [{ mode: "in", name: "since", has_default: false }, { mode: "table", name: "id", has_default: false }],
+      argument_types: "since timestamp with time zone",
+      return_type: "TABLE(id bigint)",
+      is_set_returning_function: true,
+      behavior: "VOLATILE",
+    },
+    {
+      schema: "public",
+      name: "open_orders",
+      args: [],
+      argument_types: "",
+      return_type: "SETOF orders",
+      is_set_returning_function: true,
+      behavior: "STABLE",
+    },
+    { schema: "public", name: "touch_updated_at", args: [], argument_types: "", return_type: "trigger", is_set_returning_function: false, behavior: "VOLATILE" },
+  ],
+  "/indexes": [
+    {
+      table_id: 1,
+      schema: "public",
+      is_unique: true,
+      is_primary: false,
+      access_method: "btree",
+      index_definition: "CREATE UNIQUE INDEX customers_email_key ON public.customers USING btree (email)",
+      index_attributes: [{ attribute_name: "email" }],
+    },
+  ],
+  "/policies": [
+    {
+      table_id: 1,
+      name: "Customers read themselves",
+      action: "PERMISSIVE",
+      roles: ["authenticated"],
+      command: "SELECT",
+      definition: "(auth.uid() = id)",
+      check: null,
+    },
+  ],
+};
+
+let server: Server;
+let baseUrl: string;
+const requests: IncomingMessage[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req);
+    const body = routes[new URL(req.url ?? "/", "http://localhost").pathname.replace(/^\/pg/, "")];
+    res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body ?? { error: "not found" }));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/pg/`;
+});
+
+afterAll(() => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+}));
+
+describe("fetchPostgresMetaSchema", () => {
+  it("maps catalog details into SchemaData", async () => {
+    const schema = await fetchPostgresMetaSchema(baseUrl, "service-key", ["public"]);
+
+    expect(requests[0].url).toBe("/pg/tables?included_schemas=public");
+    expect(requests[0].headers.authorization).toBe("Bearer service-key");
+
+    expect(schema.schemas).toEqual(["public"]);
+    expect(schema.enums).toEqual([{ name: "order_status", schema: "public", values: ["pending", "shipped"] }]);
+
+    const customers = schema.tables.find(t => t.id === "public.customers")!;
+    expect(customers.description).toBe("People who buy things");
+    expect(customers.columns.find(c => c.name === "id")?.identity).toBe("ALWAYS");
+    expect(customers.columns.find(c => c.name === "email")).toMatchObject({
+      dataType: "character varying",
+      rawType: "character varying(255)",
+      isUnique: true,
+      description: "Login address",
+    });
+    expect(customers.indexes).toEqual([{
+      name: "customers_email_key",
+      columns: ["email"],
+      isUnique: true,
+      isPrimary: false,
+      method: "btree",
+      definition: "CREATE UNIQUE INDEX customers_email_key ON public.customers USING btree (email)",
+    }]);
+
+    expect(customers.rlsEnabled).toBe(true);
+    expect(customers.policies).toEqual([{
+      name: "Customers read themselves",
+      command: "SELECT",
+      permissive: true,
+      roles: ["authenticated"],
+      using: "(auth.uid() = id)",
+      withCheck: null,
+    }]);
+
+    const orders = schema.tables.find(t => t.id === "public.orders")!;
+    expect(orders).toMatchObject({ rlsEnabled: false, policies: [] });
+    expect(orders.columns.map(c => c.name)).toEqual(["id", "customer_id", "status", "tags", "total"]);
+    expect(orders.columns.find(c => c.name === "status")).toMatchObject({ dataType: "order_status", enumName: "order_status" });
+    expect(orders.columns.find(c => c.name === "tags")?.dataType).toBe("text[]");
+    expect(orders.columns.find(c => c.name === "total")).toMatchObject({ rawType: "numeric(12,2)", check: "total >= 0" });
+    expect(orders.columns.find(c => c.name === "id")?.rawType).toBe("bigint");
+    expect(orders.columns.find(c => c.name === "customer_id")?.references).toEqual({ schema: "public", table: "customers", column: "id" });
+
+    expect(schema.tables.map(t => [t.name, t.kind])).toEqual([
+      ["customers", "table"], ["daily_sales", "view"], ["order_totals", "view"], ["orders", "table"],
+    ]);
+    const totals = schema.tables.find(t => t.name === "order_totals")!;
+    expect(totals).toMatchObject({ description: "Spend per customer", policies: undefined });
+    expect(totals.columns.map(c => c.name)).toEqual(["customer_id"]);
+
+    expect(schema.functions).toEqual([
+      { name: "open_orders", schema: "public", parameters: [], returnType: "orders", returnsSet: true, isReadOnly: true },
+      {
+        name: "order_total",
+        schema: "public",
+        parameters: [
+          { name: "p_order_id", dataType: "bigint", isRequired: true },
+          { name: "p_currency", dataType: "character varying", isRequired: false },
+        ],
+        returnType: "numeric",
+        returnsSet: false,
+        isReadOnly: true,
+      },
+      {
+        name: "recent_orders",
+        schema: "public",
+        parameters: [{ name: "since", dataType: "timestamp with time zone", isRequired: true }],
+        returnType: null,
+        returnsSet: true,
+        isReadOnly: false,
+      },
+    ]);
+
+    expect(schema.foreignKeys).toEqual([{
+      constraintName: "orders_customer_id_fkey",
+      sourceId: "public.orders",
+      sourceTable: "orders",
+      targetId: "public.customers",
+      targetTable: "customers",
+      columns: [{ source: "customer_id", target: "id" }],
+      onDelete: "CASCADE",
+      onUpdate: undefined,
+    }]);
+  });
+
+  it("reports the failing endpoint", async () => {
+    await expect(fetchPostgresMetaSchema(`${baseUrl}missing`, "key")).rejects.toThrow("Failed to fetch /tables from postgres-meta: 404");
+  });
+});
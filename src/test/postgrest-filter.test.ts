@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { operatorsFor, rowsUrl } from "@/lib/postgrest-filter";
+
+const schema = parseDdl([{
+  name: "app.sql",
+  content: `
+    create type status as enum ('draft', 'live');
+    create table posts (
+      id bigint primary key,
+      title text not null,
+      tags text[],
+      status status not null,
+      meta jsonb,
+      published_at timestamptz
+    );
+  `,
+}]);
+const posts = schema.tables[0];
+const column = (name: string) => posts.columns.find(c => c.name === name)!;
+
+describe("operatorsFor", () => {
+  it("offers operators that fit the column type", () => {
+    expect(operatorsFor(column("id"))).toEqual(["eq", "neq", "gt", "lt", "in"]);
+    expect(operatorsFor(column("title"))).toEqual(["eq", "neq", "like", "ilike", "in", "fts"]);
+    expect(operatorsFor(column("tags"))).toEqual(["cs", "is.null"]);
+    expect(operatorsFor(column("status"))).toEqual(["eq", "neq", "in"]);
+    expect(operatorsFor(column("meta"))).toEqual(["is.null"]);
+    expect(operatorsFor(column("published_at"))).toEqual(["eq", "neq", "gt", "lt", "in", "is.null"]);
+  });
+});
+
+describe("rowsUrl", () => {
+  it("writes filters as PostgREST parameters, quoting reserved list items", () => {
+    const url = rowsUrl("https://x.supabase.co", posts, {
+      limit: 25,
+      offset: 50,
+      filters: [
+        { column: "status", operator: "in", value: "draft, live" },
+        { column: "tags", operator: "cs", value: "a,b c" },
+        { column: "title", operator: "ilike", value: "%hello%" },
+        { column: "published_at", operator: "is.null", value: "" },
+        { column: "id", operator: "gt", value: " " },
+      ],
+    });
+    const params = new URL(url).searchParams;
+    expect(url.startsWith("https://x.supabase.co/rest/v1/posts?select=*&")).toBe(true);
+    expect(params.get("status")).toBe("in.(draft,live)");
+    expect(params.get("tags")).toBe('cs.{a,"b c"}');
+    expect(params.get("title")).toBe("ilike.%hello%");
+    expect(params.get("published_at")).toBe("is.null");
+    expect(params.has("id")).toBe(false);
+    expect([params.get("order"), params.get("limit"), params.get("offset")]).toEqual(["id", "25", "50"]);
+  });
+});
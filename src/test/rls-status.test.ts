@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { rlsStatus } from "@/lib/rls-status";
+
+const schema = parseDdl([{
+  name: "rls.sql",
+  content: `
+    create table audit_log (id bigint primary key);
+    create table drafts (id bigint primary key);
+    create table notes (id bigint primary key, owner uuid);
+    create table profiles (id uuid primary key);
+    alter table drafts enable row level security;
+    alter table notes enable row level security;
+    alter table profiles enable row level security;
+    create policy own_notes on notes as restrictive for select using (auth.uid() = owner);
+    create policy read_profiles on profiles for select using (true);
+    create policy not_banned on profiles as restrictive using (true);
+  `,
+}]);
+
+const status = (name: string) => rlsStatus(schema.tables.find(t => t.name === name)!);
+
+describe("rlsStatus", () => {
+  it("tells apart RLS off, RLS on with nothing allowed, and RLS on with policies", () => {
+    expect(status("audit_log")).toBe("disabled");
+    expect(status("drafts")).toBe("no-policies");
+    expect(status("profiles")).toBe("policies");
+  });
+
+  it("treats a table with only restrictive policies as allowing nothing", () => {
+    expect(status("notes")).toBe("no-policies");
+  });
+
+  it("is unknown when the source doesn't expose RLS", () => {
+    expect(rlsStatus({ ...schema.tables[0], rlsEnabled: undefined })).toBe("unknown");
+  });
+});
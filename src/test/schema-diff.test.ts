@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { parseOpenApiSpec } from "@/lib/schema-introspection";
+import { diffSchemas, diffStatus, overlaySchema, schemaFingerprint } from "@/lib/schema-diff";
+
+const prod = parseDdl([{
+  name: "prod.sql",
+  content: `
+    create table customers (id uuid primary key, email text, legacy_code text);
+    create table orders (
+      id bigint primary key,
+      customer_id uuid constraint orders_customer_id_fkey references customers,
+      total numeric(10, 2)
+    );
+    create table audit_log (id bigint primary key);
+  `,
+}]);
+
+const staging = parseDdl([{
+  name: "staging.sql",
+  content: `
+    create table customers (id uuid primary key, email text not null, created_at timestamptz default now());
+    create table orders (
+      id bigint primary key,
+      customer_id uuid constraint fk_orders_customer references customers,
+      total numeric(12, 2)
+    );
+    create table invoices (id bigint primary key, order_id bigint references orders);
+  `,
+}]);
+
+describe("diffSchemas", () => {
+  it("reports added, removed and changed tables and columns", () => {
+    const diff = diffSchemas(prod, staging);
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2 });
+    expect(diff.tables.map(t => [t.id, t.kind])).toEqual([
+      ["public.audit_log", "removed"],
+      ["public.customers", "changed"],
+      ["public.invoices", "added"],
+      ["public.orders", "changed"],
+    ]);
+
+    const customers = diff.tables.find(t => t.name === "customers")!;
+    expect(customers.columns.map(c => [c.name, c.kind])).toEqual([
+      ["email", "changed"],
+      ["legacy_code", "removed"],
+      ["created_at", "added"],
+    ]);
+    expect(customers.columns[0].changes).toEqual([{ field: "nullable", before: "NULL", after: "NOT NULL" }]);
+
+    const orders = diff.tables.find(t => t.name === "orders")!;
+    expect(orders.columns[0].changes).toEqual([{ field: "type", before: "numeric(10, 2)", after: "numeric(12, 2)" }]);
+  });
+
+  it("matches foreign keys by column rather than constraint name", () => {
+    const diff = diffSchemas(prod, staging);
+    expect(diff.tables.find(t => t.name === "orders")!.foreignKeys).toEqual([]);
+    expect(diff.tables.find(t => t.name === "invoices")!.foreignKeys.map(fk => fk.kind)).toEqual(["added"]);
+  });
+
+  it("overlays both sides for the diagram", () => {
+    const diff = diffSchemas(prod, staging);
+    const overlay = overlaySchema(prod, staging, diff);
+    const status = diffStatus(diff);
+
+    expect(overlay.tables.map(t => t.name).sort()).toEqual(["audit_log", "customers", "invoices", "orders"]);
+    expect(overlay.tables.find(t => t.name === "customers")!.columns.map(c => c.name)).toContain("legacy_code");
+    expect(status.columns.get("public.customers.legacy_code")).toBe("removed");
+    expect(status.tables.get("public.invoices")).toBe("added");
+  });
+
+  it("finds nothing between identical schemas", () => {
+    expect(diffSchemas(staging, staging)).toEqual({ tables: [], summary: { added: 0, removed: 0, changed: 0 } });
+  });
+
+  it("treats different spellings of the same type as equal", () => {
+    const api = parseOpenApiSpec({
+      definitions: {
+        members: {
+          required: ["id", "handle"],
+          properties: {
+            id: { type: "integer", format: "bigint", description: "Note:\nThis is a Primary Key.<pk/>" },
+            handle: { type: "string", format: "character varying", maxLength: 255 },
+            joined_at: { type: "string", format: "timestamp with time zone" },
+            score: { type: "integer", format: "integer" },
+          },
+        },
+      },
+      paths: { "/members": { get: {}, post: {} } },
+    });
+    const ddl = parseDdl([{
+      name: "members.sql",
+      content: "create table members (id int8 primary key, handle varchar(255) not null, joined_at timestamptz, score int4);",
+    }]);
+    expect(diffSchemas(api, ddl).tables).toEqual([]);
+
+    const widened = parseDdl([{
+      name: "members.sql",
+      content: "create table members (id int8 primary key, handle varchar(320) not null, joined_at timestamptz, score int4);",
+    }]);
+    const [members] = diffSchemas(api, widened).tables;
+    expect(members.columns.map(c => [c.name, c.changes])).toEqual([
+      ["handle", [{ field: "type", before: "character varying(255)", after: "varchar(320)" }]],
+    ]);
+  });
+});
+
+describe("schemaFingerprint", () => {
+  it("ignores the order tables arrive in and their row counts", () => {
+    const shuffled = {
+      ...staging,
+      tables: [...staging.tables].reverse().map(t => ({ ...t, rowCount: 42 })),
+    };
+    expect(schemaFingerprint(shuffled)).toBe(schemaFingerprint(staging));
+  });
+
+  it("changes when a column does", () => {
+    const retyped = parseDdl([{
+      name: "staging.sql",
+      content: `
+        create table customers (id uuid primary key, email varchar(320) not null, created_at timestamptz default now());
+        create table orders (
+          id bigint primary key,
+          customer_id uuid constraint fk_orders_customer references customers,
+          total numeric(12, 2)
+        );
+        create table invoices (id bigint primary key, order_id bigint references orders);
+      `,
+    }]);
+    expect(schemaFingerprint(retyped)).not.toBe(schemaFingerprint(staging));
+    expect(schemaFingerprint(prod)).not.toBe(schemaFingerprint(staging));
+  });
+});
@@ -0,0 +1,155 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createSupabaseClient, fetchSchema, parseOpenApiSpec } from "@/lib/schema-introspection";
+
+const pk = "Note:\nThis is a Primary Key.<pk/>";
+const fk = (table: string, column: string) => `Note:\nThis is a Foreign Key to \`${table}.${column}\`.<fk table='${table}' column='${column}'/>`;
+const writable = { get: {}, post: {}, patch: {}, delete: {} };
+
+const spec = {
+  definitions: {
+    orders: {
+      required: ["id", "status"],
+      properties: {
+        id: { type: "integer", format: "bigint", description: pk },
+        status: { type: "string", format: "order_status", enum: ["pending", "shipped"] },
+        flags: { type: "array", items: { type: "string", format: "order_status", enum: ["pending", "shipped", "held"] } },
+      },
+    },
+    order_lines: {
+      required: ["order_id", "line_no"],
+      properties: {
+        order_id: { type: "integer", format: "bigint", description: `${pk}\n${fk("orders", "id")}` },
+        line_no: { type: "integer", format: "integer", description: pk },
+      },
+    },
+    shipments: {
+      properties: {
+        id: { type: "integer", format: "bigint", description: pk },
+        order_id: { type: "integer", format: "bigint", description: fk("order_lines", "order_id") },
+        line_no: { type: "integer", format: "integer", description: fk("order_lines", "line_no") },
+      },
+    },
+    order_totals: {
+      properties: { order_id: { type: "integer", format: "bigint" }, total: { type: "number", format: "numeric" } },
+    },
+  },
+  paths: {
+    "/orders": writable,
+    "/order_lines": writable,
+    "/shipments": writable,
+    "/order_totals": { get: {} },
+    "/rpc/order_total": {
+      get: { parameters: [{ name: "order_id", in: "query", required: true, type: "integer", format: "bigint" }] },
+      post: {
+        parameters: [{
+          in: "body",
+          schema: { required: ["order_id"], properties: { order_id: { type: "integer", format: "bigint" } } },
+        }],
+        responses: { "200": { schema: { type: "number", format: "numeric" } } },
+      },
+    },
+    "/rpc/ship_all": {
+      post: {
+        parameters: [{ in: "body", schema: { properties: { since: { type: "string", format: "date" } } } }],
+        responses: { "200": { schema: { type: "array", items: { $ref: "#/definitions/shipments" } } } },
+      },
+    },
+  },
+};
+
+describe("parseOpenApiSpec", () => {
+  const schema = parseOpenApiSpec(spec);
+
+  it("tells views from tables and reads RPCs", () => {
+    expect(schema.tables.map(t => [t.name, t.kind])).toEqual([
+      ["order_lines", "table"], ["order_totals", "view"], ["orders", "table"], ["shipments", "table"],
+    ]);
+    expect(schema.functions).toEqual([
+      {
+        name: "order_total",
+        schema: "public",
+        parameters: [{ name: "order_id", dataType: "bigint", isRequired: true }],
+        returnType: "numeric",
+        returnsSet: false,
+        isReadOnly: true,
+      },
+      {
+        name: "ship_all",
+        schema: "public",
+        parameters: [{ name: "since", dataType: "date", isRequired: false }],
+        returnType: "shipments",
+        returnsSet: true,
+        isReadOnly: false,
+      },
+    ]);
+  });
+
+  it("collects enums, including ones only used in arrays", () => {
+    expect(schema.enums).toEqual([{ name: "order_status", schema: "public", values: ["pending", "shipped", "held"] }]);
+    const orders = schema.tables.find(t => t.name === "orders")!;
+    expect(orders.columns.find(c => c.name === "status")).toMatchObject({ dataType: "order_status", enumName: "order_status", typeFamily: "enum" });
+    expect(orders.columns.find(c => c.name === "flags")).toMatchObject({ dataType: "order_status[]", typeFamily: "array" });
+  });
+
+  it("folds columns covering a composite primary key into one foreign key", () => {
+    expect(schema.foreignKeys.map(f => [f.constraintName, f.targetTable, f.columns])).toEqual([
+      ["order_lines_order_id_fkey", "orders", [{ source: "order_id", target: "id" }]],
+      ["shipments_order_id_line_no_fkey", "order_lines", [{ source: "order_id", target: "order_id" }, { source: "line_no", target: "line_no" }]],
+    ]);
+  });
+});
+
+// One OpenAPI document per `Accept-Profile`, like PostgREST serves them
+const profiles: Record<string, object> = {
+  public: {
+    definitions: { customers: { properties: { id: { type: "integer", format: "bigint", description: pk } } } },
+    paths: { "/customers": writable },
+  },
+  billing: {
+    definitions: {
+      invoices: {
+        properties: {
+          id: { type: "integer", format: "bigint", description: pk },
+          customer_id: { type: "integer", format: "bigint", description: fk("customers", "id") },
+        },
+      },
+    },
+    paths: { "/invoices": writable },
+  },
+};
+
+let server: Server;
+let client: ReturnType<typeof createSupabaseClient>;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const body = profiles[String(req.headers["accept-profile"] ?? "public")];
+    res.writeHead(body ? 200 : 406, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body ?? { message: "unknown schema" }));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  client = createSupabaseClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, "anon-key");
+});
+
+afterAll(() => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+}));
+
+describe("fetchSchema", () => {
+  it("merges profiles and re-points foreign keys at the schema that has the table", async () => {
+    const schema = await fetchSchema(client, ["public", "billing"]);
+
+    expect(schema.schemas).toEqual(["public", "billing"]);
+    expect(schema.tables.map(t => t.id)).toEqual(["public.customers", "billing.invoices"]);
+    expect(schema.foreignKeys).toMatchObject([{ sourceId: "billing.invoices", targetId: "public.customers" }]);
+    const invoices = schema.tables.find(t => t.name === "invoices")!;
+    expect(invoices.columns.find(c => c.name === "customer_id")?.references).toEqual({ schema: "public", table: "customers", column: "id" });
+  });
+
+  it("names the schema that failed", async () => {
+    await expect(fetchSchema(client, ["missing"])).rejects.toThrow('for schema "missing": 406');
+  });
+});
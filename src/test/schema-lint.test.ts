@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { parseDdl } from "@/lib/ddl-parser";
+import { lintSchema } from "@/lib/schema-lint";
+
+const schema = parseDdl([{
+  name: "app.sql",
+  content: `
+    create table teams (id bigint primary key, owner_id int references users, created_at timestamptz, updated_at timestamptz);
+    create table users (id bigint primary key, team_id bigint not null references teams, "displayName" text, created_at timestamptz, updated_at timestamptz);
+    create table categories (id bigint primary key, parent_id bigint references categories, created_at timestamptz, updated_at timestamptz);
+    create table scratch (note text);
+  `,
+}]);
+
+const byRule = (disabled?: Set<string>) =>
+  lintSchema(schema, disabled).reduce<Record<string, string[]>>((acc, f) => {
+    (acc[f.ruleId] ??= []).push(f.message);
+    return acc;
+  }, {});
+
+describe("lintSchema", () => {
+  it("reports each rule's findings, errors first", () => {
+    const findings = lintSchema(schema);
+    expect(findings[0].severity).toBe("error");
+    expect(byRule()).toEqual({
+      "missing-primary-key": ["scratch has no primary key"],
+      "fk-type-mismatch": ["teams.owner_id is int but users.id is bigint"],
+      "mixed-naming": ["users.displayName breaks the snake_case used elsewhere"],
+      "circular-foreign-keys": ["teams → users → teams"],
+      "nullable-foreign-key": ["teams.owner_id → users is nullable", "categories.parent_id → categories is nullable"],
+      "orphan-table": ["scratch has no relationships"],
+      "missing-timestamps": ["scratch has no created_at or updated_at"],
+    });
+  });
+
+  it("skips disabled rules", () => {
+    const rules = Object.keys(byRule(new Set(["orphan-table", "nullable-foreign-key"])));
+    expect(rules).not.toContain("orphan-table");
+    expect(rules).not.toContain("nullable-foreign-key");
+    expect(rules).toContain("missing-primary-key");
+  });
+});
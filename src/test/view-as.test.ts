@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { identityFromJwt } from "@/lib/view-as";
+
+/** An unsigned token; only the payload is ever read */
+function jwt(payload: Record<string, unknown>): string {
+  const encode = (part: object) => btoa(JSON.stringify(part)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.signature`;
+}
+
+const inAnHour = Math.floor(Date.now() / 1000) + 3600;
+
+describe("identityFromJwt", () => {
+  it("labels the identity by email, then user id, then role", () => {
+    const token = jwt({ sub: "user-1", email: "ada@example.com", role: "authenticated", exp: inAnHour });
+    expect(identityFromJwt(token)).toEqual({
+      label: "ada@example.com",
+      role: "authenticated",
+      accessToken: token,
+      expiresAt: inAnHour * 1000,
+    });
+    expect(identityFromJwt(jwt({ sub: "user-1", role: "authenticated" })).label).toBe("user-1");
+    expect(identityFromJwt(jwt({ role: "anon" })).label).toBe("anon");
+  });
+
+  it("accepts a pasted Authorization header", () => {
+    const token = jwt({ sub: "user-1", exp: inAnHour });
+    expect(identityFromJwt(`  Bearer ${token}\n`).accessToken).toBe(token);
+  });
+
+  it("rejects anything that isn't a JWT", () => {
+    expect(() => identityFromJwt("not-a-token")).toThrow("That isn't a JWT");
+    expect(() => identityFromJwt("sb_publishable_abc123")).toThrow("That isn't a JWT");
+  });
+
+  it("rejects an expired token", () => {
+    expect(() => identityFromJwt(jwt({ sub: "user-1", exp: Math.floor(Date.now() / 1000) - 60 }))).toThrow(/^Token expired/);
+  });
+});
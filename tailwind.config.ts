@@ -69,6 +69,10 @@ export default {
           DEFAULT: "hsl(var(--info))",
           foreground: "hsl(var(--info-foreground))",
         },
+        rpc: {
+          DEFAULT: "hsl(var(--rpc))",
+          foreground: "hsl(var(--rpc-foreground))",
+        },
       },
       borderRadius: {
         lg: "var(--radius)",